@@ -0,0 +1,123 @@
+// Generate typed ethers bindings for the prescription contract from src/abi/contract-abi.json.
+//   node scripts/generate-contract-types.mjs          write src/abi/contract-types.ts
+//   node scripts/generate-contract-types.mjs --check  exit 1 if the committed file is out of date
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const ABI_FILE = path.join(root, 'src/abi/contract-abi.json');
+const OUT_FILE = path.join(root, 'src/abi/contract-types.ts');
+
+// TypeScript type for a Solidity type, as accepted in calls (`input`) or as ethers decodes it (`output`)
+const toTsType = (param, direction) => {
+  const { type } = param;
+  const array = type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    return `${toTsType({ ...param, type: array[1] }, direction)}[]`;
+  }
+  if (type === 'address') return direction === 'input' ? 'AddressLike' : 'string';
+  if (type === 'bool') return 'boolean';
+  if (type === 'string') return 'string';
+  if (/^bytes\d*$/.test(type)) return direction === 'input' ? 'BytesLike' : 'string';
+  if (/^u?int\d*$/.test(type)) return direction === 'input' ? 'BigNumberish' : 'bigint';
+  throw new Error(`Unsupported ABI type "${type}" in ${param.name || 'unnamed parameter'}`);
+};
+
+// Labelled tuple of parameters; unnamed outputs are numbered
+const toTuple = (params, direction) =>
+  `[${params.map((p, i) => `${p.name || `${direction === 'input' ? 'arg' : 'out'}${i}`}: ${toTsType(p, direction)}`).join(', ')}]`;
+
+// Return type of a call: nothing, a single value, or the full tuple
+const toReturnType = (outputs) => {
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return toTsType(outputs[0], 'output');
+  return toTuple(outputs, 'output');
+};
+
+const isReadOnly = (fragment) => fragment.stateMutability === 'view' || fragment.stateMutability === 'pure';
+
+const generate = (abi) => {
+  const functions = abi.filter(f => f.type === 'function');
+  const events = abi.filter(f => f.type === 'event');
+
+  const argTuples = functions.map(fn => `  ${fn.name}: ${toTuple(fn.inputs, 'input')};`);
+
+  const methods = functions.map(fn => {
+    const args = `PrescriptionContractArgs['${fn.name}']`;
+    const result = toReturnType(fn.outputs);
+    return isReadOnly(fn)
+      ? `  ${fn.name}: ConstantContractMethod<${args}, ${result}>;`
+      : `  ${fn.name}: ContractMethod<${args}, ${result}, ContractTransactionResponse>;`;
+  });
+
+  const calls = functions
+    .filter(fn => !isReadOnly(fn))
+    .map(fn => `  | { name: '${fn.name}'; args: ${toTuple(fn.inputs, 'output')} }`);
+
+  const eventArgs = events.map(ev => `  ${ev.name}: ${toTuple(ev.inputs, 'output')};`);
+
+  return `// Generated by scripts/generate-contract-types.mjs from contract-abi.json. Do not edit by hand;
+// run \`npm run contract:generate\` after changing the ABI.
+import {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  ConstantContractMethod,
+  Contract,
+  ContractMethod,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+} from 'ethers';
+import contractAbi from './contract-abi.json';
+
+// Arguments of each contract function
+export interface PrescriptionContractArgs {
+${argTuples.join('\n')}
+}
+
+// Contract functions with their argument and return types
+export interface PrescriptionContractMethods {
+${methods.join('\n')}
+}
+
+// Event arguments by event name, as ethers decodes them
+export type PrescriptionContractEvents = ${eventArgs.length ? `{\n${eventArgs.join('\n')}\n}` : 'Record<never, never>'};
+
+// A decoded state-changing call, e.g. from transaction calldata
+export type PrescriptionContractCall =
+${calls.length ? calls.join('\n') : '  never'};
+
+export type PrescriptionContract = BaseContract & PrescriptionContractMethods;
+
+export const prescriptionContractInterface = new Interface(contractAbi);
+
+// Bind the contract at \`address\` to a signer or provider
+export function connectPrescriptionContract(address: string, runner: ContractRunner | null): PrescriptionContract {
+  return new Contract(address, prescriptionContractInterface, runner) as unknown as PrescriptionContract;
+}
+
+// Decode calldata sent to the contract, or null if it isn't a call to one of its state-changing functions
+export function parsePrescriptionCall(data: string, value?: BigNumberish): PrescriptionContractCall | null {
+  const parsed = prescriptionContractInterface.parseTransaction({ data, value });
+  if (!parsed || parsed.fragment.constant) return null;
+  return { name: parsed.name, args: parsed.args.toArray() } as PrescriptionContractCall;
+}
+`;
+};
+
+const output = generate(JSON.parse(fs.readFileSync(ABI_FILE, 'utf8')));
+
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(OUT_FILE) ? fs.readFileSync(OUT_FILE, 'utf8') : '';
+  if (current !== output) {
+    console.error('src/abi/contract-types.ts is out of date with contract-abi.json. Run `npm run contract:generate`.');
+    process.exit(1);
+  }
+  console.log('Contract bindings are up to date.');
+} else {
+  fs.writeFileSync(OUT_FILE, output);
+  console.log(`Wrote ${path.relative(root, OUT_FILE)}`);
+}
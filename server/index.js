@@ -0,0 +1,358 @@
+// Local stand-in for the MediChain REST backend. See server/README.md for the contract.
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ethers } from 'ethers';
+import { createSeedPrescriptions, seedMedicines, seedPatientProfiles, seedTemplates, seedUsers } from './seed.js';
+
+const PORT = Number(process.env.PORT) || 4000;
+const DATA_FILE = process.env.DATA_FILE ||
+  path.join(path.dirname(fileURLToPath(import.meta.url)), 'data.json');
+
+// How long a sign-in nonce can be used after it is issued
+const SIWE_NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Load persisted state, or seed a fresh store
+const loadStore = () => {
+  if (fs.existsSync(DATA_FILE)) {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  }
+  return {
+    prescriptions: createSeedPrescriptions(),
+    medicines: seedMedicines,
+    users: seedUsers,
+    dispenseEvents: [],
+    patientWallets: [],
+    patientProfiles: seedPatientProfiles,
+    auditEntries: [],
+    templates: seedTemplates,
+    siweNonces: [],
+  };
+};
+
+const store = {
+  patientWallets: [],
+  patientProfiles: seedPatientProfiles,
+  auditEntries: [],
+  templates: seedTemplates,
+  siweNonces: [],
+  ...loadStore(),
+};
+
+const persist = () => {
+  fs.writeFileSync(DATA_FILE, JSON.stringify(store, null, 2));
+};
+
+// Replace the record with the same id, or append it
+const upsert = (records, record) => {
+  const index = records.findIndex(r => r.id === record.id);
+  if (index === -1) {
+    records.push(record);
+  } else {
+    records[index] = record;
+  }
+  return record;
+};
+
+// Message a patient signs to link a wallet; must match buildLinkMessage in src/services/PatientService.ts
+const buildLinkMessage = (patientId, address, issuedAt) => [
+  'Link this wallet to my MediChain patient record.',
+  '',
+  `Patient ID: ${patientId}`,
+  `Wallet: ${ethers.getAddress(address)}`,
+  `Issued At: ${issuedAt}`,
+].join('\n');
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const requireId = (record) => {
+  if (!record || typeof record.id !== 'string' || !record.id) {
+    throw new HttpError(400, 'Record must have a string id');
+  }
+  return record;
+};
+
+// Route table: [method, pattern, handler(params, body), success status]
+const routes = [
+  ['GET', /^\/api\/prescriptions$/, () => store.prescriptions],
+
+  ['GET', /^\/api\/prescriptions\/([^/]+)$/, ([id]) => {
+    const prescription = store.prescriptions.find(p => p.id === id);
+    if (!prescription) throw new HttpError(404, 'Prescription not found');
+    return prescription;
+  }],
+
+  ['POST', /^\/api\/prescriptions$/, (_params, body) => {
+    const prescription = requireId(body);
+    const clash = store.prescriptions.find(p => p.tokenId === prescription.tokenId && p.id !== prescription.id);
+    if (clash) throw new HttpError(409, 'Token already in use');
+    // The same id with another token is a different prescription, not an update
+    if (store.prescriptions.some(p => p.id === prescription.id && p.tokenId !== prescription.tokenId)) {
+      throw new HttpError(409, 'Prescription id already in use');
+    }
+    return upsert(store.prescriptions, prescription);
+  }, 201],
+
+  ['POST', /^\/api\/prescriptions\/([^/]+)\/dispense$/, ([token], body) => {
+    const { prescription, event } = body;
+    requireId(prescription);
+    requireId(event);
+    if (prescription.tokenId !== token || event.tokenId !== token) {
+      throw new HttpError(400, 'Token in path does not match the request body');
+    }
+    const stored = store.prescriptions.find(p => p.id === prescription.id);
+    if (!stored || stored.tokenId !== token) {
+      throw new HttpError(404, 'Prescription not found');
+    }
+    if (store.dispenseEvents.some(e => e.id === event.id)) {
+      throw new HttpError(409, 'Dispense event already recorded');
+    }
+    if (stored.revokedAt || stored.supersededBy || stored.refillsRemaining <= 0) {
+      throw new HttpError(409, 'Prescription can no longer be dispensed');
+    }
+    // Each dispense adds one date, so anything else means the write was based on a stale copy
+    if ((prescription.dispensedDates || []).length !== stored.dispensedDates.length + 1) {
+      throw new HttpError(409, 'Prescription was changed since it was loaded');
+    }
+
+    // Lines are addressed by position, since a medicine can appear on more than one line of a prescription
+    const lines = event.medicines || [];
+    const taken = new Map();
+    for (const line of lines) {
+      const owed = Number.isInteger(line.lineIndex)
+        ? stored.medicines[line.lineIndex]
+        : stored.medicines.find(l => l.medicine.id === line.medicineId);
+      if (!owed || owed.medicine.id !== line.medicineId) {
+        throw new HttpError(400, `Medicine ${line.medicineId} is not part of this prescription`);
+      }
+      if (!(line.quantity > 0) || line.quantity > owed.remainingQuantity) {
+        throw new HttpError(409, `Only ${owed.remainingQuantity} of ${owed.medicine.name} left to dispense`);
+      }
+      const medicine = store.medicines.find(m => m.id === line.medicineId);
+      const inStock = (medicine && medicine.available ? medicine.quantity : 0) - (taken.get(line.medicineId) || 0);
+      if (line.quantity > inStock) {
+        throw new HttpError(409, `Only ${inStock} of ${owed.medicine.name} in stock`);
+      }
+      taken.set(line.medicineId, (taken.get(line.medicineId) || 0) + line.quantity);
+    }
+
+    for (const [medicineId, quantity] of taken) {
+      const medicine = store.medicines.find(m => m.id === medicineId);
+      medicine.quantity -= quantity;
+      medicine.available = medicine.quantity > 0 && medicine.available;
+    }
+    store.dispenseEvents.push(event);
+    return upsert(store.prescriptions, prescription);
+  }],
+
+  ['GET', /^\/api\/medicines$/, () => store.medicines],
+
+  ['PUT', /^\/api\/medicines\/([^/]+)$/, ([id], body) => {
+    const medicine = requireId(body);
+    if (medicine.id !== id) throw new HttpError(400, 'Id in path does not match the request body');
+    return upsert(store.medicines, medicine);
+  }],
+
+  ['GET', /^\/api\/users$/, () => store.users],
+
+  ['POST', /^\/api\/users$/, (_params, body) => {
+    const user = requireId(body);
+    if (store.users.some(u => u.email === user.email && u.id !== user.id)) {
+      throw new HttpError(409, 'User already exists');
+    }
+    return upsert(store.users, user);
+  }, 201],
+
+  ['GET', /^\/api\/patient-wallets$/, () => store.patientWallets],
+
+  ['PUT', /^\/api\/patient-wallets\/([^/]+)$/, ([patientId], body) => {
+    if (!body || body.patientId !== patientId) {
+      throw new HttpError(400, 'Patient id in path does not match the request body');
+    }
+    if (!/^0x[0-9a-fA-F]{40}$/.test(body.address || '') || !body.signature || !body.verifiedAt) {
+      throw new HttpError(400, 'A wallet link needs an address, a signature and the time it was signed');
+    }
+    const patient = store.users.find(u => u.id === patientId && u.role === 'patient');
+    if (!patient) throw new HttpError(404, 'Patient not found');
+    if (body.linkedBy !== patientId) {
+      throw new HttpError(403, 'Only the patient can link a wallet to their record');
+    }
+    // The wallet must have signed the link message for this patient, not just any message
+    let signer;
+    try {
+      signer = ethers.verifyMessage(buildLinkMessage(patientId, body.address, body.verifiedAt), body.signature);
+    } catch {
+      throw new HttpError(400, 'The wallet link signature is malformed');
+    }
+    if (signer.toLowerCase() !== body.address.toLowerCase()) {
+      throw new HttpError(403, 'The signature was not made by this wallet for this patient');
+    }
+    store.patientWallets = store.patientWallets.filter(w => w.patientId !== patientId);
+    store.patientWallets.push(body);
+    return body;
+  }],
+
+  ['GET', /^\/api\/patient-profiles$/, () => store.patientProfiles],
+
+  ['PUT', /^\/api\/patient-profiles\/([^/]+)$/, ([patientId], body) => {
+    if (!body || body.patientId !== patientId) {
+      throw new HttpError(400, 'Patient id in path does not match the request body');
+    }
+    if (!Array.isArray(body.allergies) || !Array.isArray(body.conditions)) {
+      throw new HttpError(400, 'A clinical profile needs allergy and condition lists');
+    }
+    store.patientProfiles = store.patientProfiles.filter(p => p.patientId !== patientId);
+    store.patientProfiles.push(body);
+    return body;
+  }],
+
+  ['GET', /^\/api\/templates$/, () => store.templates],
+
+  ['PUT', /^\/api\/templates\/([^/]+)$/, ([id], body) => {
+    if (!body || body.id !== id) {
+      throw new HttpError(400, 'Template id in path does not match the request body');
+    }
+    if (!Array.isArray(body.versions) || body.versions.length === 0) {
+      throw new HttpError(400, 'A template needs at least one version');
+    }
+    const existing = store.templates.find(t => t.id === id);
+    if (existing) {
+      if (existing.ownerId !== body.ownerId) {
+        throw new HttpError(403, 'Only the owner can change a template');
+      }
+      // Versions are append-only; a shorter history means the save was based on a stale copy
+      if (body.versions.length < existing.versions.length) {
+        throw new HttpError(409, 'Template has a newer version');
+      }
+    }
+    return upsert(store.templates, body);
+  }],
+
+  ['GET', /^\/api\/audit-entries$/, () => store.auditEntries],
+
+  ['POST', /^\/api\/audit-entries$/, (_params, body) => {
+    const { prescriptions = [], entry } = body;
+    requireId(entry);
+    prescriptions.forEach(requireId);
+    if (store.auditEntries.some(e => e.id === entry.id)) {
+      throw new HttpError(409, 'Audit entry already recorded');
+    }
+    const original = store.prescriptions.find(p => p.tokenId === entry.tokenId);
+    if (!original) throw new HttpError(404, 'Prescription not found');
+    if (original.doctorId !== entry.actorId) {
+      throw new HttpError(403, 'Only the issuing doctor can change a prescription');
+    }
+
+    prescriptions.forEach(prescription => upsert(store.prescriptions, prescription));
+    store.auditEntries.push(entry);
+    return entry;
+  }, 201],
+
+  ['POST', /^\/api\/siwe-nonces$/, (_params, body) => {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(body?.address || '')) {
+      throw new HttpError(400, 'A nonce must be issued to a wallet address');
+    }
+    // Drop nonces that can no longer be used
+    store.siweNonces = store.siweNonces.filter(n => new Date(n.expiresAt).getTime() >= Date.now());
+    const issued = {
+      nonce: crypto.randomUUID().replace(/-/g, ''),
+      address: body.address,
+      expiresAt: new Date(Date.now() + SIWE_NONCE_TTL_MS).toISOString(),
+    };
+    store.siweNonces.push(issued);
+    return issued;
+  }, 201],
+
+  ['POST', /^\/api\/siwe-nonces\/([^/]+)\/consume$/, ([nonce], body) => {
+    const issued = store.siweNonces.find(n => n.nonce === nonce);
+    // A nonce is used up by the first attempt, whether or not it succeeds
+    store.siweNonces = store.siweNonces.filter(n => n.nonce !== nonce);
+    if (
+      !issued ||
+      new Date(issued.expiresAt).getTime() < Date.now() ||
+      issued.address.toLowerCase() !== String(body?.address || '').toLowerCase()
+    ) {
+      throw new HttpError(409, 'Sign-in nonce is unknown, expired or already used');
+    }
+    return { nonce, consumed: true };
+  }],
+
+  ['GET', /^\/api\/dispense-events$/, () => store.dispenseEvents],
+
+  ['POST', /^\/api\/dispense-events$/, (_params, body) => {
+    const event = requireId(body);
+    store.dispenseEvents.push(event);
+    return event;
+  }, 201],
+
+  ['PUT', /^\/api\/dispense-events\/([^/]+)$/, ([id], body) => {
+    if (!body || body.id !== id) {
+      throw new HttpError(400, 'Event id in path does not match the request body');
+    }
+    if (!store.dispenseEvents.some(e => e.id === id)) {
+      throw new HttpError(404, 'Dispense event not found');
+    }
+    return upsert(store.dispenseEvents, body);
+  }],
+];
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  try {
+    for (const [method, pattern, handler, status = 200] of routes) {
+      const match = pathname.match(pattern);
+      if (match && req.method === method) {
+        const body = method === 'GET' ? undefined : await readBody(req);
+        const params = match.slice(1).map(decodeURIComponent);
+        const result = handler(params, body);
+        if (method !== 'GET') persist();
+        send(res, status, result);
+        return;
+      }
+    }
+    throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    send(res, status, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`MediChain stand-in API listening on http://localhost:${PORT}/api`);
+});
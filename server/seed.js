@@ -0,0 +1,36 @@
+// Demo data for the stand-in server, read from the seed file the frontend's storage backends use
+import fs from 'node:fs';
+
+const seedData = JSON.parse(
+  fs.readFileSync(new URL('../src/services/storage/seed.json', import.meta.url), 'utf8')
+);
+
+export const seedMedicines = seedData.medicines;
+
+export const seedUsers = seedData.users;
+
+export const seedPatientProfiles = seedData.patientProfiles;
+
+// Shared templates from the demo doctor; the diabetes one uses a medicine that is out of stock
+export const seedTemplates = seedData.templates;
+
+const daysFromNow = (days) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+};
+
+// Prescriptions dated relative to the moment the store is seeded; seed.json lists medicines by id
+export function createSeedPrescriptions() {
+  return seedData.prescriptions.map(prescription => ({
+    ...prescription,
+    medicines: prescription.medicines.map(({ medicineId, ...line }) => ({
+      ...line,
+      medicine: seedMedicines.find(m => m.id === medicineId),
+    })),
+    doseValidity: daysFromNow(prescription.doseValidity),
+    created: daysFromNow(prescription.created),
+    nextValidDose: prescription.nextValidDose === null ? null : daysFromNow(prescription.nextValidDose),
+    dispensedDates: prescription.dispensedDates.map(daysFromNow),
+  }));
+}
@@ -0,0 +1,53 @@
+// Generated by scripts/generate-contract-types.mjs from contract-abi.json. Do not edit by hand;
+// run `npm run contract:generate` after changing the ABI.
+import {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  ConstantContractMethod,
+  Contract,
+  ContractMethod,
+  ContractRunner,
+  ContractTransactionResponse,
+  Interface,
+} from 'ethers';
+import contractAbi from './contract-abi.json';
+
+// Arguments of each contract function
+export interface PrescriptionContractArgs {
+  create_prescription: [token: BytesLike, patient: AddressLike, disease: string, drug: string, quantity: BigNumberish, interval: BigNumberish];
+  dispense: [token: BytesLike];
+  get_prescription: [token: BytesLike];
+}
+
+// Contract functions with their argument and return types
+export interface PrescriptionContractMethods {
+  create_prescription: ContractMethod<PrescriptionContractArgs['create_prescription'], void, ContractTransactionResponse>;
+  dispense: ContractMethod<PrescriptionContractArgs['dispense'], boolean, ContractTransactionResponse>;
+  get_prescription: ConstantContractMethod<PrescriptionContractArgs['get_prescription'], [out0: string, out1: string, out2: string, out3: string, out4: bigint, out5: bigint, out6: bigint, out7: bigint]>;
+}
+
+// Event arguments by event name, as ethers decodes them
+export type PrescriptionContractEvents = Record<never, never>;
+
+// A decoded state-changing call, e.g. from transaction calldata
+export type PrescriptionContractCall =
+  | { name: 'create_prescription'; args: [token: string, patient: string, disease: string, drug: string, quantity: bigint, interval: bigint] }
+  | { name: 'dispense'; args: [token: string] };
+
+export type PrescriptionContract = BaseContract & PrescriptionContractMethods;
+
+export const prescriptionContractInterface = new Interface(contractAbi);
+
+// Bind the contract at `address` to a signer or provider
+export function connectPrescriptionContract(address: string, runner: ContractRunner | null): PrescriptionContract {
+  return new Contract(address, prescriptionContractInterface, runner) as unknown as PrescriptionContract;
+}
+
+// Decode calldata sent to the contract, or null if it isn't a call to one of its state-changing functions
+export function parsePrescriptionCall(data: string, value?: BigNumberish): PrescriptionContractCall | null {
+  const parsed = prescriptionContractInterface.parseTransaction({ data, value });
+  if (!parsed || parsed.fragment.constant) return null;
+  return { name: parsed.name, args: parsed.args.toArray() } as PrescriptionContractCall;
+}
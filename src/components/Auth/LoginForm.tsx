@@ -9,7 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useAuth, UserRole } from '@/contexts/AuthContext';
-import { Lock } from 'lucide-react';
+import { Lock, Wallet } from 'lucide-react';
 import {DrData} from '../../data/DrData'
 
 // Define form schema
@@ -38,7 +38,7 @@ const LoginForm = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [formType, setFormType] = useState<'login' | 'signup'>('login');
   const [licenseError, setLicenseError] = useState<string | null>(null);
-  const { login, signup } = useAuth();
+  const { login, loginWithEthereum, signup } = useAuth();
 
   // Initialize login form
   const loginForm = useForm<LoginFormValues>({
@@ -89,6 +89,31 @@ const LoginForm = () => {
     }
   };
 
+  // Handle Sign-In With Ethereum (only email and role are needed; the wallet signature replaces the password)
+  const onEthereumLogin = async () => {
+    const valid = await loginForm.trigger(['email', 'role']);
+    if (!valid) return;
+
+    const data = loginForm.getValues();
+    setIsLoading(true);
+    setLicenseError(null);
+    try {
+      if (data.role === 'doctor' && data.license) {
+        const doctorExists = DrData.some(doctor => doctor.license === data.license);
+        if (!doctorExists) {
+          setLicenseError("Invalid doctor license. Please check and try again.");
+          return;
+        }
+      }
+
+      await loginWithEthereum(data.email, data.role as UserRole);
+    } catch (error) {
+      console.error('Ethereum login failed:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Handle signup submit
   const onSignupSubmit = async (data: SignupFormValues) => {
     setIsLoading(true);
@@ -231,6 +256,17 @@ const LoginForm = () => {
                 <Button type="submit" className="w-full bg-mediblue-500 hover:bg-mediblue-600" disabled={isLoading}>
                   {isLoading ? 'Logging in...' : 'Login'}
                 </Button>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  disabled={isLoading}
+                  onClick={onEthereumLogin}
+                >
+                  <Wallet className="h-4 w-4 mr-2" />
+                  Sign in with Ethereum
+                </Button>
                 
                 <p className="text-xs text-center text-gray-500 mt-4">
                   Demo credentials available: doctor@example.com, patient@example.com, pharmacist@example.com (password: password123)
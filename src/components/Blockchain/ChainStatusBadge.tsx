@@ -0,0 +1,65 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Prescription } from '@/services/PrescriptionService';
+import { ChainStatus, useChainIndex } from '@/services/ChainIndexer';
+import { useTransactions } from '@/services/TransactionManager';
+
+interface ChainStatusBadgeProps {
+  prescription: Prescription;
+}
+
+const statusLabels: Record<ChainStatus, string> = {
+  'local-only': 'Local only',
+  'not-indexed': 'Not on chain',
+  active: 'Chain: Active',
+  dispensed: 'Chain: Dispensed',
+};
+
+// Chain-confirmed status for a prescription, flagged when it disagrees with local state
+const ChainStatusBadge = ({ prescription }: ChainStatusBadgeProps) => {
+  const { compare, isSyncing } = useChainIndex();
+  const { chainStatus, mismatch } = compare(prescription);
+  const { transactions } = useTransactions();
+  const pending = prescription.contractToken
+    ? transactions.find(tx => tx.status === 'pending' && tx.contractToken === prescription.contractToken)
+    : undefined;
+
+  if (pending) {
+    return (
+      <Badge variant="outline" className="flex items-center gap-1 w-fit text-amber-700 border-amber-300">
+        <Loader2 size={12} className="animate-spin" />
+        Chain: Pending
+      </Badge>
+    );
+  }
+
+  if (chainStatus === 'not-indexed' && isSyncing) {
+    return <Badge variant="outline" className="text-medineutral-500">Indexing...</Badge>;
+  }
+
+  if (mismatch) {
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="destructive" className="flex items-center gap-1 w-fit">
+            <AlertTriangle size={12} />
+            {statusLabels[chainStatus]}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>{mismatch}</TooltipContent>
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={chainStatus === 'local-only' ? 'text-medineutral-500' : 'text-medimint-700 border-medimint-300'}
+    >
+      {statusLabels[chainStatus]}
+    </Badge>
+  );
+};
+
+export default ChainStatusBadge;
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { PenLine, ShieldAlert } from 'lucide-react';
+import { Prescription } from '@/services/PrescriptionService';
+import { RegisteredDoctor, loadDoctorRegistry } from '@/services/prescriptionQr';
+import { SignatureVerification, verifyPrescriptionSignature } from '@/services/prescriptionSignature';
+
+interface DoctorSignatureBadgeProps {
+  prescription: Prescription;
+}
+
+const statusLabels: Record<SignatureVerification['status'], string> = {
+  valid: 'Doctor signed',
+  unsigned: 'Unsigned',
+  tampered: 'Signature invalid',
+  'wrong-doctor': 'Unknown signer',
+};
+
+// Shared across badges so a list of prescriptions loads the registry once
+let registryRequest: Promise<RegisteredDoctor[]> | null = null;
+
+// Whether the prescription carries a valid EIP-712 signature from the issuing doctor
+const DoctorSignatureBadge = ({ prescription }: DoctorSignatureBadgeProps) => {
+  const [doctors, setDoctors] = useState<RegisteredDoctor[] | null>(null);
+
+  useEffect(() => {
+    registryRequest ??= loadDoctorRegistry();
+    registryRequest.then(setDoctors);
+  }, []);
+
+  if (!doctors) {
+    return null;
+  }
+
+  const { status, detail } = verifyPrescriptionSignature(prescription, doctors);
+  const failed = status === 'tampered' || status === 'wrong-doctor';
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant={failed ? 'destructive' : 'outline'}
+          className={`flex items-center gap-1 w-fit ${
+            status === 'valid' ? 'text-medimint-700 border-medimint-300' : status === 'unsigned' ? 'text-medineutral-500' : ''
+          }`}
+        >
+          {failed ? <ShieldAlert size={12} /> : <PenLine size={12} />}
+          {statusLabels[status]}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>{detail}</TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default DoctorSignatureBadge;
@@ -0,0 +1,79 @@
+import { ethers } from 'ethers';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Fuel } from 'lucide-react';
+import { useFeePreview } from '@/services/TransactionPreflight';
+
+// Fee per gas in gwei, trimmed for display
+const formatGwei = (wei: bigint) => `${Number(ethers.formatUnits(wei, 'gwei')).toLocaleString(undefined, { maximumFractionDigits: 4 })} gwei`;
+
+// Native currency amount, trimmed for display
+const formatAmount = (wei: bigint, symbol: string) =>
+  `${Number(ethers.formatEther(wei)).toLocaleString(undefined, { maximumFractionDigits: 8 })} ${symbol}`;
+
+// Confirmation dialog with the gas estimate and fees of a contract write, shown before the wallet prompt
+const FeePreviewDialog = () => {
+  const { pending, confirm, cancel } = useFeePreview();
+
+  return (
+    <AlertDialog open={!!pending} onOpenChange={(open) => !open && cancel()}>
+      {pending && (
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center">
+              <Fuel className="h-5 w-5 mr-2" />
+              {pending.description}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The transaction was simulated on {pending.networkName} and is expected to succeed.
+              Your wallet will ask you to sign it next.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-medineutral-500">Gas limit</dt>
+            <dd className="text-right font-mono">{pending.gasLimit.toLocaleString()}</dd>
+            {pending.baseFeePerGas !== null && pending.maxFeePerGas !== null ? (
+              <>
+                <dt className="text-medineutral-500">Base fee</dt>
+                <dd className="text-right font-mono">{formatGwei(pending.baseFeePerGas)}</dd>
+                <dt className="text-medineutral-500">Priority fee</dt>
+                <dd className="text-right font-mono">{formatGwei(pending.maxPriorityFeePerGas ?? 0n)}</dd>
+                <dt className="text-medineutral-500">Max fee</dt>
+                <dd className="text-right font-mono">{formatGwei(pending.maxFeePerGas)}</dd>
+              </>
+            ) : (
+              <>
+                <dt className="text-medineutral-500">Gas price</dt>
+                <dd className="text-right font-mono">{formatGwei(pending.gasPrice ?? 0n)}</dd>
+              </>
+            )}
+            <dt className="font-medium pt-2 border-t">Estimated cost</dt>
+            <dd className="text-right font-mono font-medium pt-2 border-t">
+              {formatAmount(pending.estimatedCost, pending.currencySymbol)}
+            </dd>
+            <dt className="text-medineutral-500">Maximum cost</dt>
+            <dd className="text-right font-mono text-medineutral-500">
+              {formatAmount(pending.maxCost, pending.currencySymbol)}
+            </dd>
+          </dl>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={cancel}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirm}>Continue to wallet</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      )}
+    </AlertDialog>
+  );
+};
+
+export default FeePreviewDialog;
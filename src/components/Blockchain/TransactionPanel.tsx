@@ -0,0 +1,99 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Bell, ExternalLink, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  CONFIRMATION_TARGET,
+  TrackedTransaction,
+  TransactionStatus,
+  useTransactions,
+} from '@/services/TransactionManager';
+import { getExplorerTxUrl, getNetworkByChainId } from '@/services/networks';
+
+const statusStyles: Record<TransactionStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  confirmed: 'bg-medimint-100 text-medimint-800',
+  failed: 'bg-red-100 text-red-800',
+  replaced: 'bg-medineutral-200 text-medineutral-700',
+};
+
+// One transaction with its status, confirmations and explorer link
+const TransactionRow = ({ tx }: { tx: TrackedTransaction }) => {
+  const network = getNetworkByChainId(tx.chainId);
+  const explorerUrl = network ? getExplorerTxUrl(network, tx.hash) : null;
+
+  return (
+    <li className="py-2 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{tx.description}</span>
+        <span className={`flex items-center text-xs px-2 py-0.5 rounded ${statusStyles[tx.status]}`}>
+          {tx.status === 'pending' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {tx.status.charAt(0).toUpperCase() + tx.status.slice(1)}
+        </span>
+      </div>
+      <div className="flex items-center justify-between text-xs text-medineutral-500">
+        <span className="font-mono">
+          {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)}
+          {explorerUrl && (
+            <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="inline-flex ml-1 align-middle">
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </span>
+        <span>{formatDistanceToNow(tx.submittedAt, { addSuffix: true })}</span>
+      </div>
+      {tx.status === 'confirmed' && tx.confirmations < CONFIRMATION_TARGET && (
+        <p className="text-xs text-medineutral-500">
+          {tx.confirmations}/{CONFIRMATION_TARGET} confirmations
+        </p>
+      )}
+      {tx.id !== tx.hash && (
+        <p className="text-xs text-medineutral-500">Sped up from {tx.id.slice(0, 10)}...</p>
+      )}
+      {tx.error && <p className="text-xs text-red-700">{tx.error}</p>}
+    </li>
+  );
+};
+
+// Header button listing recent blockchain transactions and their status
+const TransactionPanel = () => {
+  const { transactions, pendingCount, clearFinished } = useTransactions();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label="Blockchain transactions">
+          <Bell className="h-4 w-4" />
+          {pendingCount > 0 && (
+            <Badge className="absolute -top-2 -right-2 h-5 min-w-5 px-1 justify-center bg-amber-500">
+              {pendingCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-medium text-sm">Transactions</h3>
+          {transactions.length > pendingCount && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearFinished}>
+              Clear finished
+            </Button>
+          )}
+        </div>
+        {transactions.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-medineutral-500">No blockchain transactions yet</p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            <ul className="px-4 divide-y">
+              {transactions.map(tx => <TransactionRow key={tx.id} tx={tx} />)}
+            </ul>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TransactionPanel;
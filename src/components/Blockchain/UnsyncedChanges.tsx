@@ -0,0 +1,96 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { CloudOff, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWeb3 } from '@/services/Web3Service';
+import { OutboxItem, useOutbox } from '@/services/ChainOutbox';
+
+// When and by whom a queued write will be sent next
+const describeNextAttempt = (item: OutboxItem, userId: string | undefined, canSubmit: boolean) => {
+  if (item.status === 'submitting') return 'Sending now';
+  if (item.actorId !== userId) return `Waiting for ${item.actorName} to connect their wallet`;
+  if (!canSubmit) return 'Waiting for your wallet to connect';
+  if (item.manualRetry) return 'Waiting for you to retry';
+  return item.nextAttemptAt.getTime() <= Date.now()
+    ? 'Due now'
+    : `Next retry ${formatDistanceToNow(item.nextAttemptAt, { addSuffix: true })}`;
+};
+
+// Header button with the chain writes that are still waiting to be recorded
+const UnsyncedChanges = () => {
+  const { user } = useAuth();
+  const { isConnected, isWrongNetwork } = useWeb3();
+  const { items, isFlushing, retryNow, discard } = useOutbox();
+  const canSubmit = isConnected && !isWrongNetwork;
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="text-amber-700 border-amber-300">
+          <CloudOff className="h-4 w-4 mr-2" />
+          {items.length} unsynced
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Unsynced blockchain changes</SheetTitle>
+          <SheetDescription>
+            These changes are saved locally but not yet on the blockchain. They are retried automatically
+            whenever the wallet that made them is connected.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex justify-end my-4">
+          <Button size="sm" variant="outline" disabled={!canSubmit || isFlushing} onClick={retryNow}>
+            {isFlushing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Retry now
+          </Button>
+        </div>
+
+        <ul className="space-y-3">
+          {items.map(item => (
+            <li key={item.id} className="rounded-md border border-medineutral-200 p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">{item.description}</span>
+                <Badge variant="outline" className="font-mono">{item.tokenId}</Badge>
+              </div>
+              <p className="text-xs text-medineutral-500">
+                Queued {formatDistanceToNow(item.queuedAt, { addSuffix: true })} by {item.actorName}
+                {item.attempts > 0 && ` · ${item.attempts} failed attempt${item.attempts === 1 ? '' : 's'}`}
+              </p>
+              <p className="text-xs text-medineutral-600">{describeNextAttempt(item, user?.id, canSubmit)}</p>
+              {item.lastError && <p className="text-xs text-red-700">{item.lastError}</p>}
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs text-destructive"
+                  disabled={item.status === 'submitting'}
+                  onClick={() => discard(item.id)}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Keep local only
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default UnsyncedChanges;
@@ -0,0 +1,46 @@
+import type { ReactNode } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ShieldAlert } from 'lucide-react';
+import type { ContraindicationFlag } from '@/services/contraindicationChecker';
+
+interface ContraindicationFlagsProps {
+  flags: ContraindicationFlag[];
+  // Heading shown above the list, e.g. naming the patient
+  title?: string;
+  children?: ReactNode;
+}
+
+// Allergy and contraindication flags for prescribed medicines, shown to doctors and pharmacists
+const ContraindicationFlags = ({ flags, title, children }: ContraindicationFlagsProps) => {
+  if (flags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-3">
+      <h4 className="text-sm font-medium flex items-center text-red-800">
+        <ShieldAlert className="h-4 w-4 mr-2" />
+        {title ?? `${flags.length} allergy or contraindication flag${flags.length === 1 ? '' : 's'}`}
+      </h4>
+
+      <ul className="space-y-2">
+        {flags.map(flag => (
+          <li key={flag.id} className="text-sm bg-white rounded border p-2 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className={flag.severity === 'absolute' ? 'bg-red-600' : 'bg-amber-500'}>
+                {flag.kind === 'allergy' ? 'allergy' : flag.severity === 'absolute' ? 'contraindicated' : 'caution'}
+              </Badge>
+              <span className="font-medium">{flag.medicineName}</span>
+              <span className="text-medineutral-600">· {flag.match}</span>
+            </div>
+            <p className="text-medineutral-700">{flag.reason}</p>
+          </li>
+        ))}
+      </ul>
+
+      {children}
+    </div>
+  );
+};
+
+export default ContraindicationFlags;
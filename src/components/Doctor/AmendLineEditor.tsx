@@ -0,0 +1,93 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DEFAULT_SIG,
+  DosageSig,
+  computeSigQuantity,
+  describeQuantityMismatch,
+  validateSig,
+} from '@/services/dosageSig';
+import { DosingPatient, assessDose } from '@/services/doseCalculator';
+import type { PrescriptionLine } from '@/services/PrescriptionService';
+import SigBuilder from './SigBuilder';
+import DoseCalculator from './DoseCalculator';
+
+// Editable copy of a medicine line in the amend dialog
+export interface AmendLine {
+  // Null for instructions typed by hand before the sig builder existed; they are kept as they are
+  sig: DosageSig | null;
+  quantity: number;
+  // Once the doctor types a quantity it no longer follows the sig
+  quantityEdited: boolean;
+  // Required while the dose is outside the dosing rules for the patient
+  doseOverrideReason: string;
+}
+
+interface AmendLineEditorProps {
+  line: PrescriptionLine;
+  value: AmendLine;
+  onChange: (value: AmendLine) => void;
+  patient: DosingPatient;
+}
+
+// Sig builder and quantity for one medicine line of an amendment
+const AmendLineEditor = ({ line, value, onChange, patient }: AmendLineEditorProps) => {
+  // Update the sig and, unless overridden, the quantity it needs
+  const handleSigChange = (sig: DosageSig) => {
+    const follows = !value.quantityEdited && validateSig(sig).length === 0;
+    onChange({ ...value, sig, quantity: follows ? computeSigQuantity(sig) : value.quantity });
+  };
+
+  const quantityMismatch = value.sig && validateSig(value.sig).length === 0
+    ? describeQuantityMismatch(value.sig, value.quantity)
+    : null;
+  const doseAssessment = value.sig ? assessDose(line.medicine.id, value.sig, patient) : null;
+
+  return (
+    <div className="rounded-md border border-medineutral-200 p-3 space-y-3">
+      <div className="flex items-end justify-between gap-4">
+        <span className="text-sm font-medium">{line.medicine.name}</span>
+        <div className="w-28 space-y-1">
+          <label className="text-sm font-medium">Quantity</label>
+          <Input
+            type="number"
+            min={1}
+            value={value.quantity}
+            onChange={(e) => onChange({ ...value, quantity: parseInt(e.target.value) || 0, quantityEdited: true })}
+          />
+        </div>
+      </div>
+      {quantityMismatch && <p className="text-xs text-amber-700">{quantityMismatch}</p>}
+
+      {value.sig ? (
+        <>
+          <SigBuilder sig={value.sig} onChange={handleSigChange} />
+          {doseAssessment && (
+            <DoseCalculator
+              assessment={doseAssessment}
+              overrideReason={value.doseOverrideReason}
+              onOverrideReasonChange={(doseOverrideReason) => onChange({ ...value, doseOverrideReason })}
+              onApplySuggestion={(units) =>
+                handleSigChange({ ...value.sig!, doseAmount: units, doseUnit: doseAssessment.rule.unit })
+              }
+            />
+          )}
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-medineutral-600">{line.dosage}</span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, sig: DEFAULT_SIG, quantityEdited: false, quantity: computeSigQuantity(DEFAULT_SIG) })}
+          >
+            Change dosage
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AmendLineEditor;
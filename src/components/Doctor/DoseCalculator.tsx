@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Calculator } from 'lucide-react';
+import { DOSE_UNITS } from '@/services/dosageSig';
+import { DoseAssessment, formatMg } from '@/services/doseCalculator';
+
+interface DoseCalculatorProps {
+  assessment: DoseAssessment;
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+  // Use the suggested number of units per dose
+  onApplySuggestion: (units: number) => void;
+}
+
+// Dose range for the patient's age and weight, with a suggested dose and any out-of-range problems
+const DoseCalculator = ({ assessment, overrideReason, onOverrideReasonChange, onApplySuggestion }: DoseCalculatorProps) => {
+  const { rule, band, singleRangeMg, maxDailyMg, suggestedUnits, issues, notes } = assessment;
+  const [singular, plural] = DOSE_UNITS[rule.unit];
+
+  return (
+    <div
+      className={`rounded-md border p-3 space-y-2 text-sm ${
+        issues.length > 0 ? 'border-red-200 bg-red-50' : 'border-medineutral-200 bg-white'
+      }`}
+    >
+      <h4 className="font-medium flex items-center">
+        <Calculator className="h-4 w-4 mr-2 text-mediblue-600" />
+        Dose check{band && ` · ${band.label}`}
+      </h4>
+
+      {singleRangeMg && (
+        <p className="text-medineutral-700">
+          Single dose {formatMg(singleRangeMg[0])}–{formatMg(singleRangeMg[1])}
+          {maxDailyMg !== null && `, at most ${formatMg(maxDailyMg)} per day`}
+        </p>
+      )}
+
+      {suggestedUnits !== null && (
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            Suggested: {suggestedUnits} {suggestedUnits === 1 ? singular : plural} ({formatMg(suggestedUnits * rule.mgPerUnit)}) per dose
+          </span>
+          <Button type="button" variant="outline" size="sm" onClick={() => onApplySuggestion(suggestedUnits)}>
+            Use
+          </Button>
+        </div>
+      )}
+
+      {notes.map(note => (
+        <p key={note} className="text-xs text-medineutral-500">{note}</p>
+      ))}
+
+      {issues.length > 0 && (
+        <div className="space-y-2">
+          <ul className="list-disc pl-4 text-red-700">
+            {issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-red-700">Override reason (required to add this dose)</label>
+            <Textarea
+              placeholder="Why this dose is appropriate for the patient"
+              value={overrideReason}
+              onChange={(e) => onOverrideReasonChange(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DoseCalculator;
@@ -0,0 +1,70 @@
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle } from 'lucide-react';
+import { InteractionWarning, hasMajorInteraction } from '@/services/interactionChecker';
+import type { InteractionSeverity } from '@/data/drugInteractions';
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+}
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  major: 'bg-red-600',
+  moderate: 'bg-amber-500',
+  minor: 'bg-medineutral-400',
+};
+
+// Interaction and duplicate-therapy warnings for the medicines being prescribed
+const InteractionWarnings = ({ warnings, overrideReason, onOverrideReasonChange }: InteractionWarningsProps) => {
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  const needsOverride = hasMajorInteraction(warnings);
+
+  return (
+    <div className="mt-4 rounded-md border border-amber-200 bg-amber-50 p-3 space-y-3">
+      <h4 className="text-sm font-medium flex items-center text-amber-800">
+        <AlertTriangle className="h-4 w-4 mr-2" />
+        {warnings.length} interaction warning{warnings.length === 1 ? '' : 's'}
+      </h4>
+
+      <ul className="space-y-2">
+        {warnings.map(warning => (
+          <li key={warning.id} className="text-sm bg-white rounded border p-2 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className={SEVERITY_STYLES[warning.severity]}>
+                {warning.kind === 'interaction' ? warning.severity : 'duplicate therapy'}
+              </Badge>
+              <span className="font-medium">
+                {warning.medicineNames[0]} + {warning.medicineNames[1]}
+              </span>
+              {warning.otherTokenId && (
+                <span className="text-xs text-medineutral-500">
+                  active on <span className="font-mono">{warning.otherTokenId}</span>
+                </span>
+              )}
+            </div>
+            <p className="text-medineutral-700">{warning.effect}</p>
+            <p className="text-xs text-medineutral-500">{warning.advice}</p>
+          </li>
+        ))}
+      </ul>
+
+      {needsOverride && (
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-red-700">Override reason (required for major interactions)</label>
+          <Textarea
+            placeholder="Why the benefit outweighs the risk, and how the patient will be monitored"
+            value={overrideReason}
+            onChange={(e) => onOverrideReasonChange(e.target.value)}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InteractionWarnings;
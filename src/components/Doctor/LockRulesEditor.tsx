@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Calendar as CalendarIcon, Lock, Minus, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { LockRule } from '@/services/PrescriptionService';
+import { describeLock } from '@/services/prescriptionLifecycle';
+
+interface LockRulesEditorProps {
+  locks: LockRule[];
+  onChange: (locks: LockRule[]) => void;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const LockRulesEditor = ({ locks, onChange }: LockRulesEditorProps) => {
+  const [kind, setKind] = useState<LockRule['kind']>('range');
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+  const [cooldownDays, setCooldownDays] = useState(3);
+  const [reason, setReason] = useState('');
+
+  // Build a rule from the current inputs and append it
+  const handleAddLock = () => {
+    let lock: LockRule;
+    if (kind === 'range') {
+      if (!range?.from) {
+        toast.error('Please pick the dates to lock');
+        return;
+      }
+      lock = { kind, start: range.from, end: range.to ?? range.from, reason: reason.trim() };
+    } else if (kind === 'weekdays') {
+      if (weekdays.length === 0) {
+        toast.error('Please pick at least one weekday');
+        return;
+      }
+      lock = { kind, days: weekdays.map(Number), reason: reason.trim() };
+    } else {
+      if (cooldownDays < 1) {
+        toast.error('The lock must last at least one day');
+        return;
+      }
+      lock = { kind, days: cooldownDays, reason: reason.trim() };
+    }
+
+    onChange([...locks, lock]);
+    setRange(undefined);
+    setWeekdays([]);
+    setReason('');
+  };
+
+  // Remove a rule by position
+  const handleRemoveLock = (index: number) => {
+    onChange(locks.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="bg-medineutral-50 p-4 rounded-md border border-medineutral-200">
+      <div className="flex items-center mb-3">
+        <Lock size={16} className="mr-2 text-medineutral-600" />
+        <h3 className="text-sm font-medium">Prescription Locks (Optional)</h3>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 mb-3">
+        <Select value={kind} onValueChange={(value) => setKind(value as LockRule['kind'])}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="range">Date range</SelectItem>
+            <SelectItem value="weekdays">Recurring weekdays</SelectItem>
+            <SelectItem value="after-dispense">Days after each dispense</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {kind === 'range' && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" className="justify-start font-normal">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {range?.from ? (
+                  range.to && range.to.getTime() !== range.from.getTime()
+                    ? `${format(range.from, 'MMM d')} – ${format(range.to, 'MMM d, yyyy')}`
+                    : format(range.from, 'PPP')
+                ) : (
+                  <span>Pick dates</span>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+
+        {kind === 'weekdays' && (
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            value={weekdays}
+            onValueChange={setWeekdays}
+            className="justify-start flex-wrap"
+          >
+            {WEEKDAYS.map(day => (
+              <ToggleGroupItem key={day.value} value={String(day.value)}>
+                {day.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        )}
+
+        {kind === 'after-dispense' && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={cooldownDays}
+              onChange={(e) => setCooldownDays(parseInt(e.target.value) || 0)}
+              className="w-24"
+            />
+            <span className="text-sm text-medineutral-600">day(s) after the last dispense</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 mb-3">
+        <Input
+          placeholder="Reason shown to the pharmacist (e.g. surgery window)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <Button type="button" onClick={handleAddLock} size="icon">
+          <Plus size={18} />
+        </Button>
+      </div>
+
+      {/* Added lock rules */}
+      {locks.length > 0 && (
+        <div className="mt-2 space-y-2">
+          <h4 className="text-sm font-medium">Locks:</h4>
+          {locks.map((lock, index) => (
+            <div
+              key={index}
+              className="flex justify-between items-center bg-white p-2 rounded border"
+            >
+              <div className="text-sm">
+                <span className="font-medium">{describeLock(lock)}</span>
+                {lock.reason && <span className="text-medineutral-500"> — {lock.reason}</span>}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveLock(index)}
+              >
+                <Minus size={16} className="text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-medineutral-500">
+        Locks prevent the prescription from being dispensed on the covered days.
+      </p>
+    </div>
+  );
+};
+
+export default LockRulesEditor;
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Check, ChevronsUpDown, Wallet, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Patient, PatientService } from '@/services/PatientService';
+
+interface PatientPickerProps {
+  value: string;
+  onSelect: (patient: Patient) => void;
+}
+
+// Format wallet address for display
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Searchable patient selector showing each patient's wallet link status
+const PatientPicker = ({ value, onSelect }: PatientPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [patients, setPatients] = useState<Patient[]>([]);
+
+  useEffect(() => {
+    const loadPatients = async () => {
+      try {
+        const data = await PatientService.getPatients();
+        setPatients(data);
+      } catch (error) {
+        console.error('Failed to load patients:', error);
+      }
+    };
+
+    loadPatients();
+  }, []);
+
+  const selected = patients.find(p => p.id === value);
+
+  return (
+    <div className="space-y-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between font-normal", !selected && "text-muted-foreground")}
+          >
+            {selected ? selected.name : 'Search patients...'}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search by name or email" />
+            <CommandList>
+              <CommandEmpty>No patients found.</CommandEmpty>
+              <CommandGroup>
+                {patients.map(patient => (
+                  <CommandItem
+                    key={patient.id}
+                    value={`${patient.name} ${patient.email}`}
+                    onSelect={() => {
+                      onSelect(patient);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value === patient.id ? "opacity-100" : "opacity-0")} />
+                    <div className="flex-1">
+                      <div>{patient.name}</div>
+                      <div className="text-xs text-medineutral-500">{patient.email}</div>
+                    </div>
+                    {patient.walletAddress ? (
+                      <Wallet className="h-4 w-4 text-medimint-600" />
+                    ) : (
+                      <AlertCircle className="h-4 w-4 text-amber-500" />
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected && (
+        selected.walletAddress ? (
+          <p className="text-xs text-medimint-700 flex items-center">
+            <Wallet className="h-3 w-3 mr-1" />
+            Verified wallet {formatAddress(selected.walletAddress)}
+          </p>
+        ) : (
+          <p className="text-xs text-amber-700 flex items-center">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            No linked wallet. This prescription can't be recorded on the blockchain.
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default PatientPicker;
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { HeartPulse, PencilLine } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { PatientService } from '@/services/PatientService';
+import type { PatientProfile, PregnancyStatus } from '@/services/storage';
+import { ALLERGY_CLASSES, CLINICAL_CONDITIONS } from '@/data/contraindications';
+
+interface PatientProfileCardProps {
+  patientName: string;
+  profile: PatientProfile;
+  onSaved: (profile: PatientProfile) => void;
+}
+
+const PREGNANCY_LABELS: Record<PregnancyStatus, string> = {
+  unknown: 'Unknown',
+  'not-pregnant': 'Not pregnant',
+  pregnant: 'Pregnant',
+  breastfeeding: 'Breastfeeding',
+};
+
+// Add or remove an id from a list of checked options
+const toggle = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter(existing => existing !== id);
+
+// Summary of the selected patient's clinical profile, with a dialog to edit it
+const PatientProfileCard = ({ patientName, profile, onSaved }: PatientProfileCardProps) => {
+  const { user } = useAuth();
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [allergies, setAllergies] = useState<string[]>([]);
+  const [conditions, setConditions] = useState<string[]>([]);
+  const [pregnancy, setPregnancy] = useState<PregnancyStatus>('unknown');
+  const [weightKg, setWeightKg] = useState('');
+
+  const allergyLabels = ALLERGY_CLASSES.filter(a => profile.allergies.includes(a.id)).map(a => a.label);
+  const conditionLabels = CLINICAL_CONDITIONS.filter(c => profile.conditions.includes(c.id)).map(c => c.label);
+  const isRecorded = profile.updatedAt.getTime() > 0;
+
+  // Open the dialog with the stored values
+  const handleEdit = () => {
+    setAllergies(profile.allergies);
+    setConditions(profile.conditions);
+    setPregnancy(profile.pregnancy);
+    setWeightKg(profile.weightKg === null ? '' : String(profile.weightKg));
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const weight = parseFloat(weightKg);
+      const saved = await PatientService.savePatientProfile(
+        {
+          patientId: profile.patientId,
+          allergies,
+          conditions,
+          pregnancy,
+          weightKg: Number.isFinite(weight) && weight > 0 ? weight : null,
+        },
+        user?.name ?? 'Unknown'
+      );
+      onSaved(saved);
+      setEditing(false);
+    } catch (error) {
+      console.error('Failed to save clinical profile:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-medineutral-200 p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium flex items-center">
+          <HeartPulse className="h-4 w-4 mr-2 text-mediblue-600" />
+          Clinical profile
+        </h3>
+        <Button type="button" variant="ghost" size="sm" onClick={handleEdit}>
+          <PencilLine className="h-4 w-4 mr-1" />
+          Edit
+        </Button>
+      </div>
+
+      {isRecorded ? (
+        <div className="grid gap-2 sm:grid-cols-2 text-sm">
+          <div>
+            <span className="text-medineutral-500">Allergies: </span>
+            {allergyLabels.length > 0
+              ? allergyLabels.map(label => <Badge key={label} variant="destructive" className="mr-1">{label}</Badge>)
+              : 'None known'}
+          </div>
+          <div>
+            <span className="text-medineutral-500">Conditions: </span>
+            {conditionLabels.length > 0 ? conditionLabels.join(', ') : 'None recorded'}
+          </div>
+          <div>
+            <span className="text-medineutral-500">Pregnancy: </span>
+            {PREGNANCY_LABELS[profile.pregnancy]}
+          </div>
+          <div>
+            <span className="text-medineutral-500">Weight: </span>
+            {profile.weightKg === null ? 'Not recorded' : `${profile.weightKg} kg`}
+          </div>
+          <p className="sm:col-span-2 text-xs text-medineutral-500">
+            Updated {format(profile.updatedAt, 'PPP')} by {profile.updatedBy}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-medineutral-500">
+          No clinical profile recorded. Add allergies and conditions so medicines can be checked against them.
+        </p>
+      )}
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Clinical profile for {patientName}</DialogTitle>
+            <DialogDescription>
+              Prescribed medicines are checked against these details when prescribing and dispensing.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Allergies</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {ALLERGY_CLASSES.map(allergy => (
+                  <label key={allergy.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={allergies.includes(allergy.id)}
+                      onCheckedChange={(checked) => setAllergies(toggle(allergies, allergy.id, checked === true))}
+                    />
+                    {allergy.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Conditions</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {CLINICAL_CONDITIONS.map(condition => (
+                  <label key={condition.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={conditions.includes(condition.id)}
+                      onCheckedChange={(checked) => setConditions(toggle(conditions, condition.id, checked === true))}
+                    />
+                    {condition.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Pregnancy</Label>
+                <Select value={pregnancy} onValueChange={(value) => setPregnancy(value as PregnancyStatus)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PREGNANCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-weight">Weight (kg)</Label>
+                <Input
+                  id="profile-weight"
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={weightKg}
+                  onChange={(e) => setWeightKg(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setEditing(false)}>Cancel</Button>
+            <Button type="button" disabled={saving} onClick={handleSave}>
+              {saving ? 'Saving...' : 'Save Profile'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PatientProfileCard;
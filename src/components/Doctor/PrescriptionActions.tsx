@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MoreHorizontal, Ban, PencilLine } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { Prescription, PrescriptionLine, PrescriptionService } from '@/services/PrescriptionService';
+import { deriveStatus } from '@/services/prescriptionLifecycle';
+import { computeSigQuantity, formatSig, validateSig } from '@/services/dosageSig';
+import { assessDose } from '@/services/doseCalculator';
+import { PatientService } from '@/services/PatientService';
+import AmendLineEditor, { AmendLine } from './AmendLineEditor';
+
+interface PrescriptionActionsProps {
+  prescription: Prescription;
+  onChanged: () => void;
+}
+
+// Start editing a stored line, keeping a quantity the doctor had set by hand
+const toAmendLine = (line: PrescriptionLine): AmendLine => ({
+  sig: line.sig ?? null,
+  quantity: line.quantity,
+  quantityEdited: !line.sig || line.quantity !== computeSigQuantity(line.sig),
+  doseOverrideReason: line.doseOverrideReason ?? '',
+});
+
+const PrescriptionActions = ({ prescription, onChanged }: PrescriptionActionsProps) => {
+  const { user } = useAuth();
+  const [dialog, setDialog] = useState<'revoke' | 'amend' | null>(null);
+  const [reason, setReason] = useState('');
+  const [disease, setDisease] = useState(prescription.disease);
+  const [validUntil, setValidUntil] = useState(format(prescription.doseValidity, 'yyyy-MM-dd'));
+  const [refills, setRefills] = useState(prescription.refills);
+  const [lines, setLines] = useState<AmendLine[]>([]);
+  // Patient's recorded weight, for weight-based dose checks
+  const [weightKg, setWeightKg] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Only the issuing doctor can change a prescription that is still open
+  const status = deriveStatus(prescription);
+  if (user?.id !== prescription.doctorId || ['dispensed', 'expired', 'revoked', 'superseded'].includes(status)) {
+    return null;
+  }
+
+  const openDialog = (kind: 'revoke' | 'amend') => {
+    setReason('');
+    setDisease(prescription.disease);
+    setValidUntil(format(prescription.doseValidity, 'yyyy-MM-dd'));
+    setRefills(prescription.refills);
+    setLines(prescription.medicines.map(toAmendLine));
+    setDialog(kind);
+    if (kind === 'amend') {
+      PatientService.getPatientProfile(prescription.patientId)
+        .then(profile => setWeightKg(profile.weightKg))
+        .catch(error => console.error('Failed to load clinical profile:', error));
+    }
+  };
+
+  const dosingPatient = { ageYears: prescription.patientAge, weightKg };
+
+  // Problems with each line's dose for the patient; empty for lines within range or typed by hand
+  const getDoseIssues = (index: number) => {
+    const sig = lines[index]?.sig;
+    return sig ? assessDose(prescription.medicines[index].medicine.id, sig, dosingPatient)?.issues ?? [] : [];
+  };
+
+  const updateLine = (index: number, value: AmendLine) => {
+    setLines(lines.map((line, i) => (i === index ? value : line)));
+  };
+
+  const handleRevoke = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      await PrescriptionService.revokePrescription(prescription.tokenId, user, reason.trim());
+      setDialog(null);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to revoke prescription:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAmend = async () => {
+    if (!user) return;
+    if (lines.some(line => line.quantity < 1)) {
+      toast.error('Every medicine needs a quantity');
+      return;
+    }
+    const sigError = lines.flatMap(line => (line.sig ? validateSig(line.sig) : []))[0];
+    if (sigError) {
+      toast.error(sigError);
+      return;
+    }
+    const unjustified = prescription.medicines.findIndex(
+      (_line, i) => getDoseIssues(i).length > 0 && !lines[i].doseOverrideReason.trim()
+    );
+    if (unjustified !== -1) {
+      toast.error(`${prescription.medicines[unjustified].medicine.name}: ${getDoseIssues(unjustified)[0]}`, {
+        description: 'Adjust the dose or document a reason to override',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await PrescriptionService.amendPrescription(
+        prescription.tokenId,
+        user,
+        {
+          disease: disease.trim(),
+          doseValidity: new Date(`${validUntil}T23:59:59`),
+          refills,
+          medicines: prescription.medicines.map((line, i) => {
+            const { sig, quantity, doseOverrideReason } = lines[i];
+            return {
+              medicine: line.medicine,
+              quantity,
+              dosage: sig ? formatSig(sig) : line.dosage,
+              sig: sig ?? undefined,
+              // Hand-typed lines can't be dose-checked, so they keep the reason they were issued with
+              doseOverrideReason: !sig
+                ? line.doseOverrideReason
+                : getDoseIssues(i).length > 0 ? doseOverrideReason.trim() : undefined,
+            };
+          }),
+        },
+        reason.trim()
+      );
+      setDialog(null);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to amend prescription:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Prescription actions">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => openDialog('amend')}>
+            <PencilLine className="h-4 w-4 mr-2" />
+            Amend
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openDialog('revoke')} className="text-destructive">
+            <Ban className="h-4 w-4 mr-2" />
+            Revoke
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialog === 'revoke'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke {prescription.tokenId}</DialogTitle>
+            <DialogDescription>
+              Pharmacists will no longer be able to dispense this prescription. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="revoke-reason">Reason</Label>
+            <Textarea
+              id="revoke-reason"
+              placeholder="e.g. Prescribed in error"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button variant="destructive" disabled={!reason.trim() || saving} onClick={handleRevoke}>
+              {saving ? 'Revoking...' : 'Revoke Prescription'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'amend'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Amend {prescription.tokenId}</DialogTitle>
+            <DialogDescription>
+              A new prescription token is issued and this one is marked as superseded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="amend-disease">Disease/Condition</Label>
+              <Input id="amend-disease" value={disease} onChange={(e) => setDisease(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Medicines</Label>
+              {prescription.medicines.map((line, index) => (
+                <AmendLineEditor
+                  key={line.medicine.id}
+                  line={line}
+                  value={lines[index] ?? toAmendLine(line)}
+                  onChange={(value) => updateLine(index, value)}
+                  patient={dosingPatient}
+                />
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="amend-validity">Valid Until</Label>
+                <Input
+                  id="amend-validity"
+                  type="date"
+                  value={validUntil}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amend-refills">Number of Fills</Label>
+                <Input
+                  id="amend-refills"
+                  type="number"
+                  min={1}
+                  max={12}
+                  disabled={prescription.doseInterval === 'one-time'}
+                  value={refills}
+                  onChange={(e) => setRefills(Math.max(1, Math.min(12, parseInt(e.target.value) || 1)))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="amend-reason">Reason for amendment</Label>
+              <Textarea
+                id="amend-reason"
+                placeholder="e.g. Dosage corrected"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button disabled={!reason.trim() || !disease.trim() || !validUntil || saving} onClick={handleAmend}>
+              {saving ? 'Issuing...' : 'Issue Amended Prescription'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PrescriptionActions;
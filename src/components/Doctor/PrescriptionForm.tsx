@@ -1,39 +1,75 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Card, CardContent } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Calendar as CalendarIcon, Plus, Minus, FileText, Lock } from 'lucide-react';
-import { format } from 'date-fns';
+import { Calendar as CalendarIcon, Plus, Minus, FileText, BookmarkPlus } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
-import { PrescriptionService, medicines, DoseInterval } from '@/services/PrescriptionService';
+import { PrescriptionService, Medicine, DoseInterval, LockRule, Prescription } from '@/services/PrescriptionService';
+import { checkInteractions, describeInteraction, hasMajorInteraction } from '@/services/interactionChecker';
+import {
+  checkContraindications,
+  describeContraindication,
+  hasAbsoluteContraindication,
+} from '@/services/contraindicationChecker';
+import { PatientService } from '@/services/PatientService';
+import type { PatientProfile, PrescriptionTemplate } from '@/services/storage';
+import {
+  DEFAULT_SIG,
+  DosageSig,
+  computeSigQuantity,
+  describeQuantityMismatch,
+  formatSig,
+  validateSig,
+} from '@/services/dosageSig';
+import { assessDose } from '@/services/doseCalculator';
+import {
+  TemplateContent,
+  TemplateService,
+  describeTemplateLine,
+  getCurrentVersion,
+  isUsableLine,
+} from '@/services/TemplateService';
 import { toast } from 'sonner';
 import { AlertCircle, Wallet } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import PatientPicker from './PatientPicker';
+import LockRulesEditor from './LockRulesEditor';
+import InteractionWarnings from './InteractionWarnings';
+import PatientProfileCard from './PatientProfileCard';
+import SigBuilder from './SigBuilder';
+import DoseCalculator from './DoseCalculator';
+import TemplatePicker from './TemplatePicker';
+import SaveTemplateDialog from './SaveTemplateDialog';
+import ContraindicationFlags from '@/components/Clinical/ContraindicationFlags';
 
 // Define selected medicine type
 interface SelectedMedicine {
   medicineId: string;
   quantity: number;
   dosage: string;
+  sig: DosageSig;
+  doseOverrideReason?: string;
 }
 
 // Define form schema
 const prescriptionSchema = z.object({
+  patientId: z.string().min(1, { message: 'Please select a patient' }),
   patientName: z.string().min(2, { message: 'Patient name is required' }),
-  patientAge: z.coerce.number().int().min(0, { message: 'Age must be a positive number' }),
+  patientAge: z.coerce.number().int().min(0, { message: 'Age must be a positive number' }).max(130, { message: 'Please enter a valid age' }),
   disease: z.string().min(2, { message: 'Disease/condition is required' }),
   doseInterval: z.enum(['daily', 'weekly', 'monthly', 'one-time']),
+  refills: z.coerce.number().int().min(1, { message: 'At least one fill is required' }).max(12, { message: 'At most 12 fills are allowed' }),
   doseValidity: z.date({ required_error: 'Please select a validity date' }),
-  lockDates: z.array(z.date()).optional(),
 });
 
 type PrescriptionFormValues = z.infer<typeof prescriptionSchema>;
@@ -41,11 +77,24 @@ type PrescriptionFormValues = z.infer<typeof prescriptionSchema>;
 const PrescriptionForm = () => {
   const { user, isWalletConnected, connectWallet } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
   const [selectedMedicines, setSelectedMedicines] = useState<SelectedMedicine[]>([]);
   const [medicineId, setMedicineId] = useState('');
-  const [medicineQuantity, setMedicineQuantity] = useState(1);
-  const [medicineDosage, setMedicineDosage] = useState('');
-  const [lockDates, setLockDates] = useState<Date[]>([]);
+  const [medicineSig, setMedicineSig] = useState<DosageSig>(DEFAULT_SIG);
+  const [medicineQuantity, setMedicineQuantity] = useState(computeSigQuantity(DEFAULT_SIG));
+  // Once the doctor types a quantity it no longer follows the sig
+  const [quantityEdited, setQuantityEdited] = useState(false);
+  const [doseOverrideReason, setDoseOverrideReason] = useState('');
+  const [locks, setLocks] = useState<LockRule[]>([]);
+  const [patientPrescriptions, setPatientPrescriptions] = useState<Prescription[]>([]);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [patientProfile, setPatientProfile] = useState<PatientProfile | null>(null);
+  const [contraindicationReason, setContraindicationReason] = useState('');
+  // Template the current form was started from, recorded on the prescription
+  const [appliedTemplate, setAppliedTemplate] = useState<PrescriptionTemplate | null>(null);
+  // Template last saved from this form; offered for the next save but not recorded as the form's origin
+  const [savedTemplate, setSavedTemplate] = useState<PrescriptionTemplate | null>(null);
+  const [savingTemplate, setSavingTemplate] = useState(false);
   const [prescriptionCreated, setPrescriptionCreated] = useState(false);
   const [prescriptionToken, setPrescriptionToken] = useState('');
   const [blockchainTxHash, setBlockchainTxHash] = useState<string | null>(null);
@@ -53,15 +102,97 @@ const PrescriptionForm = () => {
   const form = useForm<PrescriptionFormValues>({
     resolver: zodResolver(prescriptionSchema),
     defaultValues: {
+      patientId: '',
       patientName: '',
       patientAge: undefined,
       disease: '',
       doseInterval: 'one-time',
+      refills: 1,
       doseValidity: new Date(),
-      lockDates: [],
     },
   });
 
+  // Load the medicine catalog with current availability
+  useEffect(() => {
+    const loadMedicines = async () => {
+      try {
+        const data = await PrescriptionService.getAvailableMedicines();
+        setMedicines(data);
+      } catch (error) {
+        console.error('Failed to load medicines:', error);
+      }
+    };
+
+    loadMedicines();
+  }, []);
+
+  // Load the selected patient's prescriptions and clinical profile to check new medicines against
+  const patientId = form.watch('patientId');
+  useEffect(() => {
+    if (!patientId) {
+      setPatientPrescriptions([]);
+      setPatientProfile(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([PrescriptionService.getPatientPrescriptions(patientId), PatientService.getPatientProfile(patientId)])
+      .then(([prescriptions, profile]) => {
+        if (cancelled) return;
+        setPatientPrescriptions(prescriptions);
+        setPatientProfile(profile);
+      })
+      .catch(error => console.error('Failed to load patient details:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  // Interactions within the new prescription and with the patient's active ones
+  const interactionWarnings = useMemo(() => {
+    const lines = selectedMedicines.flatMap(sm => medicines.filter(m => m.id === sm.medicineId));
+    return checkInteractions(lines, patientPrescriptions);
+  }, [selectedMedicines, medicines, patientPrescriptions]);
+
+  // Medicines that clash with the patient's allergies, conditions or pregnancy
+  const contraindicationFlags = useMemo(() => {
+    const lines = selectedMedicines.flatMap(sm => medicines.filter(m => m.id === sm.medicineId));
+    return checkContraindications(lines, patientProfile);
+  }, [selectedMedicines, medicines, patientProfile]);
+
+  // Update the sig and, unless overridden, the quantity it needs
+  const handleSigChange = (sig: DosageSig) => {
+    setMedicineSig(sig);
+    if (!quantityEdited && validateSig(sig).length === 0) {
+      setMedicineQuantity(computeSigQuantity(sig));
+    }
+  };
+
+  // Clear the add-medicine inputs
+  const resetMedicineInputs = () => {
+    setMedicineId('');
+    setMedicineSig(DEFAULT_SIG);
+    setMedicineQuantity(computeSigQuantity(DEFAULT_SIG));
+    setQuantityEdited(false);
+    setDoseOverrideReason('');
+  };
+
+  // Dose range for the selected medicine from the patient's age and recorded weight
+  const patientAge = form.watch('patientAge');
+  const ageValue = Number(patientAge);
+  const knownAge = patientAge === undefined || String(patientAge) === '' || !Number.isFinite(ageValue) ? null : ageValue;
+  const doseAssessment = useMemo(() => {
+    if (!medicineId) return null;
+    return assessDose(medicineId, medicineSig, {
+      ageYears: knownAge,
+      weightKg: patientProfile?.weightKg ?? null,
+    });
+  }, [medicineId, medicineSig, knownAge, patientProfile]);
+
+  const quantityMismatch = validateSig(medicineSig).length === 0
+    ? describeQuantityMismatch(medicineSig, medicineQuantity)
+    : null;
+
   // Handle medicine add
   const handleAddMedicine = () => {
     if (!medicineId) {
@@ -72,8 +203,14 @@ const PrescriptionForm = () => {
       toast.error('Quantity must be greater than zero');
       return;
     }
-    if (!medicineDosage.trim()) {
-      toast.error('Please enter dosage instructions');
+    const sigErrors = validateSig(medicineSig);
+    if (sigErrors.length > 0) {
+      toast.error(sigErrors[0]);
+      return;
+    }
+    const doseIssues = doseAssessment?.issues ?? [];
+    if (doseIssues.length > 0 && !doseOverrideReason.trim()) {
+      toast.error(doseIssues[0], { description: 'Adjust the dose or document a reason to override' });
       return;
     }
 
@@ -87,15 +224,39 @@ const PrescriptionForm = () => {
     const newMedicine: SelectedMedicine = {
       medicineId,
       quantity: medicineQuantity,
-      dosage: medicineDosage,
+      dosage: formatSig(medicineSig),
+      sig: medicineSig,
+      doseOverrideReason: doseIssues.length > 0 ? doseOverrideReason.trim() : undefined,
     };
 
-    setSelectedMedicines([...selectedMedicines, newMedicine]);
+    const updatedMedicines = [...selectedMedicines, newMedicine];
+    setSelectedMedicines(updatedMedicines);
+
+    if (quantityMismatch) {
+      toast.warning(`${medicine.name}: quantity does not match the dosage`, { description: quantityMismatch });
+    }
+
+    // Flag allergies and contraindications for the new medicine
+    const flags = checkContraindications([medicine], patientProfile);
+    if (flags.length > 0) {
+      const notify = hasAbsoluteContraindication(flags) ? toast.error : toast.warning;
+      notify(`${medicine.name} is flagged for this patient`, {
+        description: describeContraindication(flags[0]),
+      });
+    }
+
+    // Flag interactions the new line brings in
+    const lines = updatedMedicines.flatMap(sm => medicines.filter(m => m.id === sm.medicineId));
+    const added = checkInteractions(lines, patientPrescriptions).filter(w => w.medicineIds.includes(medicine.id));
+    if (added.length > 0) {
+      const notify = hasMajorInteraction(added) ? toast.error : toast.warning;
+      notify(`${medicine.name} has ${added.length} interaction warning${added.length === 1 ? '' : 's'}`, {
+        description: describeInteraction(added[0]),
+      });
+    }
     
     // Reset form fields
-    setMedicineId('');
-    setMedicineQuantity(1);
-    setMedicineDosage('');
+    resetMedicineInputs();
   };
 
   // Handle remove medicine
@@ -105,20 +266,92 @@ const PrescriptionForm = () => {
     setSelectedMedicines(updatedMedicines);
   };
 
-  // Handle add lock date
-  const handleAddLockDate = (date: Date | undefined) => {
-    if (date) {
-      setLockDates([...lockDates, date]);
-      form.setValue('lockDates', [...lockDates, date]);
+  // Fill the form from a template, leaving out lines the catalog or the dose check won't accept
+  const handleApplyTemplate = async (template: PrescriptionTemplate) => {
+    if (knownAge === null) {
+      toast.error("Enter the patient's age before applying a template", {
+        description: 'Template doses are checked against the patient',
+      });
+      return;
+    }
+
+    try {
+      const { version, lines } = await TemplateService.applyTemplate(template);
+      const problems: string[] = [];
+      const applied: SelectedMedicine[] = [];
+      lines.forEach(checked => {
+        const problem = describeTemplateLine(checked);
+        if (problem) problems.push(problem);
+        if (!isUsableLine(checked)) return;
+
+        const { line } = checked;
+        const doseIssues = assessDose(line.medicineId, line.sig, {
+          ageYears: knownAge,
+          weightKg: patientProfile?.weightKg ?? null,
+        })?.issues ?? [];
+        if (doseIssues.length > 0) {
+          problems.push(`${checked.medicine?.name ?? line.medicineName}: ${doseIssues[0]}. Add it again to review the dose`);
+          return;
+        }
+        applied.push({ medicineId: line.medicineId, quantity: line.quantity, dosage: line.dosage, sig: line.sig });
+      });
+
+      // The validity calendar only allows dates up to a year ahead
+      const today = new Date();
+      const latestValidity = new Date(new Date(today).setFullYear(today.getFullYear() + 1));
+      const validity = addDays(today, version.validityDays);
+      form.setValue('disease', version.disease, { shouldValidate: true });
+      form.setValue('doseInterval', version.doseInterval, { shouldValidate: true });
+      form.setValue('refills', version.refills, { shouldValidate: true });
+      form.setValue('doseValidity', validity > latestValidity ? latestValidity : validity, { shouldValidate: true });
+      setSelectedMedicines(applied);
+      resetMedicineInputs();
+      setOverrideReason('');
+      setContraindicationReason('');
+      setAppliedTemplate(template);
+      setSavedTemplate(null);
+
+      if (problems.length > 0) {
+        toast.warning(`Applied "${template.name}" v${version.version} with ${problems.length} line${problems.length === 1 ? '' : 's'} to check`, {
+          description: problems.join('. '),
+        });
+      } else {
+        toast.success(`Applied "${template.name}" v${version.version}`);
+      }
+    } catch (error) {
+      toast.error('Failed to apply template');
+      console.error(error);
     }
   };
 
-  // Handle remove lock date
-  const handleRemoveLockDate = (index: number) => {
-    const updatedDates = [...lockDates];
-    updatedDates.splice(index, 1);
-    setLockDates(updatedDates);
-    form.setValue('lockDates', updatedDates);
+  // Template content from the filled form; patient details and dose overrides stay out
+  const buildTemplateContent = (): TemplateContent => {
+    const values = form.getValues();
+    return {
+      disease: values.disease.trim(),
+      lines: selectedMedicines.map(sm => ({
+        medicineId: sm.medicineId,
+        medicineName: medicines.find(m => m.id === sm.medicineId)?.name ?? sm.medicineId,
+        quantity: sm.quantity,
+        dosage: sm.dosage,
+        sig: sm.sig,
+      })),
+      doseInterval: values.doseInterval,
+      refills: values.doseInterval === 'one-time' ? 1 : Number(values.refills),
+      validityDays: Math.max(1, differenceInCalendarDays(values.doseValidity, new Date())),
+    };
+  };
+
+  const handleSaveTemplate = () => {
+    if (selectedMedicines.length === 0) {
+      toast.error('Add at least one medicine to save a template');
+      return;
+    }
+    if (form.getValues('disease').trim().length < 2) {
+      toast.error('Enter the condition the template is for');
+      return;
+    }
+    setSavingTemplate(true);
   };
 
   // Handle form submission
@@ -127,6 +360,29 @@ const PrescriptionForm = () => {
       toast.error('Please add at least one medicine');
       return;
     }
+    // Age or weight may have changed since the lines were added, so check every dose against the final values
+    const doseIssues = selectedMedicines.map(sm => assessDose(sm.medicineId, sm.sig, {
+      ageYears: data.patientAge,
+      weightKg: patientProfile?.weightKg ?? null,
+    })?.issues ?? []);
+    const unjustified = selectedMedicines.findIndex((sm, i) => doseIssues[i].length > 0 && !sm.doseOverrideReason);
+    if (unjustified !== -1) {
+      const name = medicines.find(m => m.id === selectedMedicines[unjustified].medicineId)?.name;
+      toast.error(`${name}: ${doseIssues[unjustified][0]}`, {
+        description: 'Remove the medicine and add it again to adjust the dose or document a reason to override',
+      });
+      return;
+    }
+    const needsOverride = hasMajorInteraction(interactionWarnings);
+    if (needsOverride && !overrideReason.trim()) {
+      toast.error('Document a reason to prescribe despite the major interaction');
+      return;
+    }
+    const needsContraindicationOverride = hasAbsoluteContraindication(contraindicationFlags);
+    if (needsContraindicationOverride && !contraindicationReason.trim()) {
+      toast.error("Document a reason to prescribe despite the patient's allergy or contraindication");
+      return;
+    }
 
     setIsLoading(true);
     try {
@@ -134,22 +390,44 @@ const PrescriptionForm = () => {
       const prescriptionData = {
         patientName: data.patientName,
         patientAge: data.patientAge,
-        patientId: '2', // In a real app, this would come from patient selection
+        patientId: data.patientId,
         doctorId: user?.id || '1',
         doctorName: user?.name || 'Doctor',
         disease: data.disease,
-        medicines: selectedMedicines.map(sm => {
+        medicines: selectedMedicines.map((sm, index) => {
           const med = medicines.find(m => m.id === sm.medicineId);
           return {
             medicine: med || medicines[0],
             quantity: sm.quantity,
-            dosage: sm.dosage
+            dosage: sm.dosage,
+            sig: sm.sig,
+            // A dose now within range no longer needs the override it was added with
+            doseOverrideReason: doseIssues[index].length > 0 ? sm.doseOverrideReason : undefined,
           };
         }),
         doseInterval: data.doseInterval as DoseInterval,
+        refills: data.doseInterval === 'one-time' ? 1 : data.refills,
         doseValidity: data.doseValidity,
         created: new Date(),
-        lockDates: lockDates,
+        locks,
+        interactionOverride: needsOverride
+          ? {
+              reason: overrideReason.trim(),
+              interactions: interactionWarnings.filter(w => w.severity === 'major').map(describeInteraction),
+            }
+          : undefined,
+        contraindicationOverride: needsContraindicationOverride
+          ? {
+              reason: contraindicationReason.trim(),
+              flags: contraindicationFlags.filter(f => f.severity === 'absolute').map(describeContraindication),
+            }
+          : undefined,
+        fromTemplate: appliedTemplate
+          ? {
+              templateId: appliedTemplate.id,
+              version: getCurrentVersion(appliedTemplate).version,
+            }
+          : undefined,
       };
 
       // Call the service
@@ -178,10 +456,12 @@ const PrescriptionForm = () => {
   const handleReset = () => {
     form.reset();
     setSelectedMedicines([]);
-    setMedicineId('');
-    setMedicineQuantity(1);
-    setMedicineDosage('');
-    setLockDates([]);
+    resetMedicineInputs();
+    setLocks([]);
+    setOverrideReason('');
+    setContraindicationReason('');
+    setAppliedTemplate(null);
+    setSavedTemplate(null);
     setPrescriptionCreated(false);
     setPrescriptionToken('');
   };
@@ -209,6 +489,9 @@ const PrescriptionForm = () => {
               <div className="p-4 bg-medimint-50 rounded-lg border border-medimint-200">
                 <p className="text-sm text-medimint-700 mb-2">Blockchain Transaction</p>
                 <p className="text-sm font-mono break-all">{blockchainTxHash}</p>
+                <p className="text-xs text-medineutral-500 mt-2">
+                  Confirmation progress is shown in the transactions panel.
+                </p>
               </div>
             ) : (
               // <Alert variant="warning" className="bg-amber-50 border-amber-200 text-amber-800">
@@ -258,17 +541,31 @@ const PrescriptionForm = () => {
                 </Alert>
               )}
               
+              <div className="flex flex-wrap items-center gap-3">
+                <TemplatePicker onSelect={handleApplyTemplate} />
+                {appliedTemplate && (
+                  <span className="text-sm text-medineutral-600">
+                    Started from <span className="font-medium">{appliedTemplate.name}</span>{' '}
+                    v{getCurrentVersion(appliedTemplate).version}
+                  </span>
+                )}
+              </div>
+
               {/* Existing form fields */}
               <div className="grid gap-6 sm:grid-cols-2">
                 <FormField
                   control={form.control}
-                  name="patientName"
+                  name="patientId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Patient Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter patient name" {...field} />
-                      </FormControl>
+                      <FormLabel>Patient</FormLabel>
+                      <PatientPicker
+                        value={field.value}
+                        onSelect={(patient) => {
+                          field.onChange(patient.id);
+                          form.setValue('patientName', patient.name, { shouldValidate: true });
+                        }}
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -289,6 +586,14 @@ const PrescriptionForm = () => {
                 />
               </div>
 
+              {patientId && patientProfile && (
+                <PatientProfileCard
+                  patientName={form.getValues('patientName')}
+                  profile={patientProfile}
+                  onSaved={setPatientProfile}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="disease"
@@ -307,7 +612,7 @@ const PrescriptionForm = () => {
               <div className="bg-medineutral-50 p-4 rounded-md border border-medineutral-200">
                 <h3 className="text-sm font-medium mb-3">Add Medicines</h3>
                 
-                <div className="grid gap-4 sm:grid-cols-3 mb-3">
+                <div className="grid gap-4 sm:grid-cols-2 mb-3">
                   <div className="space-y-1">
                     <label className="text-sm font-medium">Medicine</label>
                     <Select
@@ -337,19 +642,37 @@ const PrescriptionForm = () => {
                       type="number"
                       min="1"
                       value={medicineQuantity}
-                      onChange={(e) => setMedicineQuantity(parseInt(e.target.value) || 1)}
+                      onChange={(e) => {
+                        setMedicineQuantity(parseInt(e.target.value) || 1);
+                        setQuantityEdited(true);
+                      }}
                     />
+                    {quantityMismatch ? (
+                      <p className="text-xs text-amber-700">{quantityMismatch}</p>
+                    ) : (
+                      <p className="text-xs text-medineutral-500">
+                        {quantityEdited ? 'Matches the dosage below' : 'Calculated from the dosage below'}
+                      </p>
+                    )}
                   </div>
-                  
-                  <div className="space-y-1">
-                    <label className="text-sm font-medium">Dosage</label>
-                    <Input
-                      placeholder="e.g. 1 tablet twice daily"
-                      value={medicineDosage}
-                      onChange={(e) => setMedicineDosage(e.target.value)}
+                </div>
+
+                <div className="mb-3">
+                  <SigBuilder sig={medicineSig} onChange={handleSigChange} />
+                </div>
+
+                {doseAssessment && (
+                  <div className="mb-3">
+                    <DoseCalculator
+                      assessment={doseAssessment}
+                      overrideReason={doseOverrideReason}
+                      onOverrideReasonChange={setDoseOverrideReason}
+                      onApplySuggestion={(units) =>
+                        handleSigChange({ ...medicineSig, doseAmount: units, doseUnit: doseAssessment.rule.unit })
+                      }
                     />
                   </div>
-                </div>
+                )}
                 
                 <Button
                   type="button"
@@ -378,6 +701,9 @@ const PrescriptionForm = () => {
                             <span>Qty: {item.quantity}</span>
                             <span className="text-medineutral-500 mx-1">•</span>
                             <span className="text-medineutral-600">{item.dosage}</span>
+                            {item.doseOverrideReason && (
+                              <span className="block text-xs text-red-700">Dose override: {item.doseOverrideReason}</span>
+                            )}
                           </div>
                           <Button
                             type="button"
@@ -392,6 +718,31 @@ const PrescriptionForm = () => {
                     })}
                   </div>
                 )}
+
+                {contraindicationFlags.length > 0 && (
+                  <div className="mt-4">
+                    <ContraindicationFlags flags={contraindicationFlags}>
+                      {hasAbsoluteContraindication(contraindicationFlags) && (
+                        <div className="space-y-1">
+                          <label className="text-sm font-medium text-red-700">
+                            Override reason (required for allergies and absolute contraindications)
+                          </label>
+                          <Textarea
+                            placeholder="Why this medicine is still appropriate for the patient"
+                            value={contraindicationReason}
+                            onChange={(e) => setContraindicationReason(e.target.value)}
+                          />
+                        </div>
+                      )}
+                    </ContraindicationFlags>
+                  </div>
+                )}
+
+                <InteractionWarnings
+                  warnings={interactionWarnings}
+                  overrideReason={overrideReason}
+                  onOverrideReasonChange={setOverrideReason}
+                />
               </div>
 
               <div className="grid gap-6 sm:grid-cols-2">
@@ -403,7 +754,7 @@ const PrescriptionForm = () => {
                       <FormLabel>Dose Validity</FormLabel>
                       <Select
                         onValueChange={field.onChange}
-                        defaultValue={field.value}
+                        value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -422,6 +773,29 @@ const PrescriptionForm = () => {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="refills"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Number of Fills</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={12}
+                          disabled={form.watch('doseInterval') === 'one-time'}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Each fill can be collected once per interval until the validity end date
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="doseValidity"
@@ -465,65 +839,14 @@ const PrescriptionForm = () => {
                 />
               </div>
 
-              {/* Lock Dates Section */}
-              <div className="bg-medineutral-50 p-4 rounded-md border border-medineutral-200">
-                <div className="flex items-center mb-3">
-                  <Lock size={16} className="mr-2 text-medineutral-600" />
-                  <h3 className="text-sm font-medium">Prescription Lock Dates (Optional)</h3>
-                </div>
-                
-                <div className="flex items-end gap-3 mb-3">
-                  <div className="flex-grow">
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <Button variant={"outline"} className="w-full justify-start">
-                          <CalendarIcon className="mr-2 h-4 w-4" />
-                          <span>Add Lock Date</span>
-                        </Button>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0">
-                        <Calendar
-                          mode="single"
-                          onSelect={handleAddLockDate}
-                          disabled={(date) => date < new Date()}
-                          initialFocus
-                        />
-                      </PopoverContent>
-                    </Popover>
-                  </div>
-                </div>
-                
-                {/* Selected lock dates list */}
-                {lockDates.length > 0 && (
-                  <div className="mt-2 space-y-2">
-                    <h4 className="text-sm font-medium">Selected Lock Dates:</h4>
-                    {lockDates.map((date, index) => (
-                      <div 
-                        key={index}
-                        className="flex justify-between items-center bg-white p-2 rounded border"
-                      >
-                        <div className="text-sm font-medium">
-                          {format(date, "PPP")}
-                        </div>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleRemoveLockDate(index)}
-                        >
-                          <Minus size={16} className="text-destructive" />
-                        </Button>
-                      </div>
-                    ))}
-                  </div>
-                )}
-                
-                <p className="mt-3 text-xs text-medineutral-500">
-                  Lock dates prevent the prescription from being dispensed on specified dates.
-                </p>
-              </div>
+              {/* Lock Rules Section */}
+              <LockRulesEditor locks={locks} onChange={setLocks} />
 
               <div className="flex justify-end space-x-2">
+                <Button variant="outline" type="button" onClick={handleSaveTemplate}>
+                  <BookmarkPlus className="h-4 w-4 mr-1" />
+                  Save as Template
+                </Button>
                 <Button variant="outline" type="button" onClick={handleReset}>
                   Reset
                 </Button>
@@ -532,6 +855,15 @@ const PrescriptionForm = () => {
                 </Button>
               </div>
             </form>
+            {savingTemplate && (
+              <SaveTemplateDialog
+                open={savingTemplate}
+                onOpenChange={setSavingTemplate}
+                content={buildTemplateContent()}
+                baseTemplate={savedTemplate ?? appliedTemplate}
+                onSaved={setSavedTemplate}
+              />
+            )}
           </Form>
         )}
       </CardContent>
@@ -1,5 +1,5 @@
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -14,43 +14,53 @@ import {
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
 import { Prescription, PrescriptionService } from '@/services/PrescriptionService';
+import { deriveStatus } from '@/services/prescriptionLifecycle';
 import { useAuth } from '@/contexts/AuthContext';
+import ChainStatusBadge from '@/components/Blockchain/ChainStatusBadge';
+import DoctorSignatureBadge from '@/components/Blockchain/DoctorSignatureBadge';
+import PrescriptionActions from './PrescriptionActions';
 
 const PrescriptionList = () => {
   const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
 
-  useEffect(() => {
-    const loadPrescriptions = async () => {
-      try {
-        let data: Prescription[] = [];
-        if (user?.id) {
-          data = await PrescriptionService.getDoctorPrescriptions(user.id);
-        } else {
-          data = await PrescriptionService.getAllPrescriptions();
-        }
-        setPrescriptions(data);
-      } catch (error) {
-        console.error('Failed to load prescriptions:', error);
-      } finally {
-        setLoading(false);
+  const loadPrescriptions = useCallback(async () => {
+    try {
+      let data: Prescription[] = [];
+      if (user?.id) {
+        data = await PrescriptionService.getDoctorPrescriptions(user.id);
+      } else {
+        data = await PrescriptionService.getAllPrescriptions();
       }
-    };
+      setPrescriptions(data);
+    } catch (error) {
+      console.error('Failed to load prescriptions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
 
+  useEffect(() => {
     loadPrescriptions();
-  }, [user]);
+  }, [loadPrescriptions]);
 
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'active':
         return <Badge className="bg-medimint-500">Active</Badge>;
+      case 'partially-dispensed':
+        return <Badge className="bg-amber-500">Partially Dispensed</Badge>;
       case 'dispensed':
         return <Badge variant="outline" className="text-medineutral-500 border-medineutral-300">Dispensed</Badge>;
       case 'locked':
         return <Badge variant="secondary" className="bg-medineutral-200 text-medineutral-700">Locked</Badge>;
       case 'expired':
         return <Badge variant="destructive">Expired</Badge>;
+      case 'revoked':
+        return <Badge variant="destructive">Revoked</Badge>;
+      case 'superseded':
+        return <Badge variant="outline" className="text-medineutral-500 border-medineutral-300">Superseded</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -95,16 +105,32 @@ const PrescriptionList = () => {
                 <TableHead>Disease</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Chain</TableHead>
+                <TableHead>Signature</TableHead>
+                <TableHead className="w-12"><span className="sr-only">Actions</span></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {prescriptions.map((prescription) => (
                 <TableRow key={prescription.id}>
-                  <TableCell className="font-medium">{prescription.tokenId}</TableCell>
+                  <TableCell className="font-medium">
+                    {prescription.tokenId}
+                    {prescription.supersededBy && (
+                      <span className="block text-xs text-medineutral-500">Replaced by {prescription.supersededBy}</span>
+                    )}
+                    {prescription.supersedes && (
+                      <span className="block text-xs text-medineutral-500">Amends {prescription.supersedes}</span>
+                    )}
+                  </TableCell>
                   <TableCell>{prescription.patientName}</TableCell>
                   <TableCell>{prescription.disease}</TableCell>
                   <TableCell>{format(new Date(prescription.created), 'MMM d, yyyy')}</TableCell>
-                  <TableCell>{getStatusBadge(prescription.status)}</TableCell>
+                  <TableCell>{getStatusBadge(deriveStatus(prescription))}</TableCell>
+                  <TableCell><ChainStatusBadge prescription={prescription} /></TableCell>
+                  <TableCell><DoctorSignatureBadge prescription={prescription} /></TableCell>
+                  <TableCell>
+                    <PrescriptionActions prescription={prescription} onChanged={loadPrescriptions} />
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { TemplateContent, TemplateService, getCurrentVersion } from '@/services/TemplateService';
+import type { PrescriptionTemplate } from '@/services/storage';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: TemplateContent;
+  // Template the form was started from or last saved as, offered as the one to update when the doctor owns it
+  baseTemplate: PrescriptionTemplate | null;
+  onSaved: (template: PrescriptionTemplate) => void;
+}
+
+// Save the filled form as a new template, or as the next version of the doctor's template it came from.
+// Mount it when opening so the inputs start from the base template's details
+const SaveTemplateDialog = ({ open, onOpenChange, content, baseTemplate, onSaved }: SaveTemplateDialogProps) => {
+  const { user } = useAuth();
+  const updatable = baseTemplate && baseTemplate.ownerId === user?.id ? baseTemplate : null;
+  const [name, setName] = useState(updatable?.name ?? content.disease);
+  const [shared, setShared] = useState(updatable?.shared ?? false);
+  const [mode, setMode] = useState<'update' | 'new'>(updatable ? 'update' : 'new');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const saved = await TemplateService.saveTemplate(
+        { name: name.trim(), shared },
+        content,
+        { id: user.id, name: user.name },
+        mode === 'update' ? updatable?.id : undefined
+      );
+      if (saved) {
+        onSaved(saved);
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Failed to save template:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            Saves the condition, {content.lines.length} medicine line{content.lines.length === 1 ? '' : 's'}, interval,
+            fills and a validity of {content.validityDays} day{content.validityDays === 1 ? '' : 's'}. Patient details
+            are not saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {updatable && (
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as 'update' | 'new')}>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="update" />
+                Save as version {getCurrentVersion(updatable).version + 1} of "{updatable.name}"
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="new" />
+                Save as a new template
+              </label>
+            </RadioGroup>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              placeholder="e.g. Hypertension first line"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+            Share with other doctors
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="button" disabled={saving || name.trim().length < 2} onClick={handleSave}>
+            {saving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,148 @@
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DOSE_ROUTES,
+  DOSE_UNITS,
+  DoseRoute,
+  DoseUnit,
+  DosageSig,
+  SIG_FREQUENCIES,
+  SIG_TIMINGS,
+  SigFrequency,
+  SigTiming,
+  formatSig,
+  validateSig,
+} from '@/services/dosageSig';
+
+interface SigBuilderProps {
+  sig: DosageSig;
+  onChange: (sig: DosageSig) => void;
+}
+
+// Inputs for a structured dosage, with a preview of the printed instructions
+const SigBuilder = ({ sig, onChange }: SigBuilderProps) => {
+  const update = (change: Partial<DosageSig>) => onChange({ ...sig, ...change });
+  const errors = validateSig(sig);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-4 sm:grid-cols-4">
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Dose</label>
+          <Input
+            type="number"
+            min="0"
+            step="0.5"
+            value={sig.doseAmount}
+            onChange={(e) => update({ doseAmount: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Unit</label>
+          <Select value={sig.doseUnit} onValueChange={(value) => update({ doseUnit: value as DoseUnit })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DOSE_UNITS).map(([value, [, plural]]) => (
+                <SelectItem key={value} value={value}>{plural}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Route</label>
+          <Select value={sig.route} onValueChange={(value) => update({ route: value as DoseRoute })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DOSE_ROUTES).map(([value, route]) => (
+                <SelectItem key={value} value={value}>{route.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Frequency</label>
+          <Select value={sig.frequency} onValueChange={(value) => update({ frequency: value as SigFrequency })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SIG_FREQUENCIES).map(([value, frequency]) => (
+                <SelectItem key={value} value={value}>{frequency.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Timing</label>
+          <Select value={sig.timing} onValueChange={(value) => update({ timing: value as SigTiming })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SIG_TIMINGS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label || 'any time'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Duration (days)</label>
+          <Input
+            type="number"
+            min="1"
+            value={sig.durationDays}
+            onChange={(e) => update({ durationDays: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Max per day</label>
+          <Input
+            type="number"
+            min="0"
+            placeholder={sig.asNeeded ? 'Required' : 'Optional'}
+            value={sig.maxDailyDose ?? ''}
+            onChange={(e) => update({ maxDailyDose: parseFloat(e.target.value) || null })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <Checkbox
+              checked={sig.asNeeded}
+              onCheckedChange={(checked) => update({ asNeeded: checked === true })}
+            />
+            As needed (PRN)
+          </label>
+          {sig.asNeeded && (
+            <Input
+              placeholder="for e.g. pain"
+              value={sig.asNeededFor ?? ''}
+              onChange={(e) => update({ asNeededFor: e.target.value })}
+            />
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm bg-white rounded border px-3 py-2">
+        <span className="text-medineutral-500">Instructions: </span>
+        {formatSig(sig)}
+      </p>
+      {errors.map(error => (
+        <p key={error} className="text-xs text-destructive">{error}</p>
+      ))}
+    </div>
+  );
+};
+
+export default SigBuilder;
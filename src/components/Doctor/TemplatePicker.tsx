@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { BookMarked, ChevronsUpDown, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { TemplateService, getCurrentVersion } from '@/services/TemplateService';
+import type { PrescriptionTemplate } from '@/services/storage';
+
+interface TemplatePickerProps {
+  onSelect: (template: PrescriptionTemplate) => void;
+}
+
+// Searchable list of the doctor's own and shared prescription templates
+const TemplatePicker = ({ onSelect }: TemplatePickerProps) => {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [templates, setTemplates] = useState<PrescriptionTemplate[]>([]);
+  // Bumped after a template is removed so the list reloads
+  const [revision, setRevision] = useState(0);
+
+  // Search the repository as the doctor types; the list isn't filtered client-side
+  useEffect(() => {
+    if (!open || !user) return;
+
+    let cancelled = false;
+    TemplateService.getTemplates(user.id, query)
+      .then(data => {
+        if (!cancelled) setTemplates(data);
+      })
+      .catch(error => console.error('Failed to load templates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, query, user, revision]);
+
+  const handleArchive = async (template: PrescriptionTemplate) => {
+    if (!user) return;
+    try {
+      if (await TemplateService.archiveTemplate(template, user.id)) {
+        setRevision(r => r + 1);
+      }
+    } catch (error) {
+      console.error('Failed to remove template:', error);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" role="combobox" aria-expanded={open} className="justify-between">
+          <BookMarked className="h-4 w-4 mr-2" />
+          Start from template
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search by name, condition or medicine" value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>No templates found.</CommandEmpty>
+            <CommandGroup>
+              {templates.map(template => {
+                const current = getCurrentVersion(template);
+                const isOwn = template.ownerId === user?.id;
+                return (
+                  <CommandItem
+                    key={template.id}
+                    value={template.id}
+                    onSelect={() => {
+                      onSelect(template);
+                      setOpen(false);
+                    }}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate">{template.name}</span>
+                        <span className="text-xs text-medineutral-500">v{current.version}</span>
+                        {template.shared && <Badge variant="secondary">Shared</Badge>}
+                      </div>
+                      <div className="text-xs text-medineutral-500 truncate">
+                        {current.disease} · {current.lines.map(l => l.medicineName).join(', ')}
+                        {!isOwn && ` · ${template.ownerName}`}
+                      </div>
+                    </div>
+                    {isOwn && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Remove ${template.name}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleArchive(template);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TemplatePicker;
@@ -2,12 +2,22 @@ import React, { useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth, UserRole } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { User, FileText, Pill, Wallet } from 'lucide-react';
+import { User, FileText, Pill, Wallet, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import LoginForm from '@/components/Auth/LoginForm';
 import DoctorDashboard from '@/components/Doctor/DoctorDashboard';
 import PatientDashboard from '@/components/Patient/PatientDashboard';
 import PharmacistDashboard from '@/components/Pharmacist/PharmacistDashboard';
 import { toast } from 'sonner';
+import FeePreviewDialog from '@/components/Blockchain/FeePreviewDialog';
+import TransactionPanel from '@/components/Blockchain/TransactionPanel';
+import UnsyncedChanges from '@/components/Blockchain/UnsyncedChanges';
+import { ChainIndexer } from '@/services/ChainIndexer';
+import { ChainOutbox } from '@/services/ChainOutbox';
+import { PrescriptionService } from '@/services/PrescriptionService';
+import { TransactionManager } from '@/services/TransactionManager';
+import { useWeb3 } from '@/services/Web3Service';
+import { DEFAULT_NETWORK } from '@/services/networks';
 
 interface MainLayoutProps {
   children?: React.ReactNode;
@@ -15,6 +25,7 @@ interface MainLayoutProps {
 
 const MainLayout: React.FC<MainLayoutProps> = () => {
   const { 
+    user,
     isAuthenticated, 
     role, 
     logout, 
@@ -22,8 +33,10 @@ const MainLayout: React.FC<MainLayoutProps> = () => {
     isWalletConnected, 
     walletAddress,
     connectWallet,
-    disconnectWallet
+    disconnectWallet,
+    isAddressVerified
   } = useAuth();
+  const { network, isWrongNetwork, switchNetwork } = useWeb3();
 
   // Ensure proper viewport metadata for mobile responsiveness
   useEffect(() => {
@@ -43,6 +56,31 @@ const MainLayout: React.FC<MainLayoutProps> = () => {
     );
   }, []);
 
+  // Keep the chain projection up to date while someone is signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    ChainIndexer.start();
+    // Settle prescriptions whose creation transaction confirms, fails or is replaced
+    const stopTransactionSync = TransactionManager.onSettled(PrescriptionService.applyTransactionOutcome);
+    return () => {
+      ChainIndexer.stop();
+      stopTransactionSync();
+    };
+  }, [isAuthenticated]);
+
+  // Send the signed-in user's queued chain writes whenever their wallet is available
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    ChainOutbox.start(userId, PrescriptionService.submitOutboxItem);
+    return () => ChainOutbox.stop();
+  }, [userId]);
+
+  // Writes wait for a wallet proven with Sign-In With Ethereum, so send them once the user has signed in that way
+  useEffect(() => {
+    if (isAddressVerified) ChainOutbox.flush();
+  }, [isAddressVerified]);
+
   const handleRoleSwitch = (newRole: UserRole) => {
     if (!newRole) return;
     
@@ -72,6 +110,9 @@ const MainLayout: React.FC<MainLayoutProps> = () => {
           </div>
           
           <div className="flex items-center space-x-2">
+            {isAuthenticated && <UnsyncedChanges />}
+            {isAuthenticated && <TransactionPanel />}
+
             {/* Wallet Connection Button */}
             {isWalletConnected ? (
               <Button 
@@ -82,6 +123,7 @@ const MainLayout: React.FC<MainLayoutProps> = () => {
               >
                 <Wallet className="h-4 w-4 mr-2" />
                 {formatAddress(walletAddress!)}
+                {network && <span className="ml-2 text-xs text-mediblue-500">{network.name}</span>}
               </Button>
             ) : (
               <Button 
@@ -103,6 +145,35 @@ const MainLayout: React.FC<MainLayoutProps> = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8">
+        {isWalletConnected && isWrongNetwork && (
+          <Alert className="mb-6 bg-amber-50 border-amber-200 text-amber-800">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="flex items-center justify-between">
+              <span>
+                Your wallet is on an unsupported network. Blockchain actions are disabled until you switch to {DEFAULT_NETWORK.name}.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => switchNetwork()}
+                className="bg-amber-100 border-amber-300"
+              >
+                Switch Network
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isAuthenticated && isWalletConnected && !isWrongNetwork && !isAddressVerified && (
+          <Alert className="mb-6 bg-amber-50 border-amber-200 text-amber-800">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription>
+              This wallet has not been verified for your account. Prescriptions are not signed or recorded on the
+              blockchain until you sign in with Ethereum using it.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {!isAuthenticated ? (
           <div className="max-w-md mx-auto">
             <LoginForm />
@@ -143,6 +214,9 @@ const MainLayout: React.FC<MainLayoutProps> = () => {
         )}
       </main>
       
+      {/* Fee preview shown before any contract write */}
+      <FeePreviewDialog />
+
       {/* Footer */}
       <footer className="bg-white mt-auto py-4 border-t">
         <div className="container mx-auto px-4 text-center text-sm text-medineutral-500">
@@ -2,6 +2,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from '@/contexts/AuthContext';
 import PrescriptionCards from './PrescriptionCards';
+import WalletLinkCard from './WalletLinkCard';
 
 const PatientDashboard = () => {
   const { user } = useAuth();
@@ -23,6 +24,8 @@ const PatientDashboard = () => {
             <PrescriptionCards />
           </CardContent>
         </Card>
+
+        <WalletLinkCard />
       </div>
     </div>
   );
@@ -15,15 +15,20 @@ import {
   BellOff,
   ChevronDown, 
   ChevronUp,
-  Lock 
+  Lock,
+  RefreshCw
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/AuthContext';
 import { Prescription, PrescriptionService } from '@/services/PrescriptionService';
+import { encodeQrPayload } from '@/services/prescriptionQr';
+import { describeLock, withDerivedStatus } from '@/services/prescriptionLifecycle';
 import { toast } from 'sonner';
 import QRCode from 'react-qr-code';
+import ChainStatusBadge from '@/components/Blockchain/ChainStatusBadge';
+import DoctorSignatureBadge from '@/components/Blockchain/DoctorSignatureBadge';
 
 const PrescriptionCards = () => {
   const { user } = useAuth();
@@ -55,9 +60,10 @@ const PrescriptionCards = () => {
     setExpandedId(expandedId === id ? null : id);
   };
 
-  const filteredPrescriptions = prescriptions.filter(p => {
+  // Re-derive statuses so expiry and lock dates reflect the current time
+  const filteredPrescriptions = prescriptions.map(p => withDerivedStatus(p)).filter(p => {
     if (activeTab === 'all') return true;
-    if (activeTab === 'active') return p.status === 'active';
+    if (activeTab === 'active') return p.status === 'active' || p.status === 'partially-dispensed';
     if (activeTab === 'dispensed') return p.status === 'dispensed';
     return true;
   });
@@ -68,7 +74,7 @@ const PrescriptionCards = () => {
   };
 
   const simulateNfcTap = (prescription: Prescription) => {
-    if (prescription.status !== 'active') {
+    if (prescription.status !== 'active' && prescription.status !== 'partially-dispensed') {
       toast.error('This prescription is not active');
       return;
     }
@@ -91,9 +97,9 @@ const PrescriptionCards = () => {
                 {/* Real QR Code with better mobile support */}
                 <div className="qr-code-container bg-white p-2" style={{ maxWidth: '100%' }}>
                   <QRCode
-                    value={selectedPrescription.tokenId}
+                    value={encodeQrPayload(selectedPrescription)}
                     size={200}
-                    level="H"
+                    level="M"
                     fgColor="#000"
                     bgColor="#fff"
                     style={{ maxWidth: "100%", height: "auto" }}
@@ -110,6 +116,11 @@ const PrescriptionCards = () => {
               <p className="text-sm text-center text-medineutral-600">
                 Show this QR code to your pharmacist to retrieve your medication
               </p>
+              {!selectedPrescription.qrSignature && (
+                <p className="text-xs text-center text-amber-700 mt-2">
+                  This QR code is not signed by your doctor. Your pharmacist will enter the token manually.
+                </p>
+              )}
             </div>
             
             <Alert>
@@ -178,15 +189,38 @@ const PrescriptionCards = () => {
                           {prescription.status === 'active' && (
                             <Badge className="ml-2 bg-medimint-500">Active</Badge>
                           )}
+                          {prescription.status === 'partially-dispensed' && (
+                            <Badge className="ml-2 bg-amber-500">Partially Dispensed</Badge>
+                          )}
                           {prescription.status === 'dispensed' && (
                             <Badge variant="outline" className="ml-2 text-medineutral-500">Dispensed</Badge>
                           )}
+                          {prescription.status === 'locked' && (
+                            <Badge variant="secondary" className="ml-2 bg-medineutral-200 text-medineutral-700">Locked today</Badge>
+                          )}
+                          {prescription.status === 'expired' && (
+                            <Badge variant="destructive" className="ml-2">Expired</Badge>
+                          )}
+                          {prescription.status === 'revoked' && (
+                            <Badge variant="destructive" className="ml-2">Revoked</Badge>
+                          )}
+                          {prescription.status === 'superseded' && (
+                            <Badge variant="outline" className="ml-2 text-medineutral-500">
+                              Replaced by {prescription.supersededBy}
+                            </Badge>
+                          )}
+                          <span className="ml-2">
+                            <ChainStatusBadge prescription={prescription} />
+                          </span>
+                          <span className="ml-2">
+                            <DoctorSignatureBadge prescription={prescription} />
+                          </span>
                         </div>
                         <p className="text-sm text-medineutral-600">Dr. {prescription.doctorName}</p>
                       </div>
                       
                       <div className="flex space-x-2">
-                        {prescription.status === 'active' && (
+                        {(prescription.status === 'active' || prescription.status === 'partially-dispensed') && (
                           <>
                             <Button 
                               variant="outline" 
@@ -217,14 +251,21 @@ const PrescriptionCards = () => {
                         Created: {format(new Date(prescription.created), 'MMM d, yyyy')}
                       </div>
                       
-                      {prescription.nextValidDose && (
+                      {prescription.nextValidDose && prescription.status === 'active' && (
                         <div className="flex items-center text-medimint-700">
                           <Clock size={14} className="mr-1" />
                           Next valid: {format(new Date(prescription.nextValidDose), 'MMM d, yyyy')}
                         </div>
                       )}
+
+                      {prescription.refills > 1 && (
+                        <div className="flex items-center text-medineutral-600">
+                          <RefreshCw size={14} className="mr-1" />
+                          Refills: {prescription.refillsRemaining} of {prescription.refills} left
+                        </div>
+                      )}
                       
-                      {prescription.status === 'dispensed' && prescription.dispensedDates.length > 0 && (
+                      {prescription.dispensedDates.length > 0 && (
                         <div className="flex items-center text-medineutral-600">
                           <Bell size={14} className="mr-1" />
                           Last dispensed: {format(new Date(prescription.dispensedDates[prescription.dispensedDates.length - 1]), 'MMM d, yyyy')}
@@ -261,7 +302,10 @@ const PrescriptionCards = () => {
                                 <div key={idx} className="text-sm rounded-md p-2 bg-white border border-medineutral-200">
                                   <div className="font-medium">{med.medicine.name}</div>
                                   <div className="text-medineutral-600 flex justify-between mt-1">
-                                    <span>Quantity: {med.quantity}</span>
+                                    <span>
+                                      Quantity: {med.quantity}
+                                      {prescription.status === 'partially-dispensed' && ` (${med.remainingQuantity} still to collect)`}
+                                    </span>
                                     <span>{med.dosage}</span>
                                   </div>
                                 </div>
@@ -278,16 +322,16 @@ const PrescriptionCards = () => {
                             </div>
                           )}
 
-                          {prescription.lockDates.length > 0 && (
+                          {prescription.locks.length > 0 && (
                             <div className="p-2 bg-medineutral-100 rounded-md">
                               <h4 className="text-sm font-medium flex items-center">
                                 <Lock size={14} className="mr-1.5" />
-                                Lock Dates
+                                Locks
                               </h4>
                               <div className="mt-1 text-sm text-medineutral-600">
-                                {prescription.lockDates.map((date, idx) => (
+                                {prescription.locks.map((lock, idx) => (
                                   <span key={idx} className="inline-block mr-2 mb-1 px-2 py-0.5 bg-white rounded border">
-                                    {format(new Date(date), 'MMM d, yyyy')}
+                                    {describeLock(lock)}
                                   </span>
                                 ))}
                               </div>
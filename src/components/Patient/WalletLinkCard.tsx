@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Wallet, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { PatientService } from '@/services/PatientService';
+import { PatientWallet } from '@/services/storage';
+
+// Lets a patient prove ownership of their wallet so doctors can prescribe to it on chain
+const WalletLinkCard = () => {
+  const { user, isWalletConnected, walletAddress, connectWallet } = useAuth();
+  const [wallet, setWallet] = useState<PatientWallet | null>(null);
+  const [linking, setLinking] = useState(false);
+
+  useEffect(() => {
+    const loadWallet = async () => {
+      if (!user?.id) return;
+
+      try {
+        const data = await PatientService.getPatientWallet(user.id);
+        setWallet(data);
+      } catch (error) {
+        console.error('Failed to load wallet link:', error);
+      }
+    };
+
+    loadWallet();
+  }, [user]);
+
+  const handleLink = async () => {
+    if (!user?.id) return;
+
+    setLinking(true);
+    try {
+      const linked = await PatientService.linkWallet(user);
+      if (linked) {
+        setWallet(linked);
+      }
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const isCurrentWalletLinked = !!wallet && wallet.address.toLowerCase() === walletAddress?.toLowerCase();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wallet className="mr-2 h-5 w-5" />
+          Linked Wallet
+        </CardTitle>
+        <CardDescription>
+          Doctors can only record prescriptions on the blockchain for patients with a verified wallet
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {wallet ? (
+          <div className="flex items-center justify-between p-3 bg-medimint-50 rounded-md border border-medimint-200">
+            <div>
+              <p className="font-mono text-sm break-all">{wallet.address}</p>
+              <p className="text-xs text-medineutral-600 mt-1">
+                Verified {format(new Date(wallet.verifiedAt), 'MMM d, yyyy')}
+              </p>
+            </div>
+            <Badge className="bg-medimint-500 flex items-center gap-1">
+              <ShieldCheck size={12} />
+              Verified
+            </Badge>
+          </div>
+        ) : (
+          <p className="text-sm text-medineutral-600">No wallet linked yet.</p>
+        )}
+
+        {!isWalletConnected ? (
+          <Button variant="outline" onClick={connectWallet}>
+            <Wallet className="h-4 w-4 mr-2" />
+            Connect Wallet
+          </Button>
+        ) : !isCurrentWalletLinked && (
+          <Button onClick={handleLink} disabled={linking}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {linking ? 'Waiting for signature...' : wallet ? 'Link connected wallet instead' : 'Link connected wallet'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WalletLinkCard;
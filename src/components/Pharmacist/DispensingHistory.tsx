@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Separator } from '@/components/ui/separator';
+import { FileText, ExternalLink } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Prescription, PrescriptionService } from '@/services/PrescriptionService';
+import { DispenseEvent } from '@/services/storage';
+import { TransactionReceiptSummary, Web3Service, useWeb3 } from '@/services/Web3Service';
+import { getExplorerTxUrl } from '@/services/networks';
+
+const PAGE_SIZE = 10;
+
+type ChainFilter = 'all' | 'confirmed' | 'queued' | 'not-recorded';
+type PharmacistFilter = 'all' | 'mine';
+
+// Format hash or address for display
+const shorten = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const DispensingHistory = () => {
+  const { user } = useAuth();
+  const { network, isConnected } = useWeb3();
+  const [events, setEvents] = useState<DispenseEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [chainFilter, setChainFilter] = useState<ChainFilter>('all');
+  const [pharmacistFilter, setPharmacistFilter] = useState<PharmacistFilter>('all');
+  const [page, setPage] = useState(1);
+  const [selectedEvent, setSelectedEvent] = useState<DispenseEvent | null>(null);
+  const [selectedPrescription, setSelectedPrescription] = useState<Prescription | null>(null);
+  const [receipt, setReceipt] = useState<TransactionReceiptSummary | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      try {
+        const data = await PrescriptionService.getDispenseEvents();
+        setEvents(data);
+      } catch (error) {
+        console.error('Failed to load dispensing history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvents();
+  }, []);
+
+  // Load the prescription and on-chain receipt for the selected event
+  useEffect(() => {
+    setSelectedPrescription(null);
+    setReceipt(null);
+    if (!selectedEvent) return;
+
+    const loadDetails = async () => {
+      setDetailLoading(true);
+      try {
+        const [prescription, txReceipt] = await Promise.all([
+          PrescriptionService.getPrescriptionByToken(selectedEvent.tokenId),
+          selectedEvent.blockchainTxHash
+            ? Web3Service.getTransactionReceipt(selectedEvent.blockchainTxHash)
+            : Promise.resolve(null),
+        ]);
+        setSelectedPrescription(prescription);
+        setReceipt(txReceipt);
+      } catch (error) {
+        console.error('Failed to load dispense details:', error);
+      } finally {
+        setDetailLoading(false);
+      }
+    };
+
+    loadDetails();
+  }, [selectedEvent]);
+
+  const filteredEvents = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return events.filter(event => {
+      if (chainFilter !== 'all' && event.chainStatus !== chainFilter) return false;
+      if (pharmacistFilter === 'mine' && event.pharmacistId !== user?.id) return false;
+      if (!needle) return true;
+      return (
+        event.tokenId.toLowerCase().includes(needle) ||
+        event.pharmacistName.toLowerCase().includes(needle) ||
+        event.medicines.some(line => line.medicineName.toLowerCase().includes(needle))
+      );
+    });
+  }, [events, search, chainFilter, pharmacistFilter, user]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredEvents.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageEvents = filteredEvents.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  const explorerUrl = selectedEvent?.blockchainTxHash && network
+    ? getExplorerTxUrl(network, selectedEvent.blockchainTxHash)
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dispensing History</CardTitle>
+        <CardDescription>
+          View recent prescription dispensing history
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <Input
+            placeholder="Search token, medicine or pharmacist"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+          />
+          <Select
+            value={chainFilter}
+            onValueChange={(value) => {
+              setChainFilter(value as ChainFilter);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All chain statuses</SelectItem>
+              <SelectItem value="confirmed">Confirmed on chain</SelectItem>
+              <SelectItem value="queued">Waiting to sync</SelectItem>
+              <SelectItem value="not-recorded">Not on chain</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={pharmacistFilter}
+            onValueChange={(value) => {
+              setPharmacistFilter(value as PharmacistFilter);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All pharmacists</SelectItem>
+              <SelectItem value="mine">Dispensed by me</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="space-y-2">
+            {Array(3).fill(null).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : filteredEvents.length === 0 ? (
+          <div className="text-center py-8 text-medineutral-500">
+            <FileText className="mx-auto h-12 w-12 opacity-30" />
+            <p className="mt-2">
+              {events.length === 0 ? 'Dispensing history will appear here' : 'No dispense events match your filters'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Token ID</TableHead>
+                  <TableHead>Medicines</TableHead>
+                  <TableHead>Pharmacist</TableHead>
+                  <TableHead>Chain</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageEvents.map(event => (
+                  <TableRow
+                    key={event.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedEvent(event)}
+                  >
+                    <TableCell>{format(event.dispensedAt, 'MMM d, yyyy HH:mm')}</TableCell>
+                    <TableCell className="font-medium font-mono">{event.tokenId}</TableCell>
+                    <TableCell>
+                      {event.medicines.map(line => `${line.medicineName} ×${line.quantity}`).join(', ')}
+                    </TableCell>
+                    <TableCell>{event.pharmacistName}</TableCell>
+                    <TableCell>
+                      {event.chainStatus === 'confirmed' ? (
+                        <Badge className="bg-medimint-500">Confirmed</Badge>
+                      ) : event.chainStatus === 'queued' ? (
+                        <Badge variant="outline" className="text-amber-700 border-amber-300">Waiting to sync</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-medineutral-500">Not on chain</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious href="#" onClick={(e) => goToPage(e, currentPage - 1)} />
+                  </PaginationItem>
+                  {Array.from({ length: pageCount }, (_, i) => i + 1).map(n => (
+                    <PaginationItem key={n}>
+                      <PaginationLink href="#" isActive={n === currentPage} onClick={(e) => goToPage(e, n)}>
+                        {n}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext href="#" onClick={(e) => goToPage(e, currentPage + 1)} />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Dispense {selectedEvent?.tokenId}</DialogTitle>
+          </DialogHeader>
+          {selectedEvent && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-medineutral-500">Dispensed</p>
+                  <p className="font-medium">{format(selectedEvent.dispensedAt, 'MMMM d, yyyy HH:mm')}</p>
+                </div>
+                <div>
+                  <p className="text-medineutral-500">Pharmacist</p>
+                  <p className="font-medium">{selectedEvent.pharmacistName}</p>
+                  {selectedEvent.pharmacistWallet && (
+                    <p className="font-mono text-xs">{shorten(selectedEvent.pharmacistWallet)}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-medineutral-500">Handed over</p>
+                {selectedEvent.medicines.map((line, idx) => (
+                  <div key={idx} className="flex justify-between bg-medineutral-50 rounded p-2">
+                    <span>{line.medicineName}</span>
+                    <span>Qty: {line.quantity}</span>
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+
+              {detailLoading ? (
+                <Skeleton className="h-20 w-full" />
+              ) : (
+                <>
+                  <div>
+                    <p className="text-medineutral-500 mb-1">Prescription</p>
+                    {selectedPrescription ? (
+                      <p>
+                        {selectedPrescription.patientName} · {selectedPrescription.disease} · prescribed by{' '}
+                        {selectedPrescription.doctorName} on {format(selectedPrescription.created, 'MMM d, yyyy')}
+                      </p>
+                    ) : (
+                      <p className="text-medineutral-500">Prescription record not found</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <p className="text-medineutral-500 mb-1">Blockchain receipt</p>
+                    {!selectedEvent.blockchainTxHash ? (
+                      <p className="text-medineutral-500">
+                        {selectedEvent.chainStatus === 'queued'
+                          ? 'This dispense is queued and will be recorded when the wallet reconnects'
+                          : 'This dispense was not recorded on the blockchain'}
+                      </p>
+                    ) : receipt ? (
+                      <div className="space-y-1">
+                        <p className="font-mono break-all">{receipt.hash}</p>
+                        <p>
+                          Block {receipt.blockNumber} · {receipt.confirmations} confirmations · gas {receipt.gasUsed}
+                        </p>
+                        <p>Status: {receipt.status === 'success' ? 'Success' : 'Reverted'}</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-1">
+                        <p className="font-mono break-all">{selectedEvent.blockchainTxHash}</p>
+                        <p className="text-medineutral-500">
+                          {isConnected ? 'Receipt not found on the current network' : 'Connect your wallet to load the receipt'}
+                        </p>
+                      </div>
+                    )}
+                    {explorerUrl && (
+                      <a
+                        href={explorerUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center mt-2 text-mediblue-600 hover:underline"
+                      >
+                        View on explorer
+                        <ExternalLink className="h-3 w-3 ml-1" />
+                      </a>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DispensingHistory;
@@ -3,10 +3,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { QrCode, FileText, ArrowRight, History } from 'lucide-react';
+import { QrCode, ArrowRight, History } from 'lucide-react';
 import { PrescriptionService } from '@/services/PrescriptionService';
 import { useAuth } from '@/contexts/AuthContext';
 import PrescriptionVerification from './PrescriptionVerification';
+import DispensingHistory from './DispensingHistory';
 
 const PharmacistDashboard = () => {
   const { user } = useAuth();
@@ -109,20 +110,7 @@ const PharmacistDashboard = () => {
         </TabsContent>
         
         <TabsContent value="inventory" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Dispensing History</CardTitle>
-              <CardDescription>
-                View recent prescription dispensing history
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-8 text-medineutral-500">
-                <FileText className="mx-auto h-12 w-12 opacity-30" />
-                <p className="mt-2">Dispensing history will appear here</p>
-              </div>
-            </CardContent>
-          </Card>
+          <DispensingHistory />
         </TabsContent>
       </Tabs>
     </div>
@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
 import { 
   CheckCircle2, 
   XCircle, 
@@ -16,12 +17,30 @@ import {
   DatabaseBackup,
   Lock,
   Unlock,
-  QrCode
+  QrCode,
+  ShieldCheck,
+  ShieldAlert,
+  Ban,
+  History
 } from 'lucide-react';
 import { format } from 'date-fns';
-import { Prescription, PrescriptionService } from '@/services/PrescriptionService';
+import { Medicine, MedicineIntegrity, Prescription, PrescriptionService } from '@/services/PrescriptionService';
+import { deriveStatus, describeLock, getActiveLock, getDispenseBlock } from '@/services/prescriptionLifecycle';
+import { QrVerification, hashContractToken } from '@/services/prescriptionQr';
+import { PatientService } from '@/services/PatientService';
+import { ContraindicationFlag, checkContraindications } from '@/services/contraindicationChecker';
 import { toast } from 'sonner';
 import QRCodeScanner from './QRCodeScanner';
+import ChainStatusBadge from '@/components/Blockchain/ChainStatusBadge';
+import DoctorSignatureBadge from '@/components/Blockchain/DoctorSignatureBadge';
+import ContraindicationFlags from '@/components/Clinical/ContraindicationFlags';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Units of a medicine currently in stock (zero when unavailable)
+const getStockQuantity = (stock: Medicine[], medicineId: string) => {
+  const medicine = stock.find(m => m.id === medicineId);
+  return medicine?.available ? medicine.quantity : 0;
+};
 
 interface PrescriptionVerificationProps {
   token?: string;
@@ -29,6 +48,7 @@ interface PrescriptionVerificationProps {
 }
 
 const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationProps) => {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [dispensing, setDispensing] = useState(false);
   const [prescription, setPrescription] = useState<Prescription | null>(null);
@@ -36,6 +56,14 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
   const [dispensed, setDispensed] = useState(false);
   const [currentToken, setCurrentToken] = useState<string | undefined>(token);
   const [scanMode, setScanMode] = useState<boolean>(!token);
+  const [integrity, setIntegrity] = useState<MedicineIntegrity | null>(null);
+  const [stock, setStock] = useState<Medicine[]>([]);
+  // Quantity of each line (by position, as a medicine may be listed twice) to hand over in this dispense
+  const [handover, setHandover] = useState<number[]>([]);
+  // Signature check of the scanned QR code, when the token came from a scan
+  const [qrVerification, setQrVerification] = useState<QrVerification | null>(null);
+  // Prescribed medicines that clash with the patient's current clinical profile
+  const [contraindicationFlags, setContraindicationFlags] = useState<ContraindicationFlag[]>([]);
 
   const verifyPrescription = async (tokenToVerify: string) => {
     setLoading(true);
@@ -61,19 +89,61 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
     }
   }, [currentToken]);
 
-  const handleDispense = async () => {
+  // Check every medicine line against the hash committed on chain
+  useEffect(() => {
+    setIntegrity(null);
+    if (!prescription) return;
+
+    PrescriptionService.verifyMedicineIntegrity(prescription)
+      .then(setIntegrity)
+      .catch(err => {
+        console.error('Failed to verify medicine integrity:', err);
+        setIntegrity({ status: 'unavailable', detail: 'Could not check the blockchain record' });
+      });
+  }, [prescription]);
+
+  // Check the medicines against the patient's allergies and conditions as recorded now
+  useEffect(() => {
+    setContraindicationFlags([]);
     if (!prescription) return;
+
+    PatientService.getPatientProfile(prescription.patientId)
+      .then(profile => setContraindicationFlags(
+        checkContraindications(prescription.medicines.map(line => line.medicine), profile)
+      ))
+      .catch(err => console.error('Failed to load clinical profile:', err));
+  }, [prescription]);
+
+  // Load current stock and default each line to what is owed, capped by stock
+  useEffect(() => {
+    if (!prescription) return;
+
+    PrescriptionService.getAvailableMedicines()
+      .then(medicines => {
+        setStock(medicines);
+        // Lines of the same medicine share its stock, earlier lines first
+        const taken = new Map<string, number>();
+        setHandover(prescription.medicines.map(line => {
+          const left = getStockQuantity(medicines, line.medicine.id) - (taken.get(line.medicine.id) ?? 0);
+          const quantity = Math.max(0, Math.min(line.remainingQuantity, left));
+          taken.set(line.medicine.id, (taken.get(line.medicine.id) ?? 0) + quantity);
+          return quantity;
+        }));
+      })
+      .catch(err => console.error('Failed to load stock:', err));
+  }, [prescription]);
+
+  const handleDispense = async () => {
+    if (!prescription || !user) return;
     
     setDispensing(true);
     try {
-      await PrescriptionService.dispensePrescription(currentToken!);
+      const lines = handover.map((quantity, lineIndex) => ({ lineIndex, quantity }));
+      await PrescriptionService.dispensePrescription(currentToken!, user, lines);
       // Update prescription data
       const updatedPrescription = await PrescriptionService.getPrescriptionByToken(currentToken!);
       setPrescription(updatedPrescription);
       setDispensed(true);
-      toast.success('Prescription dispensed successfully', {
-        description: 'Blockchain record has been updated'
-      });
     } catch (err: any) {
       toast.error('Failed to dispense prescription', {
         description: err.message || 'An error occurred'
@@ -83,37 +153,57 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
     }
   };
 
-  const handleTokenDetected = (newToken: string) => {
+  const handleTokenDetected = (newToken: string, qr?: QrVerification) => {
+    setQrVerification(qr ?? null);
     setCurrentToken(newToken);
     setScanMode(false);
   };
 
-  // Check if prescription is locked today
-  const isLockedToday = () => {
-    if (!prescription) return false;
-    
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    return prescription.lockDates.some(lockDate => {
-      const lockDay = new Date(lockDate);
-      lockDay.setHours(0, 0, 0, 0);
-      return lockDay.getTime() === today.getTime();
-    });
-  };
+  // Status and dispense restrictions as of now, from the shared lifecycle rules
+  const status = prescription ? deriveStatus(prescription) : null;
+  const activeLock = prescription ? getActiveLock(prescription) : null;
+  const lockedToday = activeLock !== null;
+  const refillBlock = prescription ? getDispenseBlock(prescription) : null;
+  // A signed QR must point at the same contract token as the stored record
+  const qrMismatch = !!(
+    prescription &&
+    qrVerification?.contractTokenHash &&
+    qrVerification.tokenId === prescription.tokenId &&
+    (!prescription.contractToken ||
+      hashContractToken(prescription.contractToken) !== qrVerification.contractTokenHash)
+  );
+  // A signed QR must come from the doctor who issued the prescription, not just any registered doctor
+  const qrWrongDoctor = !!(
+    prescription &&
+    qrVerification?.doctorId &&
+    qrVerification.tokenId === prescription.tokenId &&
+    qrVerification.doctorId !== prescription.doctorId
+  );
+  // Once a prescription's QR was signed, only a scan of a signed code counts: an unsigned code or a typed token
+  // could be a copy with the signature stripped off
+  const qrSignatureMissing = !!(
+    prescription?.qrSignature &&
+    (!qrVerification || qrVerification.tokenId !== prescription.tokenId || qrVerification.status === 'unsigned')
+  );
+  // Codes for prescriptions that were never signed are still accepted, with a warning
+  const qrUnsigned = !!prescription && !prescription.qrSignature &&
+    qrVerification?.status === 'unsigned' && qrVerification.tokenId === prescription.tokenId;
 
   // Determine if prescription is dispensable
   const isDispensable = () => {
     if (!prescription) return false;
-    if (prescription.status !== 'active') return false;
-    if (isLockedToday()) return false;
-    
-    const now = new Date();
-    if (now > new Date(prescription.doseValidity)) return false;
+    if (refillBlock) return false;
+    if (integrity?.status === 'tampered') return false;
+    if (qrMismatch) return false;
+    if (qrWrongDoctor) return false;
+    if (qrSignatureMissing) return false;
+    if (!handover.some(quantity => quantity > 0)) return false;
     
     return true;
   };
 
+  const partiallyDispensed = status === 'partially-dispensed';
+
   if (scanMode) {
     return <QRCodeScanner onTokenDetected={handleTokenDetected} />;
   }
@@ -177,19 +267,85 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
               ) : (
                 <ClipboardCheck className="mr-2 h-5 w-5" />
               )}
-              {dispensed ? 'Prescription Dispensed' : 'Prescription Verified'}
+              {dispensed
+                ? partiallyDispensed ? 'Prescription Partially Dispensed' : 'Prescription Dispensed'
+                : 'Prescription Verified'}
             </CardTitle>
             <p className="text-sm text-medineutral-600 mt-1">Token: {prescription.tokenId}</p>
+            {qrVerification?.status === 'valid' && qrVerification.tokenId === prescription.tokenId && !qrMismatch && !qrWrongDoctor && (
+              <span className="inline-flex items-center text-xs px-2 py-0.5 mt-1 rounded bg-green-100 text-green-800">
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                QR signature verified: {qrVerification.doctorName}
+              </span>
+            )}
+            {qrUnsigned && (
+              <span
+                title="The scanned QR code carries no doctor's signature. Check the details with the patient before dispensing."
+                className="inline-flex items-center text-xs px-2 py-0.5 mt-1 rounded bg-amber-100 text-amber-800"
+              >
+                <ShieldAlert className="h-3 w-3 mr-1" />
+                Unsigned QR code
+              </span>
+            )}
           </div>
           <Badge 
-            className={prescription.status === 'active' ? 'bg-medimint-500' : 'bg-medineutral-400'}
+            className={
+              status === 'active'
+                ? 'bg-medimint-500'
+                : partiallyDispensed
+                ? 'bg-amber-500'
+                : 'bg-medineutral-400'
+            }
           >
-            {prescription.status.charAt(0).toUpperCase() + prescription.status.slice(1)}
+            {status && (status.charAt(0).toUpperCase() + status.slice(1)).replace('-', ' ')}
           </Badge>
         </div>
       </CardHeader>
       
       <CardContent className="space-y-6">
+        {/* Revoked or replaced by the issuing doctor */}
+        {status === 'revoked' && (
+          <Alert variant="destructive">
+            <Ban className="h-4 w-4" />
+            <AlertTitle>Prescription Revoked</AlertTitle>
+            <AlertDescription>
+              Revoked by {prescription.doctorName}
+              {prescription.revokedAt && ` on ${format(new Date(prescription.revokedAt), 'MMMM d, yyyy')}`}.
+              {prescription.revocationReason && (
+                <span className="block mt-1">Reason: {prescription.revocationReason}</span>
+              )}
+              <span className="block mt-1">Do not dispense. Ask the patient to contact their doctor.</span>
+            </AlertDescription>
+          </Alert>
+        )}
+        {status === 'superseded' && prescription.supersededBy && (
+          <Alert variant="destructive">
+            <History className="h-4 w-4" />
+            <AlertTitle>Prescription Superseded</AlertTitle>
+            <AlertDescription>
+              <span className="block">
+                {prescription.doctorName} amended this prescription. It was replaced by {prescription.supersededBy}.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                onClick={() => {
+                  setDispensed(false);
+                  setCurrentToken(prescription.supersededBy);
+                }}
+              >
+                Open current version
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+        {prescription.supersedes && status !== 'superseded' && (
+          <p className="text-sm text-medineutral-600">
+            This is an amended version of {prescription.supersedes}.
+          </p>
+        )}
+
         {/* Patient Info */}
         <div className="space-y-3">
           <h3 className="text-lg font-medium">Patient Information</h3>
@@ -219,28 +375,128 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
         
         {/* Medicines */}
         <div className="space-y-3">
-          <h3 className="text-lg font-medium">Prescribed Medicines</h3>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium">Prescribed Medicines</h3>
+            {integrity && (
+              <span
+                title={integrity.detail}
+                className={`flex items-center text-xs px-2 py-0.5 rounded ${
+                  integrity.status === 'verified'
+                    ? 'bg-green-100 text-green-800'
+                    : integrity.status === 'tampered'
+                    ? 'bg-red-100 text-red-800'
+                    : integrity.status === 'legacy'
+                    ? 'bg-amber-100 text-amber-800'
+                    : 'bg-medineutral-100 text-medineutral-700'
+                }`}
+              >
+                {integrity.status === 'tampered' || integrity.status === 'legacy' ? (
+                  <ShieldAlert className="h-3 w-3 mr-1" />
+                ) : (
+                  <ShieldCheck className="h-3 w-3 mr-1" />
+                )}
+                {integrity.status === 'verified'
+                  ? 'Integrity verified'
+                  : integrity.status === 'tampered'
+                  ? 'Integrity check failed'
+                  : integrity.status === 'legacy'
+                  ? 'Partially verified'
+                  : integrity.status === 'unrecorded'
+                  ? 'Not on blockchain'
+                  : 'Not checked'}
+              </span>
+            )}
+          </div>
+          {integrity?.status === 'legacy' && (
+            <Alert className="bg-amber-50 border-amber-200 text-amber-800">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Medicines only partly verified</AlertTitle>
+              <AlertDescription>
+                {integrity.detail}. Check the medicines against the patient's copy before dispensing.
+              </AlertDescription>
+            </Alert>
+          )}
           <div className="space-y-3">
-            {prescription.medicines.map((med, index) => (
-              <div key={index} className="bg-white rounded-md p-4 border border-medineutral-200">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <h4 className="font-medium">{med.medicine.name}</h4>
-                    <p className="text-sm text-medineutral-600">{med.dosage}</p>
-                  </div>
-                  <div className="text-right">
-                    <span className="bg-medineutral-100 text-medineutral-800 text-sm px-3 py-1 rounded-full">
-                      Qty: {med.quantity}
-                    </span>
-                    
-                    {!med.medicine.available && (
-                      <p className="text-xs text-destructive mt-1">Out of stock</p>
-                    )}
+            {prescription.medicines.map((med, index) => {
+              const inStock = getStockQuantity(stock, med.medicine.id);
+              // Stock not already handed over on another line of the same medicine
+              const otherLines = prescription.medicines.reduce(
+                (sum, other, otherIndex) =>
+                  otherIndex !== index && other.medicine.id === med.medicine.id ? sum + (handover[otherIndex] ?? 0) : sum,
+                0
+              );
+              const maxHandover = Math.max(0, Math.min(med.remainingQuantity, inStock - otherLines));
+              return (
+                <div key={index} className="bg-white rounded-md p-4 border border-medineutral-200">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h4 className="font-medium">{med.medicine.name}</h4>
+                      <p className="text-sm text-medineutral-600">{med.dosage}</p>
+                      {med.doseOverrideReason && (
+                        <p className="text-xs text-red-700">Dose outside the usual range. Doctor's reason: {med.doseOverrideReason}</p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <span className="bg-medineutral-100 text-medineutral-800 text-sm px-3 py-1 rounded-full">
+                        Qty: {med.quantity}
+                      </span>
+                      {med.remainingQuantity < med.quantity && (
+                        <p className="text-xs text-medineutral-600 mt-1">{med.remainingQuantity} still to dispense</p>
+                      )}
+                      
+                      {inStock === 0 && med.remainingQuantity > 0 && (
+                        <p className="text-xs text-destructive mt-1">Out of stock</p>
+                      )}
+                    </div>
                   </div>
+                  {!dispensed && !refillBlock && med.remainingQuantity > 0 && (
+                    <div className="flex items-center justify-end gap-2 mt-3 text-sm">
+                      <label htmlFor={`handover-${index}`} className="text-medineutral-600">
+                        Hand over
+                      </label>
+                      <Input
+                        id={`handover-${index}`}
+                        type="number"
+                        min={0}
+                        max={maxHandover}
+                        className="w-24"
+                        value={handover[index] ?? 0}
+                        onChange={(e) => {
+                          const quantity = Math.max(0, Math.min(maxHandover, Number(e.target.value) || 0));
+                          setHandover(prev => prev.map((current, i) => (i === index ? quantity : current)));
+                        }}
+                      />
+                      <span className="text-medineutral-500">of {med.remainingQuantity}</span>
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
+          <ContraindicationFlags
+            flags={contraindicationFlags}
+            title={`Check with the patient before dispensing: ${contraindicationFlags.length} allergy or contraindication flag${contraindicationFlags.length === 1 ? '' : 's'}`}
+          >
+            {prescription.contraindicationOverride && (
+              <p className="text-sm text-red-800">
+                The doctor prescribed despite this. Reason: {prescription.contraindicationOverride.reason}
+              </p>
+            )}
+          </ContraindicationFlags>
+          {prescription.interactionOverride && (
+            <Alert className="bg-amber-50 border-amber-200 text-amber-800">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Prescribed despite major interactions</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {prescription.interactionOverride.interactions.map(interaction => (
+                    <li key={interaction}>{interaction}</li>
+                  ))}
+                </ul>
+                <span className="block mt-1">Doctor's reason: {prescription.interactionOverride.reason}</span>
+              </AlertDescription>
+            </Alert>
+          )}
         </div>
         
         <Separator />
@@ -269,43 +525,68 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
               <div className="flex items-center text-medineutral-700 mb-1">
                 <DatabaseBackup className="h-4 w-4 mr-2" />
                 <span className="font-medium text-sm">Blockchain Status</span>
+                <span className="ml-auto flex items-center gap-1">
+                  <DoctorSignatureBadge prescription={prescription} />
+                  <ChainStatusBadge prescription={prescription} />
+                </span>
               </div>
               <p className="flex items-center">
-                {prescription.status === 'active' ? (
+                {!refillBlock ? (
                   <>
                     <span className="bg-green-100 text-green-800 text-xs px-2 py-0.5 rounded mr-2">
                       Valid
                     </span>
                     Active & Ready to Dispense
                   </>
+                ) : status === 'active' ? (
+                  <>
+                    <span className="bg-amber-100 text-amber-800 text-xs px-2 py-0.5 rounded mr-2">
+                      Waiting
+                    </span>
+                    Next refill not yet due
+                  </>
+                ) : status === 'locked' ? (
+                  <>
+                    <span className="bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded mr-2">
+                      Locked
+                    </span>
+                    Not dispensable today
+                  </>
                 ) : (
                   <>
                     <span className="bg-medineutral-100 text-medineutral-800 text-xs px-2 py-0.5 rounded mr-2">
                       Used
                     </span>
-                    Already Dispensed
+                    {status === 'expired' ? 'Expired' : 'Already Dispensed'}
                   </>
                 )}
               </p>
+              <p className="text-sm text-medineutral-600 mt-1">
+                {prescription.refillsRemaining} of {prescription.refills} fill(s) remaining
+              </p>
             </div>
             
             <div className="bg-white p-3 rounded-md border border-medineutral-200">
               <div className="flex items-center text-medineutral-700 mb-1">
-                {isLockedToday() ? (
+                {lockedToday ? (
                   <Lock className="h-4 w-4 mr-2" />
                 ) : (
                   <Unlock className="h-4 w-4 mr-2" />
                 )}
                 <span className="font-medium text-sm">Locks & Restrictions</span>
               </div>
-              {prescription.lockDates.length > 0 ? (
-                <p>
-                  {isLockedToday() ? (
-                    <span className="text-destructive">Locked today</span>
-                  ) : (
-                    `${prescription.lockDates.length} lock date(s)`
-                  )}
-                </p>
+              {prescription.locks.length > 0 ? (
+                <ul className="space-y-1 text-sm">
+                  {prescription.locks.map((lock, idx) => (
+                    <li key={idx} className={lock === activeLock ? 'text-destructive' : ''}>
+                      {lock === activeLock && <span className="font-medium">Active now: </span>}
+                      {describeLock(lock)}
+                      {lock.reason && (
+                        <span className="block text-xs text-medineutral-500">Reason: {lock.reason}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
               ) : (
                 <p>No locks</p>
               )}
@@ -314,16 +595,22 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
         </div>
         
         {/* Alert for dispensed, locked, or expired prescriptions */}
-        {!isDispensable() && !dispensed && (
-          <Alert variant={prescription.status !== 'active' ? 'destructive' : 'default'}>
+        {!isDispensable() && !dispensed && status !== 'revoked' && status !== 'superseded' && (
+          <Alert variant={status !== 'active' && status !== 'partially-dispensed' ? 'destructive' : 'default'}>
             <AlertCircle className="h-4 w-4" />
             <AlertTitle>Cannot Dispense</AlertTitle>
             <AlertDescription>
-              {prescription.status !== 'active'
-                ? 'This prescription has already been dispensed.'
-                : isLockedToday()
-                ? 'This prescription is locked today.'
-                : 'This prescription has expired.'}
+              {refillBlock
+                ? `${refillBlock}.`
+                : integrity?.status === 'tampered'
+                ? integrity.detail
+                : qrMismatch
+                ? 'The scanned QR code does not match the recorded prescription. It may have been altered.'
+                : qrWrongDoctor
+                ? `The scanned QR code was signed by ${qrVerification?.doctorName}, not by ${prescription.doctorName} who issued this prescription.`
+                : qrSignatureMissing
+                ? "This prescription was issued with a signed QR code. Scan the patient's QR code to check the doctor's signature before dispensing."
+                : 'Select at least one medicine in stock to hand over.'}
             </AlertDescription>
           </Alert>
         )}
@@ -332,14 +619,22 @@ const PrescriptionVerification = ({ token, onReset }: PrescriptionVerificationPr
         {dispensed && (
           <Alert className="bg-medimint-50 border-medimint-200 text-medimint-800">
             <CheckSquare className="h-4 w-4 text-medimint-600" />
-            <AlertTitle>Successfully Dispensed</AlertTitle>
+            <AlertTitle>{partiallyDispensed ? 'Partially Dispensed' : 'Successfully Dispensed'}</AlertTitle>
             <AlertDescription>
-              Prescription has been dispensed and the blockchain record has been updated.
+              {partiallyDispensed
+                ? 'The remaining medicines can be collected here or at another pharmacy.'
+                : 'Prescription has been dispensed and the blockchain record has been updated.'}
               {prescription.dispensedDates.length > 0 && (
                 <span className="block mt-1">
                   Dispensed on: {format(new Date(prescription.dispensedDates[prescription.dispensedDates.length - 1]), 'MMMM d, yyyy')}
                 </span>
               )}
+              {prescription.nextValidDose && status === 'active' && (
+                <span className="block mt-1">
+                  Next refill available on: {format(new Date(prescription.nextValidDose), 'MMMM d, yyyy')}
+                  {' '}({prescription.refillsRemaining} remaining)
+                </span>
+              )}
             </AlertDescription>
           </Alert>
         )}
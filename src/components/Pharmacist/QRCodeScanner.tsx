@@ -5,12 +5,28 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
-import { QrCode, FileText, AlertCircle, ArrowRight, Camera, RefreshCw } from 'lucide-react';
+import { QrCode, FileText, AlertCircle, ArrowRight, Camera, RefreshCw, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  QrVerification,
+  RegisteredDoctor,
+  decodeQrPayload,
+  loadDoctorRegistry,
+  verifyQrPayload,
+} from '@/services/prescriptionQr';
 
 interface QRCodeScannerProps {
-  onTokenDetected: (token: string) => void;
+  onTokenDetected: (token: string, qr?: QrVerification) => void;
 }
 
+// Why a scanned QR code was rejected. Unsigned codes are looked up; they are only dispensable for
+// prescriptions that were never signed
+const QR_REJECTION_MESSAGES: Record<Exclude<QrVerification['status'], 'valid' | 'unsigned'>, string> = {
+  'bad-signature': 'The QR code signature is invalid. It may have been forged or altered.',
+  'unknown-doctor': 'The QR code was signed by a wallet that is not registered to any doctor.',
+  expired: 'This QR code has expired.',
+};
+
 const QRCodeScanner = ({ onTokenDetected }: QRCodeScannerProps) => {
   const [data, setData] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -20,6 +36,13 @@ const QRCodeScanner = ({ onTokenDetected }: QRCodeScannerProps) => {
   const [permissionGranted, setPermissionGranted] = useState<boolean | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [doctors, setDoctors] = useState<RegisteredDoctor[]>([]);
+  const [verification, setVerification] = useState<QrVerification | null>(null);
+
+  // Load the doctor registry up front so scans can be verified without a network round trip
+  useEffect(() => {
+    loadDoctorRegistry().then(setDoctors);
+  }, []);
 
   // Check for HTTPS
   const isSecureContext = window.isSecureContext;
@@ -79,14 +102,20 @@ const QRCodeScanner = ({ onTokenDetected }: QRCodeScannerProps) => {
   const handleScan = (result: any, error: any) => {
     if (!!result) {
       const text = result?.text;
+      // The reader keeps firing while the same code is in frame
+      if (!text || text === data) return;
       setData(text);
       
-      // Simple validation: check if the scanned text matches the expected format
-      if (text && text.startsWith('RX-')) {
-        onTokenDetected(text);
-      } else if (text) {
+      // Validate the payload format and check the doctor's signature locally before any lookup
+      const payload = decodeQrPayload(text);
+      if (!payload) {
+        setVerification(null);
         setError('Invalid QR code format. Please scan a valid prescription QR code.');
+        return;
       }
+      const checked = verifyQrPayload(payload, doctors);
+      setVerification(checked);
+      setError(checked.status === 'valid' || checked.status === 'unsigned' ? null : QR_REJECTION_MESSAGES[checked.status]);
     }
 
     if (!!error) {
@@ -214,7 +243,7 @@ const QRCodeScanner = ({ onTokenDetected }: QRCodeScannerProps) => {
               Switch Camera
             </Button>
             <div className="text-sm text-medineutral-500 flex items-center">
-              {data ? `Detected: ${data}` : 'Position QR code in frame'}
+              {verification ? `Detected: ${verification.tokenId}` : 'Position QR code in frame'}
             </div>
           </div>
         </div>
@@ -266,6 +295,50 @@ const QRCodeScanner = ({ onTokenDetected }: QRCodeScannerProps) => {
                 </Alert>
               )}
 
+              {verification?.status === 'valid' && (
+                <Alert className="bg-medimint-50 border-medimint-200 text-medimint-800">
+                  <ShieldCheck className="h-4 w-4 text-medimint-600" />
+                  <AlertDescription>
+                    <span className="block font-medium">
+                      {verification.tokenId} signed by {verification.doctorName}
+                    </span>
+                    {verification.expiresAt && (
+                      <span className="block text-sm">Valid until {format(verification.expiresAt, 'MMMM d, yyyy')}</span>
+                    )}
+                    <Button
+                      size="sm"
+                      className="mt-2"
+                      onClick={() => onTokenDetected(verification.tokenId, verification)}
+                    >
+                      Look up prescription
+                      <ArrowRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {verification?.status === 'unsigned' && (
+                <Alert className="bg-amber-50 border-amber-200 text-amber-800">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <span className="block font-medium">{verification.tokenId} is not signed</span>
+                    <span className="block text-sm">
+                      This QR code carries no doctor's signature, so it may have been altered. It can only be dispensed
+                      if the prescription was issued without a signed code; check the details with the patient.
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="mt-2"
+                      onClick={() => onTokenDetected(verification.tokenId, verification)}
+                    >
+                      Look up prescription
+                      <ArrowRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {renderCameraContent()}
             </div>
           </TabsContent>
@@ -295,7 +368,8 @@ const QRCodeScanner = ({ onTokenDetected }: QRCodeScannerProps) => {
               </div>
 
               <p className="text-sm text-medineutral-600">
-                Enter the prescription token exactly as shown on the patient's prescription
+                Enter the prescription token exactly as shown on the patient's prescription. Prescriptions issued
+                with a signed QR code can only be dispensed after scanning it.
               </p>
             </form>
           </TabsContent>
@@ -1,6 +1,8 @@
 import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
 import { toast } from 'sonner';
 import { Web3Service } from '@/services/Web3Service';
+import { getRepository } from '@/services/storage';
+import { SiweService, SiweSession } from '@/services/SiweService';
 
 // Define user roles
 export type UserRole = 'doctor' | 'patient' | 'pharmacist' | null;
@@ -11,7 +13,8 @@ export interface User {
   name: string;
   email: string;
   role: UserRole;
-  ethereumAddress?: string; // New field for wallet address
+  // Wallet the user proved control of with Sign-In With Ethereum; never just the wallet that happens to be connected
+  ethereumAddress?: string;
 }
 
 // Define auth context interface
@@ -20,6 +23,7 @@ interface AuthContextType {
   role: UserRole;
   isAuthenticated: boolean;
   login: (email: string, password: string, role: UserRole) => Promise<void>;
+  loginWithEthereum: (email: string, role: UserRole) => Promise<void>;
   signup: (name: string, email: string, password: string, role: UserRole) => Promise<void>;
   logout: () => void;
   switchRole: (role: UserRole) => void;
@@ -28,21 +32,18 @@ interface AuthContextType {
   walletAddress: string | null;
   connectWallet: () => Promise<void>;
   disconnectWallet: () => void;
+  // Set when the session was proven with Sign-In With Ethereum
+  siweSession: SiweSession | null;
+  isAddressVerified: boolean;
 }
 
-// Mock users for demo
-const mockUsers: User[] = [
-  { id: '1', name: 'Dr. John Smith', email: 'doctor@example.com', role: 'doctor' },
-  { id: '2', name: 'Jane Doe', email: 'patient@example.com', role: 'patient' },
-  { id: '3', name: 'Mark Wilson', email: 'pharmacist@example.com', role: 'pharmacist' },
-];
-
 // Create context with default values
 const AuthContext = createContext<AuthContextType>({
   user: null,
   role: null,
   isAuthenticated: false,
   login: async () => {},
+  loginWithEthereum: async () => {},
   signup: async () => {},
   logout: () => {},
   switchRole: () => {},
@@ -50,14 +51,41 @@ const AuthContext = createContext<AuthContextType>({
   walletAddress: null,
   connectWallet: async () => {},
   disconnectWallet: () => {},
+  siweSession: null,
+  isAddressVerified: false,
 });
 
+// Have the wallet sign a Sign-In With Ethereum message and verify it against a backend-issued nonce.
+// Resolves with the session, or null once the user has been told why the wallet could not be verified
+const proveWalletControl = async (address: string, chainId: number, statement: string): Promise<SiweSession | null> => {
+  try {
+    const message = await SiweService.createMessage(address, chainId, statement);
+    const signature = await Web3Service.signMessage(message);
+    if (!signature) {
+      return null;
+    }
+    return await SiweService.verify(message, signature);
+  } catch (error) {
+    toast.error('Wallet verification failed', {
+      description: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+};
+
 // Auth provider component
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [role, setRole] = useState<UserRole>(null);
   const [isWalletConnected, setIsWalletConnected] = useState<boolean>(false);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [siweSession, setSiweSession] = useState<SiweSession | null>(null);
+
+  // Services check chain writes and doctor signatures against the session, so keep it there too
+  const updateSession = (session: SiweSession | null) => {
+    SiweService.setSession(session);
+    setSiweSession(session);
+  };
 
   // Listen for wallet connection changes
   useEffect(() => {
@@ -65,33 +93,36 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setIsWalletConnected(state.isConnected);
       setWalletAddress(state.address);
       
-      // If user is already logged in, update their Ethereum address
-      if (user && state.address) {
-        setUser(prev => prev ? {...prev, ethereumAddress: state.address} : null);
+      // A SIWE session is bound to the address that signed in; any other account ends it
+      if (siweSession && state.address?.toLowerCase() !== siweSession.address.toLowerCase()) {
+        SiweService.setSession(null);
+        setSiweSession(null);
+        setUser(null);
+        setRole(null);
+        toast.warning('Signed out', {
+          description: 'The wallet account changed from the one you signed in with.',
+        });
       }
     });
     
     return () => {
       unsubscribe();
     };
-  }, [user]);
+  }, [siweSession]);
 
   // Mock login function
   const login = async (email: string, password: string, selectedRole: UserRole): Promise<void> => {
     // Simulate API call delay
     await new Promise(resolve => setTimeout(resolve, 1000));
     
-    const foundUser = mockUsers.find(u => u.email === email && u.role === selectedRole);
+    const users = await getRepository().getUsers();
+    const foundUser = users.find(u => u.email === email && u.role === selectedRole);
     
     if (foundUser) {
-      // Update with wallet address if already connected
-      const web3State = Web3Service.getState();
-      const userWithWallet = {
-        ...foundUser,
-        ethereumAddress: web3State.address || undefined
-      };
-      
-      setUser(userWithWallet);
+      // A password sign-in proves nothing about the connected wallet, so nothing is signed or sent on chain
+      // until the user signs in with Ethereum
+      updateSession(null);
+      setUser(foundUser);
       setRole(foundUser.role);
       toast.success(`Welcome back, ${foundUser.name}!`);
     } else {
@@ -100,39 +131,93 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Sign-In With Ethereum (EIP-4361): prove control of the wallet and bind the session to it
+  const loginWithEthereum = async (email: string, selectedRole: UserRole): Promise<void> => {
+    let address = Web3Service.getState().address;
+    if (!address) {
+      address = await Web3Service.connectWallet();
+    }
+    const { chainId } = Web3Service.getState();
+    if (!address || !chainId) {
+      toast.error('Connect your wallet to sign in with Ethereum');
+      throw new Error('Wallet not connected');
+    }
+
+    const users = await getRepository().getUsers();
+    const foundUser = users.find(u => u.email === email && u.role === selectedRole);
+    if (!foundUser) {
+      toast.error('Invalid login credentials');
+      throw new Error('Invalid login credentials');
+    }
+
+    // An account that already has a wallet can only sign in with that wallet
+    if (foundUser.ethereumAddress && foundUser.ethereumAddress.toLowerCase() !== address.toLowerCase()) {
+      toast.error('This account is linked to a different wallet');
+      throw new Error('Wallet does not match account');
+    }
+
+    const session = await proveWalletControl(address, Number(chainId), `Sign in to MediChain as ${foundUser.name}.`);
+    if (!session) {
+      throw new Error('Wallet could not be verified');
+    }
+
+    // First SIWE sign-in links the proven address to the account
+    const verifiedUser = { ...foundUser, ethereumAddress: session.address };
+    if (!foundUser.ethereumAddress) {
+      await getRepository().saveUser(verifiedUser);
+    }
+
+    updateSession(session);
+    setUser(verifiedUser);
+    setRole(verifiedUser.role);
+    toast.success(`Welcome back, ${verifiedUser.name}!`, {
+      description: 'Signed in with Ethereum',
+    });
+  };
+
   // Mock signup function
   const signup = async (name: string, email: string, password: string, selectedRole: UserRole): Promise<void> => {
     // Simulate API call delay
     await new Promise(resolve => setTimeout(resolve, 1000));
     
-    const exists = mockUsers.some(u => u.email === email);
+    const users = await getRepository().getUsers();
+    const exists = users.some(u => u.email === email);
     if (exists) {
       toast.error('User already exists');
       throw new Error('User already exists');
     }
 
-    // Get wallet address if connected
-    const web3State = Web3Service.getState();
-    
+    // A connected wallet is only linked to the account once the user proves they control it
+    const { address, chainId } = Web3Service.getState();
+    const session = address && chainId
+      ? await proveWalletControl(address, Number(chainId), `Create a MediChain account as ${name}.`)
+      : null;
+
     const newUser: User = {
-      id: `${mockUsers.length + 1}`,
+      id: `${users.length + 1}`,
       name,
       email,
       role: selectedRole,
-      ethereumAddress: web3State.address || undefined
+      ethereumAddress: session?.address,
     };
 
-    // In a real app, we'd make an API call here
-    // Since this is a mock, we'll just update local state
+    await getRepository().saveUser(newUser);
+    updateSession(session);
     setUser(newUser);
     setRole(selectedRole);
     toast.success('Account created successfully!');
+    if (address && !session) {
+      toast.warning('Wallet not linked', {
+        description: 'Sign in with Ethereum later to link your wallet to this account.',
+      });
+    }
   };
 
   // Logout function
   const logout = () => {
     setUser(null);
     setRole(null);
+    updateSession(null);
     toast.info('You have been logged out');
     
     // Optionally disconnect wallet on logout
@@ -140,18 +225,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   // Switch role function (for demo purposes)
-  const switchRole = (newRole: UserRole) => {
+  const switchRole = async (newRole: UserRole) => {
     if (!user) return;
     
-    const foundUser = mockUsers.find(u => u.role === newRole);
+    const users = await getRepository().getUsers();
+    const foundUser = users.find(u => u.role === newRole);
     if (foundUser) {
-      // Preserve wallet address when switching roles
-      const userWithWallet = {
-        ...foundUser,
-        ethereumAddress: walletAddress || undefined
-      };
-      
-      setUser(userWithWallet);
+      // The demo role switch isn't signed, so it drops any SIWE proof
+      updateSession(null);
+      setUser(foundUser);
       setRole(newRole);
       toast.success(`Switched to ${newRole} role`);
     } else {
@@ -159,27 +241,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  // Connect wallet function
+  // Connect wallet function. The wallet is only used for signing once the user signs in with Ethereum
   const connectWallet = async (): Promise<void> => {
-    const address = await Web3Service.connectWallet();
-    if (address && user) {
-      // Update user with wallet address
-      setUser(prev => prev ? {...prev, ethereumAddress: address} : null);
-    }
+    await Web3Service.connectWallet();
   };
 
   // Disconnect wallet function
   const disconnectWallet = () => {
     Web3Service.disconnectWallet();
-    
-    // Update user to remove wallet address
-    if (user) {
-      setUser(prev => {
-        if (!prev) return null;
-        const { ethereumAddress, ...rest } = prev;
-        return rest;
-      });
-    }
   };
 
   return (
@@ -189,6 +258,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         role,
         isAuthenticated: !!user,
         login,
+        loginWithEthereum,
         signup,
         logout,
         switchRole,
@@ -196,6 +266,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         walletAddress,
         connectWallet,
         disconnectWallet,
+        siweSession,
+        isAddressVerified: !!siweSession,
       }}
     >
       {children}
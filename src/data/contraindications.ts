@@ -0,0 +1,72 @@
+// Bundled allergy and contraindication knowledge base, keyed by medicine catalog id (see storage/seed.ts).
+// Works offline; medicines missing from these tables are simply not checked.
+
+// `absolute`: do not prescribe without a documented reason. `caution`: check dose and monitoring
+export type ContraindicationSeverity = 'absolute' | 'caution';
+
+// Allergy classes a patient profile can record
+export const ALLERGY_CLASSES: Array<{ id: string; label: string }> = [
+  { id: 'penicillin', label: 'Penicillins' },
+  { id: 'macrolide', label: 'Macrolides' },
+  { id: 'nsaid', label: 'NSAIDs / aspirin' },
+  { id: 'ace-inhibitor', label: 'ACE inhibitors' },
+  { id: 'statin', label: 'Statins' },
+  { id: 'corticosteroid', label: 'Corticosteroids' },
+  { id: 'sulfonamide', label: 'Sulfonamides' },
+];
+
+// Conditions a patient profile can record
+export const CLINICAL_CONDITIONS: Array<{ id: string; label: string }> = [
+  { id: 'asthma', label: 'Asthma' },
+  { id: 'renal-impairment', label: 'Renal impairment' },
+  { id: 'hepatic-impairment', label: 'Hepatic impairment' },
+  { id: 'peptic-ulcer', label: 'Peptic ulcer / GI bleeding' },
+  { id: 'heart-failure', label: 'Heart failure' },
+  { id: 'hyperkalaemia', label: 'Hyperkalaemia' },
+  { id: 'angioedema', label: 'History of angioedema' },
+  { id: 'diabetes', label: 'Diabetes' },
+  { id: 'arrhythmia', label: 'Cardiac arrhythmia' },
+];
+
+// Allergy classes each catalog medicine belongs to
+export const MEDICINE_ALLERGY_CLASSES: Record<string, string[]> = {
+  '1': ['penicillin'],
+  '2': ['ace-inhibitor'],
+  '4': ['statin'],
+  '7': ['corticosteroid'],
+  '9': ['macrolide'],
+  '10': ['nsaid'],
+};
+
+// A condition or pregnancy state in which a catalog medicine should be avoided or used with care
+export interface Contraindication {
+  medicineId: string;
+  // Condition id, or 'pregnant' / 'breastfeeding' for the profile's pregnancy status
+  condition: string;
+  severity: ContraindicationSeverity;
+  reason: string;
+}
+
+export const CONTRAINDICATIONS: Contraindication[] = [
+  { medicineId: '2', condition: 'pregnant', severity: 'absolute', reason: 'ACE inhibitors can cause fetal renal damage.' },
+  { medicineId: '2', condition: 'angioedema', severity: 'absolute', reason: 'ACE inhibitors can trigger recurrent angioedema.' },
+  { medicineId: '2', condition: 'hyperkalaemia', severity: 'caution', reason: 'Lisinopril raises serum potassium.' },
+  { medicineId: '2', condition: 'renal-impairment', severity: 'caution', reason: 'Reduce the dose and monitor renal function.' },
+  { medicineId: '3', condition: 'renal-impairment', severity: 'absolute', reason: 'Metformin accumulates and risks lactic acidosis.' },
+  { medicineId: '3', condition: 'hepatic-impairment', severity: 'caution', reason: 'Increased risk of lactic acidosis.' },
+  { medicineId: '4', condition: 'pregnant', severity: 'absolute', reason: 'Statins are contraindicated in pregnancy.' },
+  { medicineId: '4', condition: 'breastfeeding', severity: 'absolute', reason: 'Statins pass into breast milk.' },
+  { medicineId: '4', condition: 'hepatic-impairment', severity: 'absolute', reason: 'Statins are contraindicated in active liver disease.' },
+  { medicineId: '5', condition: 'arrhythmia', severity: 'caution', reason: 'Beta-agonists can provoke tachyarrhythmias.' },
+  { medicineId: '7', condition: 'diabetes', severity: 'caution', reason: 'Corticosteroids raise blood glucose.' },
+  { medicineId: '7', condition: 'peptic-ulcer', severity: 'caution', reason: 'Corticosteroids increase the risk of GI bleeding.' },
+  { medicineId: '8', condition: 'renal-impairment', severity: 'caution', reason: 'Gabapentin needs a renal dose adjustment.' },
+  { medicineId: '9', condition: 'arrhythmia', severity: 'caution', reason: 'Clarithromycin prolongs the QT interval.' },
+  { medicineId: '10', condition: 'peptic-ulcer', severity: 'absolute', reason: 'NSAIDs can cause GI bleeding and perforation.' },
+  { medicineId: '10', condition: 'heart-failure', severity: 'absolute', reason: 'NSAIDs cause fluid retention and worsen heart failure.' },
+  { medicineId: '10', condition: 'asthma', severity: 'caution', reason: 'NSAIDs can trigger bronchospasm in sensitive asthmatics.' },
+  { medicineId: '10', condition: 'renal-impairment', severity: 'caution', reason: 'NSAIDs reduce renal blood flow.' },
+  { medicineId: '10', condition: 'pregnant', severity: 'caution', reason: 'Avoid NSAIDs in the third trimester.' },
+  { medicineId: '11', condition: 'hyperkalaemia', severity: 'absolute', reason: 'Spironolactone retains potassium.' },
+  { medicineId: '11', condition: 'renal-impairment', severity: 'caution', reason: 'Monitor potassium and renal function.' },
+];
@@ -0,0 +1,161 @@
+// Bundled dosing rules, keyed by medicine catalog id (see storage/seed.ts).
+// Medicines without a rule are not dose-checked.
+import type { DoseUnit } from '../services/dosageSig';
+
+// Dose limits for one age band. Bands with `mgPerKgPerDose` dose by weight
+export interface DoseBand {
+  label: 'Pediatric' | 'Adult' | 'Geriatric';
+  // Ages in years the band applies to: minAge inclusive, maxAge exclusive
+  minAge: number;
+  maxAge: number;
+  // Set when the medicine should not be used at these ages
+  notRecommended?: string;
+  mgPerKgPerDose?: [number, number];
+  minSingleMg?: number;
+  maxSingleMg: number;
+  maxDailyMg: number;
+  maxDailyMgPerKg?: number;
+  note?: string;
+}
+
+export interface DosingRule {
+  medicineId: string;
+  // Strength of one dose unit in mg, and the unit it is given in
+  mgPerUnit: number;
+  unit: DoseUnit;
+  // Smallest fraction of a unit that can be given, e.g. 0.5 for scored tablets
+  unitStep: number;
+  bands: DoseBand[];
+}
+
+const ADULT_AGES = { minAge: 18, maxAge: 65 };
+const GERIATRIC_AGES = { minAge: 65, maxAge: Infinity };
+
+export const DOSING_RULES: DosingRule[] = [
+  {
+    medicineId: '1', // Amoxicillin 500mg
+    mgPerUnit: 500,
+    unit: 'capsule',
+    unitStep: 1,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 18, mgPerKgPerDose: [8, 30], maxSingleMg: 1000, maxDailyMg: 3000, maxDailyMgPerKg: 90 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 250, maxSingleMg: 1000, maxDailyMg: 3000 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 250, maxSingleMg: 1000, maxDailyMg: 3000 },
+    ],
+  },
+  {
+    medicineId: '2', // Lisinopril 10mg
+    mgPerUnit: 10,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 6, notRecommended: 'Not recommended under 6 years', maxSingleMg: 0, maxDailyMg: 0 },
+      { label: 'Pediatric', minAge: 6, maxAge: 18, mgPerKgPerDose: [0.07, 0.6], maxSingleMg: 40, maxDailyMg: 40 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 2.5, maxSingleMg: 40, maxDailyMg: 80 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 2.5, maxSingleMg: 40, maxDailyMg: 40, note: 'Start at 2.5–5 mg and titrate' },
+    ],
+  },
+  {
+    medicineId: '3', // Metformin 850mg
+    mgPerUnit: 850,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 10, notRecommended: 'Not recommended under 10 years', maxSingleMg: 0, maxDailyMg: 0 },
+      { label: 'Pediatric', minAge: 10, maxAge: 18, minSingleMg: 425, maxSingleMg: 1000, maxDailyMg: 2000 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 425, maxSingleMg: 1000, maxDailyMg: 2550 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 425, maxSingleMg: 1000, maxDailyMg: 2000, note: 'Check renal function before each increase' },
+    ],
+  },
+  {
+    medicineId: '4', // Atorvastatin 20mg
+    mgPerUnit: 20,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 10, notRecommended: 'Not recommended under 10 years', maxSingleMg: 0, maxDailyMg: 0 },
+      { label: 'Pediatric', minAge: 10, maxAge: 18, minSingleMg: 10, maxSingleMg: 20, maxDailyMg: 20 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 10, maxSingleMg: 80, maxDailyMg: 80 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 10, maxSingleMg: 80, maxDailyMg: 80 },
+    ],
+  },
+  {
+    medicineId: '5', // Albuterol inhaler, 100 mcg per puff
+    mgPerUnit: 0.1,
+    unit: 'puff',
+    unitStep: 1,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 4, notRecommended: 'Use a spacer and nebulised dosing under 4 years', maxSingleMg: 0, maxDailyMg: 0 },
+      { label: 'Pediatric', minAge: 4, maxAge: 18, minSingleMg: 0.1, maxSingleMg: 0.2, maxDailyMg: 0.8 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 0.1, maxSingleMg: 0.2, maxDailyMg: 0.8 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 0.1, maxSingleMg: 0.2, maxDailyMg: 0.8 },
+    ],
+  },
+  {
+    medicineId: '6', // Levothyroxine 50mcg
+    mgPerUnit: 0.05,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 18, mgPerKgPerDose: [0.002, 0.01], maxSingleMg: 0.2, maxDailyMg: 0.2 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 0.025, maxSingleMg: 0.2, maxDailyMg: 0.3 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 0.0125, maxSingleMg: 0.1, maxDailyMg: 0.1, note: 'Start low (12.5–25 mcg) in older patients' },
+    ],
+  },
+  {
+    medicineId: '7', // Prednisone 5mg
+    mgPerUnit: 5,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 18, mgPerKgPerDose: [0.5, 2], maxSingleMg: 60, maxDailyMg: 60, maxDailyMgPerKg: 2 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 5, maxSingleMg: 60, maxDailyMg: 80 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 5, maxSingleMg: 60, maxDailyMg: 60 },
+    ],
+  },
+  {
+    medicineId: '8', // Gabapentin 300mg
+    mgPerUnit: 300,
+    unit: 'capsule',
+    unitStep: 1,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 3, notRecommended: 'Not recommended under 3 years', maxSingleMg: 0, maxDailyMg: 0 },
+      { label: 'Pediatric', minAge: 3, maxAge: 12, mgPerKgPerDose: [3, 12], maxSingleMg: 1200, maxDailyMg: 2400, maxDailyMgPerKg: 35 },
+      { label: 'Adult', minAge: 12, maxAge: 65, minSingleMg: 300, maxSingleMg: 1200, maxDailyMg: 3600 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 300, maxSingleMg: 800, maxDailyMg: 2400, note: 'Adjust for renal function' },
+    ],
+  },
+  {
+    medicineId: '9', // Clarithromycin 500mg
+    mgPerUnit: 500,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 12, mgPerKgPerDose: [5, 7.5], maxSingleMg: 500, maxDailyMg: 1000 },
+      { label: 'Adult', minAge: 12, maxAge: 65, minSingleMg: 250, maxSingleMg: 500, maxDailyMg: 1000 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 250, maxSingleMg: 500, maxDailyMg: 1000 },
+    ],
+  },
+  {
+    medicineId: '10', // Ibuprofen 400mg
+    mgPerUnit: 400,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 12, mgPerKgPerDose: [5, 10], maxSingleMg: 400, maxDailyMg: 1200, maxDailyMgPerKg: 40 },
+      { label: 'Adult', minAge: 12, maxAge: 65, minSingleMg: 200, maxSingleMg: 800, maxDailyMg: 3200 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 200, maxSingleMg: 400, maxDailyMg: 1200, note: 'Use the lowest effective dose' },
+    ],
+  },
+  {
+    medicineId: '11', // Spironolactone 25mg
+    mgPerUnit: 25,
+    unit: 'tablet',
+    unitStep: 0.5,
+    bands: [
+      { label: 'Pediatric', minAge: 0, maxAge: 18, mgPerKgPerDose: [0.5, 3], maxSingleMg: 100, maxDailyMg: 100, maxDailyMgPerKg: 3 },
+      { label: 'Adult', ...ADULT_AGES, minSingleMg: 12.5, maxSingleMg: 200, maxDailyMg: 400 },
+      { label: 'Geriatric', ...GERIATRIC_AGES, minSingleMg: 12.5, maxSingleMg: 100, maxDailyMg: 100, note: 'Monitor potassium closely' },
+    ],
+  },
+];
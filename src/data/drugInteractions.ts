@@ -0,0 +1,78 @@
+// Bundled drug interaction knowledge base, keyed by medicine catalog id (see storage/seed.ts).
+// Works offline; medicines missing from these tables are simply not checked.
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major';
+
+// A known interaction between two catalog medicines
+export interface DrugInteraction {
+  medicineIds: [string, string];
+  severity: InteractionSeverity;
+  effect: string;
+  advice: string;
+}
+
+// Therapeutic class of each catalog medicine; two lines in the same class are duplicate therapy
+export const THERAPEUTIC_CLASSES: Record<string, string> = {
+  '1': 'Penicillin antibiotic',
+  '2': 'ACE inhibitor',
+  '3': 'Biguanide antidiabetic',
+  '4': 'Statin',
+  '5': 'Short-acting beta-agonist',
+  '6': 'Thyroid hormone',
+  '7': 'Systemic corticosteroid',
+  '8': 'Gabapentinoid',
+  '9': 'Macrolide antibiotic',
+  '10': 'NSAID',
+  '11': 'Potassium-sparing diuretic',
+};
+
+export const DRUG_INTERACTIONS: DrugInteraction[] = [
+  {
+    medicineIds: ['9', '4'],
+    severity: 'major',
+    effect: 'Clarithromycin blocks atorvastatin metabolism, raising the risk of myopathy and rhabdomyolysis.',
+    advice: 'Pause the statin during the antibiotic course or choose a non-macrolide antibiotic.',
+  },
+  {
+    medicineIds: ['2', '11'],
+    severity: 'major',
+    effect: 'Combining an ACE inhibitor with spironolactone can cause severe hyperkalaemia.',
+    advice: 'Avoid unless indicated; monitor potassium and renal function closely.',
+  },
+  {
+    medicineIds: ['10', '2'],
+    severity: 'moderate',
+    effect: 'NSAIDs reduce the antihypertensive effect of lisinopril and can impair renal function.',
+    advice: 'Use the lowest NSAID dose for the shortest time and monitor blood pressure.',
+  },
+  {
+    medicineIds: ['10', '11'],
+    severity: 'moderate',
+    effect: 'NSAIDs blunt the diuretic effect of spironolactone and increase the risk of hyperkalaemia.',
+    advice: 'Monitor potassium and renal function.',
+  },
+  {
+    medicineIds: ['10', '7'],
+    severity: 'moderate',
+    effect: 'NSAIDs with corticosteroids increase the risk of gastrointestinal ulceration and bleeding.',
+    advice: 'Consider gastroprotection, e.g. a proton pump inhibitor.',
+  },
+  {
+    medicineIds: ['7', '3'],
+    severity: 'moderate',
+    effect: 'Prednisone raises blood glucose and can reduce the effect of metformin.',
+    advice: 'Monitor blood glucose during and after the steroid course.',
+  },
+  {
+    medicineIds: ['7', '5'],
+    severity: 'minor',
+    effect: 'Corticosteroids and beta-agonists can both lower serum potassium.',
+    advice: 'Check potassium with high doses or prolonged use.',
+  },
+  {
+    medicineIds: ['6', '3'],
+    severity: 'minor',
+    effect: 'Metformin may lower TSH in patients on levothyroxine.',
+    advice: 'Recheck thyroid function after starting metformin.',
+  },
+];
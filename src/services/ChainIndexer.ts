@@ -0,0 +1,322 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { parsePrescriptionCall } from '../abi/contract-types';
+import { Web3Service } from './Web3Service';
+import { TransactionManager } from './TransactionManager';
+import type { Prescription } from './PrescriptionService';
+import { checkMedicinesCommitment } from './medicineCommitment';
+import { getNetworkByChainId } from './networks';
+
+// A confirmed dispense transaction for an indexed prescription
+export interface IndexedDispense {
+  txHash: string;
+  blockNumber: number;
+  timestamp: Date;
+  pharmacist: string;
+}
+
+// Prescription state reconstructed from contract transactions
+export interface IndexedPrescription {
+  contractToken: string;
+  doctor: string;
+  patient: string;
+  disease: string;
+  drug: string;
+  quantity: number;
+  interval: number;
+  txHash: string;
+  blockNumber: number;
+  created: Date;
+  dispenses: IndexedDispense[];
+}
+
+export type ChainStatus = 'local-only' | 'not-indexed' | 'active' | 'dispensed';
+
+// Comparison of a local prescription against the indexed chain state
+export interface ChainComparison {
+  chainStatus: ChainStatus;
+  mismatch: string | null;
+}
+
+interface ChainIndexState {
+  chainId: string | null;
+  // Contract the projection was built from
+  contractAddress: string | null;
+  prescriptions: Record<string, IndexedPrescription>;
+  lastBlock: number;
+  isSyncing: boolean;
+  error: string | null;
+}
+
+const BLOCK_BATCH_SIZE = 500;
+const POLL_INTERVAL_MS = 15000;
+// Blocks (and then receipts) requested at once. The contract emits no events to filter logs by, so every
+// block is read; a JSON-RPC provider sends each group as one batch request rather than one call per block
+const FETCH_CONCURRENCY = 25;
+// Most blocks read by one sync. A long backlog, such as the first sync from a testnet deployment block,
+// is caught up over several polls instead of holding the indexer in one very long run
+const MAX_BLOCKS_PER_SYNC = 5000;
+
+// localStorage key for the projection and the last block read, so a reload continues where it stopped
+const STORAGE_KEY = 'medichain:chain-index';
+
+type StoredIndex = Pick<ChainIndexState, 'chainId' | 'contractAddress' | 'prescriptions' | 'lastBlock'>;
+
+// Restore dates on an indexed prescription read back from JSON
+const reviveIndexed = (indexed: IndexedPrescription): IndexedPrescription => ({
+  ...indexed,
+  created: new Date(indexed.created),
+  dispenses: indexed.dispenses.map(d => ({ ...d, timestamp: new Date(d.timestamp) })),
+});
+
+// Projection saved by an earlier page load
+const loadIndex = (): StoredIndex => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const index = JSON.parse(stored) as StoredIndex;
+      return {
+        ...index,
+        prescriptions: Object.fromEntries(
+          Object.entries(index.prescriptions).map(([token, indexed]) => [token, reviveIndexed(indexed)])
+        ),
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load chain index:', error);
+  }
+  return { chainId: null, contractAddress: null, prescriptions: {}, lastBlock: -1 };
+};
+
+let indexState: ChainIndexState = {
+  ...loadIndex(),
+  isSyncing: false,
+  error: null,
+};
+
+const listeners: Array<(state: ChainIndexState) => void> = [];
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let stopSettledSync: (() => void) | null = null;
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(indexState));
+};
+
+// Save the projection and notify listeners
+const persist = () => {
+  const { chainId, contractAddress, prescriptions, lastBlock } = indexState;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ chainId, contractAddress, prescriptions, lastBlock }));
+  notifyListeners();
+};
+
+let rpcProvider: ethers.JsonRpcProvider | null = null;
+
+// Prefer the wallet's provider, fall back to the configured RPC endpoint (e.g. anvil on :8545)
+const getProvider = (): ethers.Provider | null => {
+  const { provider } = Web3Service.getState();
+  if (provider) return provider;
+  if (!import.meta.env.VITE_RPC_URL) return null;
+  if (!rpcProvider) {
+    rpcProvider = new ethers.JsonRpcProvider(import.meta.env.VITE_RPC_URL);
+  }
+  return rpcProvider;
+};
+
+// Apply one decoded, successful contract call to the projection
+const applyTransaction = (
+  prescriptions: Record<string, IndexedPrescription>,
+  tx: ethers.TransactionResponse,
+  block: ethers.Block
+) => {
+  const call = parsePrescriptionCall(tx.data, tx.value);
+  if (!call) return;
+
+  const timestamp = new Date(block.timestamp * 1000);
+  if (call.name === 'create_prescription') {
+    const [token, patient, disease, drug, quantity, interval] = call.args;
+    const contractToken = token.toLowerCase();
+    prescriptions[contractToken] = {
+      contractToken,
+      doctor: tx.from,
+      patient,
+      disease,
+      drug,
+      quantity: Number(quantity),
+      interval: Number(interval),
+      txHash: tx.hash,
+      blockNumber: block.number,
+      created: timestamp,
+      dispenses: [],
+    };
+  } else if (call.name === 'dispense') {
+    const contractToken = call.args[0].toLowerCase();
+    const indexed = prescriptions[contractToken];
+    if (indexed) {
+      prescriptions[contractToken] = {
+        ...indexed,
+        dispenses: [
+          ...indexed.dispenses,
+          { txHash: tx.hash, blockNumber: block.number, timestamp, pharmacist: tx.from },
+        ],
+      };
+    }
+  }
+};
+
+export const ChainIndexer = {
+  // Subscribe to projection changes
+  subscribe: (listener: (state: ChainIndexState) => void) => {
+    listeners.push(listener);
+    listener(indexState);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  },
+
+  // Get current projection snapshot
+  getState: (): ChainIndexState => {
+    return { ...indexState };
+  },
+
+  // Read new blocks towards the chain head, at most MAX_BLOCKS_PER_SYNC of them, and fold contract calls
+  // into the projection
+  sync: async (): Promise<void> => {
+    const provider = getProvider();
+    const contractAddress = Web3Service.getContractAddress()?.toLowerCase();
+    if (!provider || !contractAddress || indexState.isSyncing) return;
+    indexState = { ...indexState, isSyncing: true, error: null };
+    notifyListeners();
+
+    try {
+      // Contract history starts at its deployment; scanning a public chain from genesis would never finish
+      const chainId = (await provider.getNetwork()).chainId.toString();
+      const network = getNetworkByChainId(chainId);
+      if (network?.deploymentBlock == null) {
+        throw new Error(`No contract deployment block is configured for ${network?.name ?? `chain ${chainId}`}`);
+      }
+
+      // A different chain or contract means a different history: start over
+      if (chainId !== indexState.chainId || contractAddress !== indexState.contractAddress) {
+        indexState = {
+          ...indexState,
+          chainId,
+          contractAddress,
+          prescriptions: {},
+          lastBlock: network.deploymentBlock - 1,
+        };
+        persist();
+      }
+
+      const head = await provider.getBlockNumber();
+      const prescriptions = { ...indexState.prescriptions };
+      let lastBlock = indexState.lastBlock;
+      const target = Math.min(head, lastBlock + MAX_BLOCKS_PER_SYNC);
+
+      while (lastBlock < target) {
+        const toBlock = Math.min(lastBlock + BLOCK_BATCH_SIZE, target);
+        for (let from = lastBlock + 1; from <= toBlock; from += FETCH_CONCURRENCY) {
+          const numbers = Array.from({ length: Math.min(FETCH_CONCURRENCY, toBlock - from + 1) }, (_, i) => from + i);
+          const blocks = await Promise.all(numbers.map(number => provider.getBlock(number, true)));
+          const calls = blocks.flatMap(block =>
+            block
+              ? block.prefetchedTransactions
+                  .filter(tx => tx.to?.toLowerCase() === contractAddress)
+                  .map(tx => ({ tx, block }))
+              : []
+          );
+          const receipts = await Promise.all(calls.map(({ tx }) => provider.getTransactionReceipt(tx.hash)));
+
+          // Apply in chain order; reverted calls never changed contract state
+          calls.forEach(({ tx, block }, i) => {
+            if (receipts[i]?.status === 1) applyTransaction(prescriptions, tx, block);
+          });
+        }
+        lastBlock = toBlock;
+        indexState = { ...indexState, prescriptions: { ...prescriptions }, lastBlock };
+        persist();
+      }
+    } catch (error) {
+      console.error('Error indexing contract transactions:', error);
+      indexState = {
+        ...indexState,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    } finally {
+      indexState = { ...indexState, isSyncing: false };
+      notifyListeners();
+    }
+  },
+
+  // Start polling the chain for new blocks
+  start: (intervalMs: number = POLL_INTERVAL_MS) => {
+    if (pollTimer) return;
+    ChainIndexer.sync();
+    pollTimer = setInterval(ChainIndexer.sync, intervalMs);
+    // Pick up confirmed transactions without waiting for the next poll
+    stopSettledSync = TransactionManager.onSettled(tx => {
+      if (tx.status === 'confirmed') ChainIndexer.sync();
+    });
+  },
+
+  // Stop polling
+  stop: () => {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+    stopSettledSync?.();
+    stopSettledSync = null;
+  },
+
+  // Look up a prescription by its bytes32 contract token
+  getByToken: (contractToken: string): IndexedPrescription | null => {
+    return indexState.prescriptions[contractToken.toLowerCase()] || null;
+  },
+
+  // Compare a local prescription against the indexed chain state
+  compare: (prescription: Prescription): ChainComparison => {
+    if (!prescription.contractToken || !prescription.blockchainTxHash) {
+      return { chainStatus: 'local-only', mismatch: null };
+    }
+
+    const indexed = ChainIndexer.getByToken(prescription.contractToken);
+    if (!indexed) {
+      return { chainStatus: 'not-indexed', mismatch: 'No matching transaction found on chain' };
+    }
+
+    const chainStatus: ChainStatus = indexed.dispenses.length > 0 ? 'dispensed' : 'active';
+    // The chain records one dispense per completed fill
+    const completedFills = prescription.refills - prescription.refillsRemaining;
+    if (completedFills > indexed.dispenses.length) {
+      return { chainStatus, mismatch: 'Dispensed locally but not on chain' };
+    }
+    if (completedFills < indexed.dispenses.length) {
+      return { chainStatus, mismatch: 'Dispensed on chain but not locally' };
+    }
+    if (indexed.disease !== prescription.disease) {
+      return { chainStatus, mismatch: 'Condition differs from the chain record' };
+    }
+    if (checkMedicinesCommitment(indexed.drug, prescription.medicines) === 'mismatch') {
+      return { chainStatus, mismatch: 'Medicines differ from the chain record' };
+    }
+    return { chainStatus, mismatch: null };
+  },
+};
+
+// Hook for React components to follow the chain projection
+export function useChainIndex() {
+  const [state, setState] = React.useState<ChainIndexState>(indexState);
+
+  React.useEffect(() => {
+    return ChainIndexer.subscribe(setState);
+  }, []);
+
+  return {
+    ...state,
+    sync: ChainIndexer.sync,
+    compare: ChainIndexer.compare,
+  };
+}
@@ -0,0 +1,298 @@
+import React from 'react';
+import { Web3Service } from './Web3Service';
+import { SiweService } from './SiweService';
+import { TrackedTransaction, TransactionKind, TransactionManager } from './TransactionManager';
+import { TransactionCancelledError } from './TransactionPreflight';
+
+// Chain writes that can be deferred until a wallet is available
+export type OutboxItemKind = 'create' | 'dispense' | 'marker';
+
+// A chain write waiting to be submitted
+export interface OutboxItem {
+  id: string;
+  kind: OutboxItemKind;
+  description: string;
+  // UI token and bytes32 contract token of the prescription
+  tokenId: string;
+  contractToken: string;
+  // Only the user who made the change submits it, so the right wallet signs
+  actorId: string;
+  actorName: string;
+  // Dispense event to mark confirmed once a queued dispense lands
+  dispenseEventId?: string;
+  // Text recorded by a marker transaction
+  marker?: string;
+  status: 'queued' | 'submitting';
+  attempts: number;
+  lastError?: string;
+  // Set when the user cancelled the fee preview; the item is only sent again by Retry now
+  manualRetry?: boolean;
+  queuedAt: Date;
+  // Earliest time of the next retry
+  nextAttemptAt: Date;
+  // When the current or last submission started; used to spot writes already sent before a reload
+  attemptStartedAt?: Date;
+  // Transaction sent by an attempt that a reload interrupted; followed instead of sending again
+  submittedTxId?: string;
+}
+
+// Submits one item; throws when the write could not be made
+export type OutboxProcessor = (item: OutboxItem) => Promise<void>;
+
+interface OutboxState {
+  items: OutboxItem[];
+  isFlushing: boolean;
+}
+
+// localStorage key for queued writes, so they survive reloads
+const STORAGE_KEY = 'medichain:chain-outbox';
+
+// Retry delay after the first failure, doubled on each further failure up to the maximum
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+// Transaction kind each outbox item is sent as
+const transactionKinds: Record<OutboxItemKind, TransactionKind> = {
+  create: 'create-prescription',
+  dispense: 'dispense',
+  marker: 'marker',
+};
+
+// Restore dates on items read back from JSON
+const reviveItem = (item: OutboxItem): OutboxItem => ({
+  ...item,
+  queuedAt: new Date(item.queuedAt),
+  nextAttemptAt: new Date(item.nextAttemptAt),
+  attemptStartedAt: item.attemptStartedAt ? new Date(item.attemptStartedAt) : undefined,
+});
+
+// Items queued in an earlier page load
+const loadItems = (): OutboxItem[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as OutboxItem[]).map(reviveItem) : [];
+  } catch (error) {
+    console.error('Failed to load chain outbox:', error);
+    return [];
+  }
+};
+
+let outboxState: OutboxState = { items: loadItems(), isFlushing: false };
+
+const listeners: Array<(state: OutboxState) => void> = [];
+
+// Set while someone is signed in
+let actorId: string | null = null;
+let processor: OutboxProcessor | null = null;
+let stopWalletWatch: (() => void) | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(outboxState));
+};
+
+// Save the queue and notify listeners
+const persist = () => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(outboxState.items));
+  notifyListeners();
+};
+
+const updateItem = (id: string, change: Partial<OutboxItem>) => {
+  outboxState = {
+    ...outboxState,
+    items: outboxState.items.map(item => (item.id === id ? { ...item, ...change } : item)),
+  };
+  persist();
+};
+
+const removeItem = (id: string) => {
+  outboxState = { ...outboxState, items: outboxState.items.filter(item => item.id !== id) };
+  persist();
+};
+
+// Delay before the next retry after `attempts` failures
+const backoff = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+// Whether the connected wallet can send contract transactions: it must be the one the user proved they control
+const canSubmit = () => {
+  const { isConnected, isWrongNetwork, address } = Web3Service.getState();
+  return isConnected && !isWrongNetwork && SiweService.isProvenAddress(address);
+};
+
+// Transaction already sent for this item, e.g. just before the page was reloaded
+const findSubmittedTransaction = (item: OutboxItem): TrackedTransaction | undefined => {
+  if (!item.attemptStartedAt) return undefined;
+  const startedAt = item.attemptStartedAt.getTime();
+  return TransactionManager.getState().transactions.find(tx =>
+    tx.kind === transactionKinds[item.kind] &&
+    tx.contractToken?.toLowerCase() === item.contractToken.toLowerCase() &&
+    tx.submittedAt.getTime() >= startedAt &&
+    (tx.status === 'pending' || tx.status === 'confirmed')
+  );
+};
+
+// Items left mid-submission by a reload go back in the queue, remembering any transaction they already sent
+const recoverInterrupted = () => {
+  outboxState.items
+    .filter(item => item.status === 'submitting')
+    .forEach(item => {
+      updateItem(item.id, { status: 'queued', submittedTxId: findSubmittedTransaction(item)?.id ?? item.submittedTxId });
+    });
+};
+
+// Run the next flush when the earliest backed-off item is due
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const due = outboxState.items
+    .filter(item => item.actorId === actorId && !item.manualRetry)
+    .map(item => item.nextAttemptAt.getTime());
+  if (!processor || due.length === 0) return;
+
+  const delay = Math.max(0, Math.min(...due) - Date.now());
+  retryTimer = setTimeout(() => ChainOutbox.flush(), delay);
+};
+
+export const ChainOutbox = {
+  // Subscribe to queue changes
+  subscribe: (listener: (state: OutboxState) => void) => {
+    listeners.push(listener);
+    listener(outboxState);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  },
+
+  // Get current snapshot
+  getState: (): OutboxState => {
+    return { ...outboxState };
+  },
+
+  // Whether a write (of any kind, or of `kind`) is waiting for a prescription
+  hasQueued: (contractToken: string, kind?: OutboxItemKind): boolean => {
+    return outboxState.items.some(
+      item => (!kind || item.kind === kind) && item.contractToken.toLowerCase() === contractToken.toLowerCase()
+    );
+  },
+
+  // Queue a chain write and try it if the wallet is ready. A write that already failed (`lastError`) waits for the
+  // first retry, and one the user cancelled (`manualRetry`) waits for Retry now
+  enqueue: (item: Omit<OutboxItem, 'id' | 'status' | 'attempts' | 'queuedAt' | 'nextAttemptAt'>) => {
+    const now = new Date();
+    const attempts = item.lastError && !item.manualRetry ? 1 : 0;
+    outboxState = {
+      ...outboxState,
+      items: [
+        ...outboxState.items,
+        {
+          ...item,
+          id: `${item.kind}-${item.tokenId}-${now.getTime()}`,
+          status: 'queued',
+          attempts,
+          queuedAt: now,
+          nextAttemptAt: attempts ? new Date(now.getTime() + backoff(attempts)) : now,
+        },
+      ],
+    };
+    persist();
+    ChainOutbox.flush();
+  },
+
+  // Submit due items in order. Items for a prescription wait for its earlier writes to go through.
+  // `force` sends everything now, including writes the user cancelled before
+  flush: async (force = false) => {
+    if (!processor || !actorId || outboxState.isFlushing || !canSubmit()) return;
+    outboxState = { ...outboxState, isFlushing: true };
+    notifyListeners();
+
+    try {
+      const blocked = new Set<string>();
+      for (const queued of [...outboxState.items]) {
+        const item = outboxState.items.find(i => i.id === queued.id);
+        if (!item) continue;
+        const token = item.contractToken.toLowerCase();
+        const due = force || (!item.manualRetry && item.nextAttemptAt.getTime() <= Date.now());
+        if (item.actorId !== actorId || blocked.has(token) || !due) {
+          blocked.add(token);
+          continue;
+        }
+        if (!canSubmit()) break;
+
+        updateItem(item.id, { status: 'submitting', attemptStartedAt: new Date() });
+        try {
+          await processor(item);
+          removeItem(item.id);
+        } catch (error) {
+          if (error instanceof TransactionCancelledError) {
+            // Not a failure: leave it for the user instead of asking again on every retry
+            updateItem(item.id, { status: 'queued', manualRetry: true, lastError: error.message });
+          } else {
+            const attempts = item.attempts + 1;
+            updateItem(item.id, {
+              status: 'queued',
+              attempts,
+              lastError: error instanceof Error ? error.message : 'Unknown error',
+              nextAttemptAt: new Date(Date.now() + backoff(attempts)),
+              manualRetry: false,
+            });
+          }
+          blocked.add(token);
+        }
+      }
+    } finally {
+      outboxState = { ...outboxState, isFlushing: false };
+      notifyListeners();
+      scheduleRetry();
+    }
+  },
+
+  // Drop a queued write; the change stays local only
+  discard: (id: string) => {
+    const item = outboxState.items.find(i => i.id === id);
+    if (!item || item.status === 'submitting') return;
+    removeItem(id);
+    scheduleRetry();
+  },
+
+  // Process the signed-in user's queue, retrying whenever the wallet connects
+  start: (userId: string, submit: OutboxProcessor) => {
+    ChainOutbox.stop();
+    actorId = userId;
+    processor = submit;
+    recoverInterrupted();
+    stopWalletWatch = Web3Service.subscribe(state => {
+      if (state.isConnected && !state.isWrongNetwork) {
+        ChainOutbox.flush();
+      }
+    });
+    scheduleRetry();
+  },
+
+  // Stop processing, e.g. on logout
+  stop: () => {
+    stopWalletWatch?.();
+    stopWalletWatch = null;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    actorId = null;
+    processor = null;
+  },
+};
+
+// Hook for React components to follow the queue
+export function useOutbox() {
+  const [state, setState] = React.useState<OutboxState>(outboxState);
+
+  React.useEffect(() => {
+    return ChainOutbox.subscribe(setState);
+  }, []);
+
+  return {
+    ...state,
+    retryNow: () => ChainOutbox.flush(true),
+    discard: ChainOutbox.discard,
+  };
+}
@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+import { toast } from 'sonner';
+import { Web3Service } from './Web3Service';
+import type { User } from '@/contexts/AuthContext';
+import { PatientProfile, PatientWallet, getRepository } from './storage';
+
+// Patient directory entry with the wallet they have proven they control
+export interface Patient {
+  id: string;
+  name: string;
+  email: string;
+  walletAddress: string | null;
+}
+
+// Message a patient signs to link a wallet to their record. server/index.js rebuilds it to check the
+// signature, so the two must stay in step
+const buildLinkMessage = (patientId: string, address: string, issuedAt: string): string => {
+  return [
+    'Link this wallet to my MediChain patient record.',
+    '',
+    `Patient ID: ${patientId}`,
+    `Wallet: ${ethers.getAddress(address)}`,
+    `Issued At: ${issuedAt}`,
+  ].join('\n');
+};
+
+// PatientService for the patient directory and wallet links
+export const PatientService = {
+  // List patients, optionally filtered by name or email
+  getPatients: async (query: string = ''): Promise<Patient[]> => {
+    const repository = getRepository();
+    const [users, wallets] = await Promise.all([
+      repository.getUsers(),
+      repository.getPatientWallets(),
+    ]);
+    const needle = query.trim().toLowerCase();
+
+    return users
+      .filter(u => u.role === 'patient')
+      .filter(u => !needle || u.name.toLowerCase().includes(needle) || u.email.toLowerCase().includes(needle))
+      .map(u => ({
+        id: u.id,
+        name: u.name,
+        email: u.email,
+        walletAddress: wallets.find(w => w.patientId === u.id)?.address ?? null,
+      }));
+  },
+
+  // Get a patient's verified wallet link, if any
+  getPatientWallet: async (patientId: string): Promise<PatientWallet | null> => {
+    const wallets = await getRepository().getPatientWallets();
+    return wallets.find(w => w.patientId === patientId) || null;
+  },
+
+  // Get a patient's clinical profile, or an empty one if none has been recorded
+  getPatientProfile: async (patientId: string): Promise<PatientProfile> => {
+    const profiles = await getRepository().getPatientProfiles();
+    return profiles.find(p => p.patientId === patientId) ?? {
+      patientId,
+      allergies: [],
+      conditions: [],
+      pregnancy: 'unknown',
+      weightKg: null,
+      updatedAt: new Date(0),
+      updatedBy: '',
+    };
+  },
+
+  // Store a patient's clinical profile
+  savePatientProfile: async (
+    profile: Omit<PatientProfile, 'updatedAt' | 'updatedBy'>,
+    editorName: string
+  ): Promise<PatientProfile> => {
+    const saved = await getRepository().savePatientProfile({
+      ...profile,
+      updatedAt: new Date(),
+      updatedBy: editorName,
+    });
+    toast.success('Clinical profile updated');
+    return saved;
+  },
+
+  // Link the connected wallet to the signed-in patient's record after they sign an ownership message
+  linkWallet: async (user: Pick<User, 'id' | 'role'>): Promise<PatientWallet | null> => {
+    if (user.role !== 'patient') {
+      toast.error('Only patients can link a wallet to their record');
+      return null;
+    }
+
+    const patientId = user.id;
+    const { address, isConnected } = Web3Service.getState();
+    if (!isConnected || !address) {
+      toast.error('Connect your wallet first');
+      return null;
+    }
+
+    const verifiedAt = new Date();
+    const message = buildLinkMessage(patientId, address, verifiedAt.toISOString());
+    const signature = await Web3Service.signMessage(message);
+    if (!signature) {
+      return null;
+    }
+
+    const recovered = ethers.verifyMessage(message, signature);
+    if (recovered.toLowerCase() !== address.toLowerCase()) {
+      toast.error('Signature does not match the connected wallet');
+      return null;
+    }
+
+    const wallet: PatientWallet = {
+      patientId,
+      address: recovered,
+      signature,
+      verifiedAt,
+      linkedBy: user.id,
+    };
+    await getRepository().savePatientWallet(wallet);
+    toast.success('Wallet linked to your patient record');
+    return wallet;
+  },
+};
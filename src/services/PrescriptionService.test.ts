@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PrescriptionService } from './PrescriptionService';
+import type { Medicine, Prescription } from './PrescriptionService';
+import { createInMemoryRepository, getRepository, setRepository } from './storage';
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY);
+
+const pharmacist = { id: '3', name: 'Sam Wilson' };
+
+const lisinopril: Medicine = { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 };
+const atorvastatin: Medicine = { id: '4', name: 'Atorvastatin 20mg', available: true, quantity: 80 };
+
+// An active off-chain prescription due today, listing Lisinopril twice (a titration) and Atorvastatin once
+const makePrescription = (overrides: Partial<Prescription> = {}): Prescription => ({
+  id: 'p-1',
+  tokenId: 'RX-TEST0001',
+  patientId: '2',
+  patientName: 'Jane Doe',
+  patientAge: 35,
+  doctorId: '1',
+  doctorName: 'Dr. John Smith',
+  disease: 'Hypertension',
+  medicines: [
+    { medicine: lisinopril, quantity: 10, dosage: '1 tablet daily', remainingQuantity: 10 },
+    { medicine: lisinopril, quantity: 5, dosage: '2 tablets daily', remainingQuantity: 5 },
+    { medicine: atorvastatin, quantity: 30, dosage: '1 tablet at bedtime', remainingQuantity: 30 },
+  ],
+  doseInterval: 'monthly',
+  doseValidity: daysFromNow(60),
+  refills: 3,
+  refillsRemaining: 3,
+  created: daysFromNow(-1),
+  locks: [],
+  status: 'active',
+  nextValidDose: daysFromNow(-1),
+  dispensedDates: [],
+  ...overrides,
+});
+
+const stockOf = async (medicineId: string) =>
+  (await getRepository().getMedicines()).find(m => m.id === medicineId)?.quantity;
+
+describe('PrescriptionService.dispensePrescription', () => {
+  beforeEach(() => {
+    setRepository(createInMemoryRepository({
+      prescriptions: [makePrescription()],
+      medicines: [lisinopril, atorvastatin],
+    }));
+  });
+
+  it('dispenses every line of a medicine listed twice when nothing is selected', async () => {
+    const dispensed = await PrescriptionService.dispensePrescription('RX-TEST0001', pharmacist);
+
+    expect(dispensed.refillsRemaining).toBe(2);
+    expect(dispensed.medicines.map(line => line.remainingQuantity)).toEqual([10, 5, 30]);
+    expect(await stockOf('2')).toBe(185);
+    const [event] = await getRepository().getDispenseEvents();
+    expect(event.medicines.map(line => [line.lineIndex, line.quantity])).toEqual([[0, 10], [1, 5], [2, 30]]);
+  });
+
+  it('keeps the quantities of two lines of the same medicine apart', async () => {
+    const dispensed = await PrescriptionService.dispensePrescription('RX-TEST0001', pharmacist, [
+      { lineIndex: 0, quantity: 4 },
+      { lineIndex: 1, quantity: 5 },
+    ]);
+
+    expect(dispensed.status).toBe('partially-dispensed');
+    expect(dispensed.medicines.map(line => line.remainingQuantity)).toEqual([6, 0, 30]);
+    expect(await stockOf('2')).toBe(191);
+  });
+
+  it('checks stock across all lines of the same medicine', async () => {
+    setRepository(createInMemoryRepository({
+      prescriptions: [makePrescription()],
+      medicines: [{ ...lisinopril, quantity: 12 }, atorvastatin],
+    }));
+
+    await expect(PrescriptionService.dispensePrescription('RX-TEST0001', pharmacist, [
+      { lineIndex: 0, quantity: 10 },
+      { lineIndex: 1, quantity: 5 },
+    ])).rejects.toThrow('Insufficient stock');
+    expect(await stockOf('2')).toBe(12);
+  });
+});
+
+describe('PrescriptionService.amendPrescription', () => {
+  const doctor = { id: '1', name: 'Dr. John Smith' };
+
+  // Two of three fills used and 6 of 10 Lisinopril handed over from the current one
+  const partlyUsed = makePrescription({
+    medicines: [
+      { medicine: lisinopril, quantity: 10, dosage: '1 tablet daily', remainingQuantity: 4 },
+      { medicine: atorvastatin, quantity: 30, dosage: '1 tablet at bedtime', remainingQuantity: 30 },
+    ],
+    refillsRemaining: 1,
+    dispensedDates: [daysFromNow(-40), daysFromNow(-10)],
+  });
+
+  beforeEach(() => {
+    setRepository(createInMemoryRepository({
+      prescriptions: [partlyUsed],
+      medicines: [lisinopril, atorvastatin],
+    }));
+  });
+
+  it('keeps the fills and units already dispensed when nothing about them changes', async () => {
+    const replacement = await PrescriptionService.amendPrescription('RX-TEST0001', doctor, { disease: 'Essential hypertension' }, 'Clarify diagnosis');
+
+    expect(replacement.supersedes).toBe('RX-TEST0001');
+    expect(replacement.refillsRemaining).toBe(1);
+    expect(replacement.medicines.map(line => line.remainingQuantity)).toEqual([4, 30]);
+    expect(replacement.dispensedDates).toEqual(partlyUsed.dispensedDates);
+    expect(replacement.status).toBe('partially-dispensed');
+  });
+
+  it('moves what is left by the change in fills and quantity', async () => {
+    const replacement = await PrescriptionService.amendPrescription('RX-TEST0001', doctor, {
+      refills: 4,
+      medicines: [
+        { medicine: lisinopril, quantity: 20, dosage: '2 tablets daily' },
+        { medicine: atorvastatin, quantity: 30, dosage: '1 tablet at bedtime' },
+      ],
+    }, 'Increase dose');
+
+    expect(replacement.refillsRemaining).toBe(2);
+    expect(replacement.medicines.map(line => line.remainingQuantity)).toEqual([14, 30]);
+  });
+
+  it('carries each line of a medicine listed twice on from its own line', async () => {
+    setRepository(createInMemoryRepository({
+      prescriptions: [makePrescription({
+        medicines: [
+          { medicine: lisinopril, quantity: 10, dosage: '1 tablet daily', remainingQuantity: 0 },
+          { medicine: lisinopril, quantity: 5, dosage: '2 tablets daily', remainingQuantity: 5 },
+        ],
+      })],
+      medicines: [lisinopril],
+    }));
+
+    const replacement = await PrescriptionService.amendPrescription('RX-TEST0001', doctor, { disease: 'Essential hypertension' }, 'Clarify diagnosis');
+    expect(replacement.medicines.map(line => line.remainingQuantity)).toEqual([0, 5]);
+  });
+
+  it('supersedes the original and records the amendment', async () => {
+    const replacement = await PrescriptionService.amendPrescription('RX-TEST0001', doctor, { disease: 'Essential hypertension' }, 'Clarify diagnosis');
+
+    const original = (await getRepository().getPrescriptions()).find(p => p.tokenId === 'RX-TEST0001');
+    expect(original?.status).toBe('superseded');
+    expect(original?.supersededBy).toBe(replacement.tokenId);
+    const [entry] = await PrescriptionService.getAuditEntries('RX-TEST0001');
+    expect(entry).toMatchObject({ action: 'amended', reason: 'Clarify diagnosis', replacementTokenId: replacement.tokenId });
+  });
+});
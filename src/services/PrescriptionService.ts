@@ -1,5 +1,27 @@
 import { toast } from 'sonner';
-import { Web3Service } from './Web3Service';
+import { Web3Service, OnChainPrescription } from './Web3Service';
+import { AuditEntry, DispenseEvent, getRepository } from './storage';
+import type { User } from '@/contexts/AuthContext';
+import { PatientService } from './PatientService';
+import { ChainIndexer } from './ChainIndexer';
+import { TrackedTransaction, TransactionManager } from './TransactionManager';
+import { TransactionCancelledError } from './TransactionPreflight';
+import { ChainOutbox, OutboxItem } from './ChainOutbox';
+import { SiweService } from './SiweService';
+import {
+  checkMedicinesCommitment,
+  encodeMedicinesCommitment,
+  hashMedicines,
+} from './medicineCommitment';
+import { deriveStatus, getDispenseBlock, withDerivedStatus } from './prescriptionLifecycle';
+import { buildQrSigningMessage, getQrClaims } from './prescriptionQr';
+import {
+  PRESCRIPTION_TYPES,
+  PrescriptionSignature,
+  buildPrescriptionTypedData,
+  getPrescriptionDomain,
+} from './prescriptionSignature';
+import type { DosageSig } from './dosageSig';
 
 // Define medicine interface
 export interface Medicine {
@@ -13,7 +35,41 @@ export interface Medicine {
 export type DoseInterval = 'daily' | 'weekly' | 'monthly' | 'one-time';
 
 // Define prescription status
-export type PrescriptionStatus = 'active' | 'dispensed' | 'expired' | 'locked';
+export type PrescriptionStatus =
+  | 'active'
+  | 'partially-dispensed'
+  | 'dispensed'
+  | 'expired'
+  | 'locked'
+  | 'revoked'
+  | 'superseded';
+
+// Define prescription lock rule: a date range, recurring weekdays, or a cool-down after each dispense
+export type LockRule =
+  | { kind: 'range'; start: Date; end: Date; reason: string }
+  // Days of the week as returned by Date.getDay() (0 = Sunday)
+  | { kind: 'weekdays'; days: number[]; reason: string }
+  | { kind: 'after-dispense'; days: number; reason: string };
+
+// Define prescribed medicine line
+export interface PrescriptionLine {
+  medicine: Medicine;
+  quantity: number;
+  // Instructions as printed; rendered from `sig` when the line was built with the sig builder
+  dosage: string;
+  sig?: DosageSig;
+  // Reason the doctor gave for a dose outside the dosing rules for the patient's age and weight
+  doseOverrideReason?: string;
+  // Units of this line still owed in the current fill
+  remainingQuantity: number;
+}
+
+// Quantity of one prescription line a pharmacist hands over in one dispense. Lines are addressed by
+// position because a prescription may list the same medicine more than once
+export interface DispenseLineRequest {
+  lineIndex: number;
+  quantity: number;
+}
 
 // Define prescription interface
 export interface Prescription {
@@ -25,34 +81,72 @@ export interface Prescription {
   doctorId: string;
   doctorName: string;
   disease: string;
-  medicines: {
-    medicine: Medicine;
-    quantity: number;
-    dosage: string;
-  }[];
+  medicines: PrescriptionLine[];
   doseInterval: DoseInterval;
   doseValidity: Date;
+  // Number of fills authorised, including the first (always 1 for one-time prescriptions)
+  refills: number;
+  // Fills still available; the prescription stays active while this is above zero
+  refillsRemaining: number;
   created: Date;
-  lockDates: Date[];
+  locks: LockRule[];
   status: PrescriptionStatus;
   nextValidDose: Date | null;
   dispensedDates: Date[];
   // New blockchain-related fields
   blockchainTxHash?: string;
   ethereumAddress?: string;
+  // bytes32 token the prescription is recorded under in the smart contract
+  contractToken?: string;
+  // keccak256 of the canonical medicine list, committed on chain in place of a single drug name
+  medicinesHash?: string;
+  // Set when the issuing doctor revokes the prescription
+  revokedAt?: Date;
+  revocationReason?: string;
+  // Token of the amended version that replaces this one
+  supersededBy?: string;
+  // Token of the version this one amends
+  supersedes?: string;
+  // Doctor wallet that signed the QR claims, and its EIP-191 signature
+  qrSigner?: string;
+  qrSignature?: string;
+  // EIP-712 signature over the full prescription by the issuing doctor's wallet
+  doctorSignature?: PrescriptionSignature;
+  // Major interactions the doctor prescribed through, with the documented reason
+  interactionOverride?: InteractionOverride;
+  // Allergy and contraindication flags the doctor prescribed through, with the documented reason
+  contraindicationOverride?: ContraindicationOverride;
+  // Template, and the version of it, the doctor started the prescription from
+  fromTemplate?: { templateId: string; version: number };
+}
+
+// A doctor's decision to issue a prescription despite major interaction warnings
+export interface InteractionOverride {
+  reason: string;
+  // Summaries of the warnings that were overridden
+  interactions: string[];
+}
+
+// A doctor's decision to issue a prescription despite absolute allergy or contraindication flags
+export interface ContraindicationOverride {
+  reason: string;
+  // Summaries of the flags that were overridden
+  flags: string[];
 }
 
-// Mock medicines data
-export const medicines: Medicine[] = [
-  { id: '1', name: 'Amoxicillin 500mg', available: true, quantity: 150 },
-  { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 },
-  { id: '3', name: 'Metformin 850mg', available: false, quantity: 0 },
-  { id: '4', name: 'Atorvastatin 20mg', available: true, quantity: 80 },
-  { id: '5', name: 'Albuterol Inhaler', available: true, quantity: 45 },
-  { id: '6', name: 'Levothyroxine 50mcg', available: true, quantity: 120 },
-  { id: '7', name: 'Prednisone 5mg', available: true, quantity: 60 },
-  { id: '8', name: 'Gabapentin 300mg', available: false, quantity: 0 },
-];
+// Fields a doctor can change when amending a prescription
+export type PrescriptionAmendment = Partial<
+  Pick<Prescription, 'disease' | 'doseInterval' | 'doseValidity' | 'refills' | 'locks'>
+> & {
+  medicines?: Omit<PrescriptionLine, 'remainingQuantity'>[];
+};
+
+// Result of checking a prescription's medicine list against its stored hash and the chain.
+// 'legacy' means the chain only holds the first medicine's name, so the other lines could not be checked
+export interface MedicineIntegrity {
+  status: 'verified' | 'legacy' | 'tampered' | 'unrecorded' | 'unavailable';
+  detail: string;
+}
 
 // Generate prescription token - enhanced with blockchain compatibility
 export function generatePrescriptionToken(): string {
@@ -65,74 +159,6 @@ export function generatePrescriptionToken(): string {
   return result;
 }
 
-// Create mock prescriptions
-const today = new Date();
-const tomorrow = new Date(today);
-tomorrow.setDate(today.getDate() + 1);
-const nextWeek = new Date(today);
-nextWeek.setDate(today.getDate() + 7);
-const lastWeek = new Date(today);
-lastWeek.setDate(today.getDate() - 7);
-const twoWeeksAgo = new Date(today);
-twoWeeksAgo.setDate(today.getDate() - 14);
-
-// Mock prescriptions data
-let mockPrescriptions: Prescription[] = [
-  {
-    id: '1',
-    tokenId: 'RX-ABC12345',
-    patientId: '2',
-    patientName: 'Jane Doe',
-    patientAge: 35,
-    doctorId: '1',
-    doctorName: 'Dr. John Smith',
-    disease: 'Hypertension',
-    medicines: [
-      { 
-        medicine: medicines[1], // Lisinopril
-        quantity: 30, 
-        dosage: '1 tablet daily'
-      },
-      { 
-        medicine: medicines[3], // Atorvastatin
-        quantity: 30, 
-        dosage: '1 tablet at bedtime'
-      }
-    ],
-    doseInterval: 'monthly',
-    doseValidity: nextWeek,
-    created: twoWeeksAgo,
-    lockDates: [],
-    status: 'active',
-    nextValidDose: today,
-    dispensedDates: [twoWeeksAgo],
-  },
-  {
-    id: '2',
-    tokenId: 'RX-DEF67890',
-    patientId: '2',
-    patientName: 'Jane Doe',
-    patientAge: 35,
-    doctorId: '1',
-    doctorName: 'Dr. John Smith',
-    disease: 'Bacterial Infection',
-    medicines: [
-      { 
-        medicine: medicines[0], // Amoxicillin
-        quantity: 21, 
-        dosage: '1 capsule three times daily'
-      }
-    ],
-    doseInterval: 'one-time',
-    doseValidity: lastWeek,
-    created: twoWeeksAgo,
-    lockDates: [],
-    status: 'dispensed',
-    nextValidDose: null,
-    dispensedDates: [lastWeek],
-  }
-];
-
 // Helper to convert dose interval to seconds for smart contract
 const doseIntervalToSeconds = (interval: DoseInterval): number => {
   switch (interval) {
@@ -148,141 +174,528 @@ const doseIntervalToSeconds = (interval: DoseInterval): number => {
   }
 };
 
+// Find a prescription by its RX- token or its bytes32 contract token
+const findByToken = (prescriptions: Prescription[], token: string): Prescription | undefined => {
+  // Clean the token in case it comes from a QR code with whitespace
+  const cleanToken = token.trim();
+  return prescriptions.find(
+    p => p.tokenId === cleanToken || p.contractToken?.toLowerCase() === cleanToken.toLowerCase()
+  );
+};
+
+// Statuses after which a prescription can no longer be revoked or amended
+const FINAL_STATUSES: PrescriptionStatus[] = ['dispensed', 'expired', 'revoked', 'superseded'];
+
+// Load a prescription the given doctor issued and may still change, or reject with a toast
+const requireChangeable = async (tokenId: string, doctor: Pick<User, 'id'>): Promise<Prescription> => {
+  const stored = findByToken(await getRepository().getPrescriptions(), tokenId);
+  if (!stored) {
+    toast.error('Prescription not found');
+    return Promise.reject(new Error('Prescription not found'));
+  }
+  if (stored.doctorId !== doctor.id) {
+    toast.error('Only the prescribing doctor can change this prescription');
+    return Promise.reject(new Error('Not the issuing doctor'));
+  }
+  const status = deriveStatus(stored);
+  if (FINAL_STATUSES.includes(status)) {
+    toast.error(`A ${status} prescription can no longer be changed`);
+    return Promise.reject(new Error(`Prescription is ${status}`));
+  }
+  return stored;
+};
+
+// Whether the connected wallet is the one the signed-in user proved with Sign-In With Ethereum
+const hasProvenWallet = () => {
+  const { isConnected, address } = Web3Service.getState();
+  return isConnected && SiweService.isProvenAddress(address);
+};
+
+// Whether the wallet can send contract transactions right now
+const canWriteToChain = () => hasProvenWallet() && !Web3Service.getState().isWrongNetwork;
+
+// Whether a prescription is on chain or queued to go there, so later writes for it belong on chain too
+const isChainBound = (prescription: Prescription): prescription is Prescription & { contractToken: string } =>
+  !!prescription.contractToken &&
+  (!!prescription.blockchainTxHash || ChainOutbox.hasQueued(prescription.contractToken, 'create'));
+
+// Send the contract call that records a prescription; resolves with the hash once the transaction is sent
+const submitCreation = (prescription: Prescription, contractToken: string, patientAddress: string) =>
+  Web3Service.createPrescription(
+    contractToken,
+    patientAddress,
+    prescription.disease,
+    // The contract holds a single drug string, so commit a hash of every line
+    encodeMedicinesCommitment(prescription.medicines),
+    // The contract counts fills down from `quantity`, so it tracks the fills still owed rather than units
+    prescription.refillsRemaining,
+    doseIntervalToSeconds(prescription.doseInterval)
+  );
+
+// Mark a queued dispense event as recorded on chain
+const confirmDispenseEvent = async (eventId: string | undefined, txHash: string) => {
+  const repository = getRepository();
+  const event = (await repository.getDispenseEvents()).find(e => e.id === eventId);
+  if (event && event.chainStatus !== 'confirmed') {
+    await repository.updateDispenseEvent({ ...event, blockchainTxHash: txHash, chainStatus: 'confirmed' });
+  }
+};
+
+// Send an on-chain marker for a doctor action when the prescription is on chain. Without a wallet,
+// or when the marker fails, it is queued in the outbox and sent later
+const recordChainMarker = async (
+  prescription: Prescription,
+  marker: string,
+  actor: Pick<User, 'id' | 'name'>,
+  description: string
+): Promise<string | undefined> => {
+  if (!isChainBound(prescription)) {
+    return undefined;
+  }
+
+  const writeNow = canWriteToChain() &&
+    !!prescription.blockchainTxHash &&
+    !ChainOutbox.hasQueued(prescription.contractToken) &&
+    !TransactionManager.getPending(prescription.contractToken);
+  const txHash = writeNow ? await Web3Service.recordMarker(marker, prescription.contractToken) : null;
+  if (!txHash) {
+    ChainOutbox.enqueue({
+      kind: 'marker',
+      description,
+      tokenId: prescription.tokenId,
+      contractToken: prescription.contractToken,
+      actorId: actor.id,
+      actorName: actor.name,
+      marker,
+      lastError: writeNow ? 'The marker transaction did not go through' : undefined,
+    });
+  }
+  return txHash || undefined;
+};
+
+// Fields a caller supplies for a new prescription; the rest are set when it is issued
+type NewPrescriptionData = Omit<
+  Prescription,
+  'id' | 'tokenId' | 'status' | 'nextValidDose' | 'dispensedDates' | 'refillsRemaining' | 'medicines'
+> & {
+  medicines: Omit<PrescriptionLine, 'remainingQuantity'>[];
+};
+
+// Build the record for a new prescription with fresh tokens and every fill still owed
+const buildPrescription = (data: NewPrescriptionData): Prescription => {
+  const refills = data.doseInterval === 'one-time' ? 1 : Math.max(1, data.refills);
+  return {
+    ...data,
+    medicines: data.medicines.map(line => ({ ...line, remainingQuantity: line.quantity })),
+    refills,
+    refillsRemaining: refills,
+    // Random so records created on different devices never share an id
+    id: crypto.randomUUID(),
+    // Human-readable token for the UI, and a bytes32 token for the contract
+    tokenId: generatePrescriptionToken(),
+    contractToken: Web3Service.generateTokenForContract(),
+    medicinesHash: hashMedicines(data.medicines),
+    status: 'active',
+    nextValidDose: new Date(),
+    dispensedDates: [],
+  };
+};
+
+// Carry the dispense progress of a replaced version over to its amendment, so amending never hands
+// back fills or units already dispensed. Changing the fills or a line's quantity moves what is left
+// by the same difference
+const carryProgress = (stored: Prescription, amended: Prescription): Prescription => {
+  const refillsRemaining = Math.min(
+    amended.refills,
+    Math.max(0, stored.refillsRemaining + amended.refills - stored.refills)
+  );
+  const carried: Prescription = {
+    ...amended,
+    refillsRemaining,
+    medicines: amended.medicines.map((line, index) => {
+      // A medicine can be listed more than once, so the nth line of it carries on from its nth stored line
+      const occurrence = amended.medicines.slice(0, index).filter(l => l.medicine.id === line.medicine.id).length;
+      const previous = stored.medicines.filter(l => l.medicine.id === line.medicine.id)[occurrence];
+      if (!previous) return line;
+      const remaining = previous.remainingQuantity + line.quantity - previous.quantity;
+      return { ...line, remainingQuantity: Math.min(line.quantity, Math.max(0, remaining)) };
+    }),
+    nextValidDose: stored.nextValidDose,
+    dispensedDates: stored.dispensedDates,
+  };
+  return { ...carried, status: deriveStatus(carried) };
+};
+
+// Send the chain write for a built prescription and sign it with the doctor's wallet. Resolves with the
+// prescription, carrying the transaction hash once sent, and why the chain write was deferred if it was.
+// A write the doctor cancelled in the fee preview is left for them to retry by hand (`manualRetry`)
+const issuePrescription = async (
+  prescription: Prescription
+): Promise<{ prescription: Prescription; chainDeferral?: string; manualRetry?: boolean }> => {
+  const issued = { ...prescription };
+  const web3State = Web3Service.getState();
+
+  // The contract records the patient's address, so only patients with a verified wallet go on chain
+  const patientWallet = await PatientService.getPatientWallet(issued.patientId);
+
+  // If wallet is connected, try to send to blockchain; otherwise the write waits in the outbox
+  let chainDeferral: string | undefined;
+  let manualRetry = false;
+  if (!patientWallet) {
+    chainDeferral = 'Patient has no linked wallet';
+    toast.warning("Patient has no linked wallet", {
+      description: "The prescription will be recorded on the blockchain once the patient links their wallet."
+    });
+  } else if (!canWriteToChain()) {
+    toast.warning(web3State.isConnected ? "Wallet not verified" : "Wallet not connected", {
+      description: web3State.isConnected
+        ? "The prescription will be recorded on the blockchain once you sign in with Ethereum using this wallet."
+        : "The prescription will be recorded on the blockchain when you connect your wallet."
+    });
+  } else {
+    let blockchainTxHash: string | null = null;
+    try {
+      blockchainTxHash = await submitCreation(issued, issued.contractToken!, patientWallet.address);
+    } catch (error) {
+      manualRetry = error instanceof TransactionCancelledError;
+      if (!manualRetry) {
+        console.error("Blockchain error:", error);
+      }
+    }
+
+    if (blockchainTxHash) {
+      issued.blockchainTxHash = blockchainTxHash;
+      issued.ethereumAddress = web3State.address!;
+    } else if (manualRetry) {
+      chainDeferral = 'Cancelled in the fee preview';
+      toast.warning("Prescription not recorded on blockchain", {
+        description: "It is listed under unsynced changes; use Retry now to send it."
+      });
+    } else {
+      chainDeferral = 'The transaction was not sent';
+      toast.error("Failed to record prescription on blockchain", {
+        description: "It has been queued and will be retried."
+      });
+    }
+  }
+
+  // Sign the whole prescription as EIP-712 typed data so any role can prove authorship without the chain
+  if (hasProvenWallet() && web3State.address && web3State.chainId) {
+    const chainId = Number(web3State.chainId);
+    const signature = await Web3Service.signTypedData(
+      getPrescriptionDomain(chainId),
+      PRESCRIPTION_TYPES,
+      buildPrescriptionTypedData(issued)
+    );
+    if (signature) {
+      issued.doctorSignature = { signer: web3State.address, signature, chainId };
+    }
+  }
+
+  // Sign the QR claims with the doctor's wallet so pharmacists can check them offline
+  if (hasProvenWallet() && web3State.address) {
+    const claims = getQrClaims(issued, web3State.address);
+    const qrSignature = claims ? await Web3Service.signMessage(buildQrSigningMessage(claims)) : null;
+    if (claims && qrSignature) {
+      issued.qrSigner = claims.doctor;
+      issued.qrSignature = qrSignature;
+    }
+  }
+
+  return { prescription: issued, chainDeferral, manualRetry };
+};
+
+// Queue the chain write for a stored prescription whose creation transaction was not sent
+const queueCreation = (prescription: Prescription, lastError?: string, manualRetry?: boolean) => {
+  ChainOutbox.enqueue({
+    kind: 'create',
+    description: 'Record prescription',
+    tokenId: prescription.tokenId,
+    contractToken: prescription.contractToken!,
+    actorId: prescription.doctorId,
+    actorName: prescription.doctorName,
+    lastError,
+    manualRetry,
+  });
+};
+
 // PrescriptionService for handling prescriptions
 export const PrescriptionService = {
   // Get all prescriptions
-  getAllPrescriptions: (): Promise<Prescription[]> => {
-    return Promise.resolve(mockPrescriptions);
+  getAllPrescriptions: async (): Promise<Prescription[]> => {
+    const prescriptions = await getRepository().getPrescriptions();
+    return prescriptions.map(p => withDerivedStatus(p));
   },
 
   // Get prescriptions by doctor
-  getDoctorPrescriptions: (doctorId: string): Promise<Prescription[]> => {
-    return Promise.resolve(
-      mockPrescriptions.filter(p => p.doctorId === doctorId)
-    );
+  getDoctorPrescriptions: async (doctorId: string): Promise<Prescription[]> => {
+    const prescriptions = await getRepository().getPrescriptions();
+    return prescriptions.filter(p => p.doctorId === doctorId).map(p => withDerivedStatus(p));
   },
 
   // Get prescriptions by patient
-  getPatientPrescriptions: (patientId: string): Promise<Prescription[]> => {
-    return Promise.resolve(
-      mockPrescriptions.filter(p => p.patientId === patientId)
-    );
+  getPatientPrescriptions: async (patientId: string): Promise<Prescription[]> => {
+    const prescriptions = await getRepository().getPrescriptions();
+    return prescriptions.filter(p => p.patientId === patientId).map(p => withDerivedStatus(p));
   },
 
-  // Get prescription by token
-  getPrescriptionByToken: (token: string): Promise<Prescription | null> => {
-    // Clean the token in case it comes from a QR code with whitespace
-    const cleanToken = token.trim();
-    const prescription = mockPrescriptions.find(p => p.tokenId === cleanToken);
-    return Promise.resolve(prescription || null);
+  // Get prescription by token (accepts the RX- token or the bytes32 contract token)
+  getPrescriptionByToken: async (token: string): Promise<Prescription | null> => {
+    const prescriptions = await getRepository().getPrescriptions();
+    const prescription = findByToken(prescriptions, token);
+    return prescription ? withDerivedStatus(prescription) : null;
+  },
+
+  // Read the on-chain record for a prescription via its stored contract token
+  getOnChainPrescription: async (tokenId: string): Promise<OnChainPrescription | null> => {
+    const prescription = await PrescriptionService.getPrescriptionByToken(tokenId);
+    if (!prescription?.contractToken || !prescription.blockchainTxHash) {
+      return null;
+    }
+    return Web3Service.getPrescription(prescription.contractToken);
+  },
+
+  // Recompute the medicine list hash and compare it with the stored hash and the chain commitment
+  verifyMedicineIntegrity: async (prescription: Prescription): Promise<MedicineIntegrity> => {
+    const hash = hashMedicines(prescription.medicines);
+    if (prescription.medicinesHash && prescription.medicinesHash !== hash) {
+      return { status: 'tampered', detail: 'Medicine lines were changed after the prescription was issued' };
+    }
+    if (!prescription.contractToken || !prescription.blockchainTxHash) {
+      return { status: 'unrecorded', detail: 'Prescription was not recorded on the blockchain' };
+    }
+
+    // Prefer the indexed projection; fall back to reading the contract through the wallet
+    const indexed = ChainIndexer.getByToken(prescription.contractToken);
+    const drug = indexed
+      ? indexed.drug
+      : Web3Service.getState().isConnected
+        ? (await Web3Service.getPrescription(prescription.contractToken))?.drug
+        : undefined;
+    if (drug === undefined) {
+      return { status: 'unavailable', detail: 'Connect a wallet to check the blockchain record' };
+    }
+
+    switch (checkMedicinesCommitment(drug, prescription.medicines)) {
+      case 'match':
+        return { status: 'verified', detail: 'All medicine lines match the blockchain record' };
+      case 'legacy-match':
+        return {
+          status: 'legacy',
+          detail: 'Only the first medicine was recorded on the blockchain; the other lines could not be checked',
+        };
+      default:
+        return { status: 'tampered', detail: 'Medicine lines do not match the blockchain record' };
+    }
   },
 
   // Create new prescription with blockchain integration
-  createPrescription: async (prescriptionData: Omit<Prescription, 'id' | 'tokenId' | 'status' | 'nextValidDose' | 'dispensedDates'>): Promise<Prescription> => {
-    // Generate a random token for UI
-    const uiToken = generatePrescriptionToken();
-    
-    // Generate a random blockchain-compatible token (bytes32)
-    const blockchainToken = Web3Service.generateTokenForContract();
-    
-    // Get connected wallet state
-    const web3State = Web3Service.getState();
-    let blockchainTxHash: string | null = null;
-    
-    // Create the prescription object
-    const newPrescription: Prescription = {
-      ...prescriptionData,
-      id: String(mockPrescriptions.length + 1),
-      tokenId: uiToken,
-      status: 'active',
-      nextValidDose: new Date(),
-      dispensedDates: [],
-    };
+  createPrescription: async (prescriptionData: NewPrescriptionData): Promise<Prescription> => {
+    const repository = getRepository();
+    const { prescription, chainDeferral, manualRetry } = await issuePrescription(buildPrescription(prescriptionData));
 
-    // If wallet is connected, try to send to blockchain
-    if (web3State.isConnected && web3State.address) {
-      try {
-        // We'll use the first medicine as the primary one for the blockchain
-        // (The contract's data model is simpler than our UI model)
-        const primaryMedicine = prescriptionData.medicines[0];
-        
-        // Patient address - in a real app, we would have a mapping of patient IDs to wallet addresses
-        // For now, let's use a dummy patient address for demo purposes
-        // In production, this would come from the patient's actual Ethereum address
-        const patientAddress = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"; // Replace with actual patient address
-        
-        // Convert our dose interval to seconds for the smart contract
-        const intervalSeconds = doseIntervalToSeconds(prescriptionData.doseInterval);
-        
-        // Send to blockchain
-        blockchainTxHash = await Web3Service.createPrescription(
-          blockchainToken,
-          patientAddress,
-          prescriptionData.disease,
-          primaryMedicine.medicine.name,
-          primaryMedicine.quantity,
-          intervalSeconds
-        );
-        
-        if (blockchainTxHash) {
-          newPrescription.blockchainTxHash = blockchainTxHash;
-          newPrescription.ethereumAddress = web3State.address;
-        }
-      } catch (error) {
-        console.error("Blockchain error:", error);
-        toast.error("Failed to record prescription on blockchain", {
-          description: "The prescription was created locally only."
+    await repository.savePrescription(prescription);
+    if (!prescription.blockchainTxHash) {
+      queueCreation(prescription, chainDeferral, manualRetry);
+    }
+    toast.success('Prescription created successfully');
+    return prescription;
+  },
+
+  // Keep a prescription's chain record in step with its creation transaction once that settles,
+  // including after a reload: a sped-up transaction has a new hash, a failed one never reached the chain
+  applyTransactionOutcome: async (tx: TrackedTransaction): Promise<void> => {
+    if (tx.kind !== 'create-prescription' || !tx.contractToken) return;
+
+    const repository = getRepository();
+    const prescription = findByToken(await repository.getPrescriptions(), tx.contractToken);
+    if (!prescription || (prescription.blockchainTxHash !== tx.id && prescription.blockchainTxHash !== tx.hash)) {
+      return;
+    }
+
+    if (tx.status === 'confirmed') {
+      if (prescription.blockchainTxHash !== tx.hash) {
+        await repository.savePrescription({ ...prescription, blockchainTxHash: tx.hash });
+      }
+    } else if (tx.status !== 'pending') {
+      const unrecorded = { ...prescription, blockchainTxHash: undefined, ethereumAddress: undefined };
+      await repository.savePrescription(unrecorded);
+      // Send the creation again, unless a retry is already waiting
+      if (!ChainOutbox.hasQueued(tx.contractToken, 'create')) {
+        queueCreation(unrecorded, tx.status === 'replaced' ? 'The transaction was replaced' : tx.error ?? 'The transaction failed');
+      }
+    }
+  },
+
+  // Send a chain write from the outbox; throws so the outbox retries it later
+  submitOutboxItem: async (item: OutboxItem): Promise<void> => {
+    const repository = getRepository();
+    const prescription = findByToken(await repository.getPrescriptions(), item.tokenId);
+    if (!prescription?.contractToken) {
+      throw new Error('Prescription not found');
+    }
+    const contractToken = prescription.contractToken;
+
+    // A reload interrupted an earlier attempt after its transaction was sent: follow that one instead of sending again
+    const earlier = item.submittedTxId ? TransactionManager.getTransaction(item.submittedTxId) : null;
+    if (earlier?.status === 'pending' && item.kind !== 'create') {
+      throw new Error('Waiting for the earlier transaction to confirm');
+    }
+    const alreadySent = earlier?.status === 'confirmed' || earlier?.status === 'pending' ? earlier.hash : null;
+
+    if (item.kind === 'create') {
+      if (prescription.blockchainTxHash) return;
+      // Recorded from another device in the meantime
+      const indexed = ChainIndexer.getByToken(contractToken);
+      if (alreadySent || indexed) {
+        await repository.savePrescription({
+          ...prescription,
+          blockchainTxHash: alreadySent ?? indexed!.txHash,
+          ethereumAddress: earlier?.from ?? indexed!.doctor,
         });
+        return;
       }
-    } else {
-      toast.warning("Wallet not connected", {
-        description: "Prescription created locally only. Connect wallet to record on blockchain."
+
+      const patientWallet = await PatientService.getPatientWallet(prescription.patientId);
+      if (!patientWallet) {
+        throw new Error('Patient has no linked wallet');
+      }
+      const txHash = await submitCreation(prescription, contractToken, patientWallet.address);
+      if (!txHash) {
+        throw new Error('The transaction was not sent');
+      }
+      await repository.savePrescription({
+        ...prescription,
+        blockchainTxHash: txHash,
+        ethereumAddress: Web3Service.getState().address ?? undefined,
       });
+      return;
     }
 
-    mockPrescriptions = [...mockPrescriptions, newPrescription];
-    toast.success('Prescription created successfully');
-    return Promise.resolve(newPrescription);
+    // Dispenses and markers need the prescription's creation to be mined first
+    if (!prescription.blockchainTxHash || TransactionManager.getPending(contractToken)) {
+      throw new Error('Waiting for the prescription to be recorded on the blockchain');
+    }
+
+    if (item.kind === 'dispense') {
+      const txHash = alreadySent ?? await Web3Service.dispensePrescription(contractToken);
+      if (!txHash) {
+        throw new Error('The dispense transaction did not go through');
+      }
+      await confirmDispenseEvent(item.dispenseEventId, txHash);
+      return;
+    }
+
+    if (!alreadySent && !(await Web3Service.recordMarker(item.marker!, contractToken))) {
+      throw new Error('The marker transaction did not go through');
+    }
   },
 
-  // Dispense prescription with blockchain integration
-  dispensePrescription: async (tokenId: string): Promise<Prescription> => {
-    const index = mockPrescriptions.findIndex(p => p.tokenId === tokenId);
+  // Dispense prescription with blockchain integration. `lines` limits the handover to some
+  // medicines or a partial quantity; by default everything still owed in this fill is handed over.
+  dispensePrescription: async (
+    tokenId: string,
+    dispensedBy: Pick<User, 'id' | 'name'>,
+    lines?: DispenseLineRequest[]
+  ): Promise<Prescription> => {
+    const repository = getRepository();
+    const stored = findByToken(await repository.getPrescriptions(), tokenId);
     
-    if (index === -1) {
+    if (!stored) {
       toast.error('Prescription not found');
       return Promise.reject(new Error('Prescription not found'));
     }
 
-    const prescription = { ...mockPrescriptions[index] };
-    
-    // Check if already dispensed
-    if (prescription.status === 'dispensed') {
-      toast.error('This prescription has already been dispensed');
-      return Promise.reject(new Error('Already dispensed'));
-    }
+    const prescription = { ...stored, medicines: stored.medicines.map(line => ({ ...line })) };
     
-    // Check if locked
+    // Check refills, expiry, lock dates and the dose interval
     const now = new Date();
-    if (prescription.lockDates.some(date => date.getTime() > now.getTime())) {
-      toast.error('This prescription is currently locked');
-      return Promise.reject(new Error('Prescription locked'));
+    const dispenseBlock = getDispenseBlock(prescription, now);
+    if (dispenseBlock) {
+      toast.error(dispenseBlock);
+      return Promise.reject(new Error(dispenseBlock));
     }
 
-    // Try to update on blockchain if connected
+    // Work out what is actually handed over, capped by what is owed and what is in stock
+    const stock = await repository.getMedicines();
+    const requested = lines ?? prescription.medicines.map((line, lineIndex) => ({
+      lineIndex,
+      quantity: line.remainingQuantity,
+    }));
+    const handover: DispenseEvent['medicines'] = [];
+    // Stock already taken by earlier lines of this dispense, for medicines listed on more than one line
+    const taken = new Map<string, number>();
+    for (const request of requested) {
+      if (request.quantity <= 0) continue;
+      const line = prescription.medicines[request.lineIndex];
+      if (!line) {
+        toast.error('Medicine is not part of this prescription');
+        return Promise.reject(new Error(`Unknown prescription line ${request.lineIndex}`));
+      }
+      if (request.quantity > line.remainingQuantity) {
+        toast.error(`Only ${line.remainingQuantity} of ${line.medicine.name} left to dispense`);
+        return Promise.reject(new Error('Quantity exceeds remaining'));
+      }
+      const inStock = stock.find(m => m.id === line.medicine.id);
+      const available = (inStock?.available ? inStock.quantity : 0) - (taken.get(line.medicine.id) ?? 0);
+      // Skip out-of-stock lines when dispensing everything; they stay claimable elsewhere
+      const quantity = lines ? request.quantity : Math.min(request.quantity, available);
+      if (quantity > available) {
+        toast.error(`Only ${available} of ${line.medicine.name} in stock`);
+        return Promise.reject(new Error('Insufficient stock'));
+      }
+      if (quantity <= 0) continue;
+      line.remainingQuantity -= quantity;
+      taken.set(line.medicine.id, (taken.get(line.medicine.id) ?? 0) + quantity);
+      handover.push({
+        medicineId: line.medicine.id,
+        medicineName: line.medicine.name,
+        lineIndex: request.lineIndex,
+        quantity,
+      });
+    }
+    if (handover.length === 0) {
+      toast.error('Nothing to dispense', { description: 'The selected medicines are out of stock' });
+      return Promise.reject(new Error('Nothing to dispense'));
+    }
+    const fillComplete = prescription.medicines.every(line => line.remainingQuantity === 0);
+
+    // Try to update on blockchain if connected; the contract counts whole fills, so only a completed fill is recorded
     const web3State = Web3Service.getState();
-    if (web3State.isConnected && prescription.blockchainTxHash) {
+    let dispenseTxHash: string | null = null;
+    // Without a wallet, or while earlier writes for this prescription are still waiting, the dispense is queued behind them
+    let queueDispense = false;
+    if (fillComplete && isChainBound(prescription)) {
+      queueDispense = !canWriteToChain() ||
+        !prescription.blockchainTxHash ||
+        ChainOutbox.hasQueued(prescription.contractToken) ||
+        !!TransactionManager.getPending(prescription.contractToken);
+    }
+    if (fillComplete && !queueDispense && web3State.isConnected && prescription.blockchainTxHash && prescription.contractToken) {
       try {
-        // Note: In a real app, you would need to map between your UI tokens and the blockchain tokens
-        // For demo purposes, we'll assume the token is already in the right format
-        const blockchainToken = Web3Service.generateTokenForContract(); // This would actually be stored/retrieved
-        
-        const success = await Web3Service.dispensePrescription(blockchainToken);
-        if (!success) {
+        // The chain is authoritative: refuse if the contract says nothing is left to dispense
+        const onChain = await Web3Service.getPrescription(prescription.contractToken);
+        if (onChain && onChain.remaining <= 0) {
+          toast.error('All refills have already been dispensed on the blockchain');
+          return Promise.reject(new Error('Already dispensed on chain'));
+        }
+        if (onChain && onChain.interval > 0 && onChain.lastDispensed.getTime() > 0) {
+          const nextOnChain = new Date(onChain.lastDispensed.getTime() + onChain.interval * 1000);
+          if (now.getTime() < nextOnChain.getTime()) {
+            toast.error(`Next refill available on ${nextOnChain.toLocaleString()}`);
+            return Promise.reject(new Error('Refill requested too early'));
+          }
+        }
+
+        dispenseTxHash = await Web3Service.dispensePrescription(prescription.contractToken);
+        if (!dispenseTxHash) {
           toast.error('Blockchain verification failed');
           return Promise.reject(new Error('Blockchain verification failed'));
         }
       } catch (error) {
+        if (error instanceof TransactionCancelledError) {
+          return Promise.reject(error);
+        }
         console.error("Blockchain error during dispensing:", error);
         toast.error("Failed to update blockchain record", {
           description: "Please try again or contact support."
@@ -291,42 +704,178 @@ export const PrescriptionService = {
       }
     }
 
-    // Update prescription
-    prescription.status = 'dispensed';
-    prescription.dispensedDates = [...prescription.dispensedDates, new Date()];
-    prescription.nextValidDose = null;
-    
-    // Update the array
-    mockPrescriptions = [
-      ...mockPrescriptions.slice(0, index),
-      prescription,
-      ...mockPrescriptions.slice(index + 1)
-    ];
-    
-    // Update medicine inventory
-    prescription.medicines.forEach(med => {
-      const medicineIndex = medicines.findIndex(m => m.id === med.medicine.id);
-      if (medicineIndex >= 0) {
-        medicines[medicineIndex].quantity -= med.quantity;
-        if (medicines[medicineIndex].quantity <= 0) {
-          medicines[medicineIndex].available = false;
-        }
+    const dispensedAt = new Date();
+    prescription.dispensedDates = [...prescription.dispensedDates, dispensedAt];
+    if (fillComplete) {
+      // Use up one fill and schedule the next one from the dose interval
+      const intervalSeconds = doseIntervalToSeconds(prescription.doseInterval);
+      prescription.refillsRemaining = intervalSeconds === 0 ? 0 : prescription.refillsRemaining - 1;
+      if (prescription.refillsRemaining > 0) {
+        prescription.nextValidDose = new Date(dispensedAt.getTime() + intervalSeconds * 1000);
+        prescription.medicines.forEach(line => {
+          line.remainingQuantity = line.quantity;
+        });
+      } else {
+        prescription.nextValidDose = null;
       }
+    }
+    // An unfinished fill stays claimable here or at another pharmacy; refills due after doseValidity expire
+    prescription.status = deriveStatus(prescription, dispensedAt);
+
+    // Store the prescription, deduct inventory and record the handover in one step
+    const dispenseEventId = `${prescription.tokenId}-${dispensedAt.getTime()}`;
+    await repository.recordDispense(prescription, {
+      id: dispenseEventId,
+      prescriptionId: prescription.id,
+      tokenId: prescription.tokenId,
+      dispensedAt,
+      pharmacistId: dispensedBy.id,
+      pharmacistName: dispensedBy.name,
+      pharmacistWallet: web3State.address || undefined,
+      medicines: handover,
+      blockchainTxHash: dispenseTxHash || undefined,
+      chainStatus: dispenseTxHash ? 'confirmed' : queueDispense ? 'queued' : 'not-recorded',
+    });
+    if (queueDispense) {
+      ChainOutbox.enqueue({
+        kind: 'dispense',
+        description: 'Record dispense',
+        tokenId: prescription.tokenId,
+        contractToken: prescription.contractToken!,
+        actorId: dispensedBy.id,
+        actorName: dispensedBy.name,
+        dispenseEventId,
+      });
+    }
+
+    toast.success(
+      prescription.status === 'partially-dispensed'
+        ? 'Prescription partially dispensed'
+        : prescription.status === 'active'
+          ? `Prescription dispensed, ${prescription.refillsRemaining} refill(s) remaining`
+          : 'Prescription dispensed successfully'
+    );
+    return prescription;
+  },
+
+  // Revoke a prescription; only the issuing doctor can do this
+  revokePrescription: async (tokenId: string, doctor: Pick<User, 'id' | 'name'>, reason: string): Promise<Prescription> => {
+    const stored = await requireChangeable(tokenId, doctor);
+
+    const blockchainTxHash = await recordChainMarker(
+      stored,
+      `medichain:revoke:${stored.contractToken}`,
+      doctor,
+      'Record revocation'
+    );
+    const revokedAt = new Date();
+    const revoked: Prescription = {
+      ...stored,
+      status: 'revoked',
+      revokedAt,
+      revocationReason: reason,
+      nextValidDose: null,
+    };
+
+    await getRepository().recordAudit([revoked], {
+      id: `${stored.tokenId}-revoked-${revokedAt.getTime()}`,
+      prescriptionId: stored.id,
+      tokenId: stored.tokenId,
+      action: 'revoked',
+      actorId: doctor.id,
+      actorName: doctor.name,
+      reason,
+      at: revokedAt,
+      blockchainTxHash,
     });
 
-    toast.success('Prescription dispensed successfully');
-    return Promise.resolve(prescription);
+    toast.success(`Prescription ${stored.tokenId} revoked`);
+    return revoked;
+  },
+
+  // Amend a prescription by issuing a new version that supersedes the old token
+  amendPrescription: async (
+    tokenId: string,
+    doctor: Pick<User, 'id' | 'name'>,
+    changes: PrescriptionAmendment,
+    reason: string
+  ): Promise<Prescription> => {
+    const stored = await requireChangeable(tokenId, doctor);
+    const repository = getRepository();
+
+    const amended = buildPrescription({
+      patientId: stored.patientId,
+      patientName: stored.patientName,
+      patientAge: stored.patientAge,
+      doctorId: stored.doctorId,
+      doctorName: stored.doctorName,
+      disease: changes.disease ?? stored.disease,
+      medicines: changes.medicines ?? stored.medicines.map(({ medicine, quantity, dosage, sig, doseOverrideReason }) => ({ medicine, quantity, dosage, sig, doseOverrideReason })),
+      doseInterval: changes.doseInterval ?? stored.doseInterval,
+      doseValidity: changes.doseValidity ?? stored.doseValidity,
+      refills: changes.refills ?? stored.refills,
+      locks: changes.locks ?? stored.locks,
+      created: new Date(),
+      supersedes: stored.tokenId,
+      interactionOverride: stored.interactionOverride,
+      contraindicationOverride: stored.contraindicationOverride,
+      fromTemplate: stored.fromTemplate,
+    });
+    const { prescription: replacement, chainDeferral, manualRetry } = await issuePrescription(carryProgress(stored, amended));
+
+    const blockchainTxHash = await recordChainMarker(
+      stored,
+      `medichain:amend:${stored.contractToken}:${replacement.contractToken}`,
+      doctor,
+      'Record amendment'
+    );
+    const amendedAt = new Date();
+    // Store the replacement and retire the original in one step, so both are never active together
+    await repository.recordAudit([
+      { ...stored, status: 'superseded', supersededBy: replacement.tokenId, nextValidDose: null },
+      replacement,
+    ], {
+      id: `${stored.tokenId}-amended-${amendedAt.getTime()}`,
+      prescriptionId: stored.id,
+      tokenId: stored.tokenId,
+      action: 'amended',
+      actorId: doctor.id,
+      actorName: doctor.name,
+      reason,
+      at: amendedAt,
+      replacementTokenId: replacement.tokenId,
+      blockchainTxHash,
+    });
+    if (!replacement.blockchainTxHash) {
+      queueCreation(replacement, chainDeferral, manualRetry);
+    }
+
+    toast.success(`Prescription ${stored.tokenId} replaced by ${replacement.tokenId}`);
+    return replacement;
+  },
+
+  // Get audit entries, optionally for one token, newest first
+  getAuditEntries: async (tokenId?: string): Promise<AuditEntry[]> => {
+    const entries = await getRepository().getAuditEntries();
+    return entries
+      .filter(entry => !tokenId || entry.tokenId === tokenId)
+      .sort((a, b) => b.at.getTime() - a.at.getTime());
+  },
+
+  // Get dispense events, newest first
+  getDispenseEvents: async (): Promise<DispenseEvent[]> => {
+    const events = await getRepository().getDispenseEvents();
+    return events.sort((a, b) => b.dispensedAt.getTime() - a.dispensedAt.getTime());
   },
 
   // Get available medicines
   getAvailableMedicines: (): Promise<Medicine[]> => {
-    return Promise.resolve(medicines);
+    return getRepository().getMedicines();
   },
 
   // Check if prescription token is valid
-  verifyPrescriptionToken: (token: string): Promise<boolean> => {
-    const cleanToken = token.trim();
-    const prescription = mockPrescriptions.find(p => p.tokenId === cleanToken);
-    return Promise.resolve(!!prescription && prescription.status === 'active');
+  verifyPrescriptionToken: async (token: string): Promise<boolean> => {
+    const prescription = await PrescriptionService.getPrescriptionByToken(token);
+    return !!prescription && getDispenseBlock(prescription) === null;
   }
 };
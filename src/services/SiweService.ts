@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import { getRepository } from './storage';
+
+// How long a signed-in session stays valid
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// Fields of an EIP-4361 message
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+// A verified Sign-In With Ethereum session
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+// Render the message exactly as specified by EIP-4361
+const formatMessage = (fields: SiweMessageFields): string => {
+  return [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join('\n');
+};
+
+// Parse a message produced by formatMessage back into its fields
+const parseMessage = (message: string): SiweMessageFields | null => {
+  const lines = message.split('\n');
+  const header = lines[0]?.match(/^(.+) wants you to sign in with your Ethereum account:$/);
+  if (!header || lines.length < 11) return null;
+
+  const field = (name: string) => {
+    const line = lines.find(l => l.startsWith(`${name}: `));
+    return line ? line.slice(name.length + 2) : '';
+  };
+
+  return {
+    domain: header[1],
+    address: lines[1],
+    statement: lines[3],
+    uri: field('URI'),
+    version: field('Version') as '1',
+    chainId: Number(field('Chain ID')),
+    nonce: field('Nonce'),
+    issuedAt: field('Issued At'),
+    expirationTime: field('Expiration Time'),
+  };
+};
+
+// Session of the signed-in user, when they proved their wallet with Sign-In With Ethereum
+let activeSession: SiweSession | null = null;
+
+export const SiweService = {
+  // Record the signed-in user's verified session, or clear it on sign-out
+  setSession: (session: SiweSession | null) => {
+    activeSession = session;
+  },
+
+  getSession: (): SiweSession | null => activeSession,
+
+  // Whether `address` is the wallet the signed-in user proved control of, in a session that hasn't expired.
+  // Doctor signatures and chain writes are only made for such an address
+  isProvenAddress: (address: string | null | undefined): boolean =>
+    !!address &&
+    !!activeSession &&
+    activeSession.expiresAt.getTime() > Date.now() &&
+    activeSession.address.toLowerCase() === address.toLowerCase(),
+
+  // Build a sign-in message for an address with a single-use nonce issued by the backend
+  createMessage: async (address: string, chainId: number, statement: string): Promise<string> => {
+    const checksummed = ethers.getAddress(address);
+    const { nonce } = await getRepository().issueSiweNonce(checksummed);
+    const now = Date.now();
+
+    return formatMessage({
+      domain: window.location.host,
+      address: checksummed,
+      statement,
+      uri: window.location.origin,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt: new Date(now).toISOString(),
+      expirationTime: new Date(now + SESSION_TTL_MS).toISOString(),
+    });
+  },
+
+  // Verify a signed message and consume its nonce with the backend, so the message can't be replayed.
+  // Throws if anything doesn't check out.
+  verify: async (message: string, signature: string): Promise<SiweSession> => {
+    const fields = parseMessage(message);
+    if (!fields) {
+      throw new Error('Malformed sign-in message');
+    }
+
+    if (!(await getRepository().consumeSiweNonce(fields.nonce, fields.address))) {
+      throw new Error('Sign-in request expired or already used');
+    }
+    if (fields.domain !== window.location.host) {
+      throw new Error('Sign-in message was issued for a different site');
+    }
+
+    const expiresAt = new Date(fields.expirationTime);
+    if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now()) {
+      throw new Error('Sign-in message has expired');
+    }
+
+    const recovered = ethers.verifyMessage(message, signature);
+    if (recovered.toLowerCase() !== fields.address.toLowerCase()) {
+      throw new Error('Signature does not match the signing address');
+    }
+
+    return {
+      address: recovered,
+      chainId: fields.chainId,
+      issuedAt: new Date(fields.issuedAt),
+      expiresAt,
+    };
+  },
+};
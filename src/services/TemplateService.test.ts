@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  TemplateContent,
+  TemplateService,
+  checkTemplateLines,
+  describeTemplateLine,
+  getCurrentVersion,
+  isUsableLine,
+} from './TemplateService';
+import type { Medicine } from './PrescriptionService';
+import { DEFAULT_SIG } from './dosageSig';
+import { PrescriptionTemplate, TemplateLine, createInMemoryRepository, getRepository, setRepository } from './storage';
+
+const owner = { id: '1', name: 'Dr. John Smith' };
+const colleague = { id: '4', name: 'Dr. Emily Brown' };
+
+const catalog: Medicine[] = [
+  { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 },
+  { id: '4', name: 'Atorvastatin 20mg', available: true, quantity: 10 },
+  { id: '7', name: 'Prednisone 5mg', available: false, quantity: 0 },
+];
+
+const line = (medicineId: string, medicineName: string, quantity = 30): TemplateLine => ({
+  medicineId,
+  medicineName,
+  quantity,
+  dosage: '1 tablet daily',
+  sig: DEFAULT_SIG,
+});
+
+const content = (disease: string, lines: TemplateLine[] = [line('2', 'Lisinopril 10mg')]): TemplateContent => ({
+  disease,
+  lines,
+  doseInterval: 'monthly',
+  refills: 3,
+  validityDays: 90,
+});
+
+const makeTemplate = (overrides: Partial<PrescriptionTemplate>): PrescriptionTemplate => ({
+  id: 'TPL-1',
+  name: 'Template',
+  ownerId: owner.id,
+  ownerName: owner.name,
+  shared: false,
+  archived: false,
+  versions: [{ ...content('Hypertension'), version: 1, savedAt: new Date(2025, 0, 1), savedBy: owner.name }],
+  ...overrides,
+});
+
+describe('checkTemplateLines', () => {
+  it("checks each line against the catalog's availability and stock", () => {
+    const checked = checkTemplateLines([
+      line('2', 'Lisinopril 10mg'),
+      line('4', 'Atorvastatin 20mg'),
+      line('7', 'Prednisone 5mg'),
+      line('99', 'Discontinued 1mg'),
+    ], catalog);
+
+    expect(checked.map(c => c.status)).toEqual(['ok', 'low-stock', 'unavailable', 'missing']);
+    expect(checked.map(isUsableLine)).toEqual([true, true, false, false]);
+    expect(checked.map(describeTemplateLine)).toEqual([
+      null,
+      'Atorvastatin 20mg: only 10 in stock for a quantity of 30',
+      'Prednisone 5mg is currently unavailable',
+      'Discontinued 1mg is no longer in the catalog',
+    ]);
+  });
+});
+
+describe('TemplateService', () => {
+  beforeEach(() => {
+    setRepository(createInMemoryRepository({ medicines: catalog, templates: [] }));
+  });
+
+  it('saves a new template as version 1', async () => {
+    const saved = await TemplateService.saveTemplate({ name: 'Hypertension', shared: false }, content('Hypertension'), owner);
+
+    expect(saved?.ownerId).toBe(owner.id);
+    expect(saved?.versions.map(v => [v.version, v.savedBy])).toEqual([[1, owner.name]]);
+  });
+
+  it('appends a version when the owner saves over their template, keeping the earlier ones', async () => {
+    const first = await TemplateService.saveTemplate({ name: 'Hypertension', shared: false }, content('Hypertension'), owner);
+    const second = await TemplateService.saveTemplate(
+      { name: 'Hypertension, stage 2', shared: true },
+      content('Hypertension stage 2'),
+      owner,
+      first!.id
+    );
+
+    expect(second?.id).toBe(first?.id);
+    expect(second?.name).toBe('Hypertension, stage 2');
+    expect(second?.versions.map(v => v.disease)).toEqual(['Hypertension', 'Hypertension stage 2']);
+    expect(getCurrentVersion(second!).version).toBe(2);
+    expect(await getRepository().getTemplates()).toHaveLength(1);
+  });
+
+  it("refuses to version another doctor's template", async () => {
+    const shared = await TemplateService.saveTemplate({ name: 'Shared', shared: true }, content('Asthma'), owner);
+
+    expect(await TemplateService.saveTemplate({ name: 'Mine now', shared: true }, content('Asthma'), colleague, shared!.id))
+      .toBeNull();
+    expect(getCurrentVersion((await getRepository().getTemplates())[0]).version).toBe(1);
+  });
+
+  it("lists the doctor's own templates first, then shared ones, leaving out archived and others' private ones", async () => {
+    setRepository(createInMemoryRepository({
+      medicines: catalog,
+      templates: [
+        makeTemplate({ id: 'a', name: 'Colleague shared', ownerId: colleague.id, shared: true }),
+        makeTemplate({ id: 'b', name: 'Colleague private', ownerId: colleague.id }),
+        makeTemplate({ id: 'c', name: 'Own', ownerId: owner.id }),
+        makeTemplate({ id: 'd', name: 'Own archived', ownerId: owner.id, archived: true }),
+      ],
+    }));
+
+    expect((await TemplateService.getTemplates(owner.id)).map(t => t.id)).toEqual(['c', 'a']);
+    expect((await TemplateService.getTemplates(owner.id, 'lisinopril shared')).map(t => t.id)).toEqual(['a']);
+  });
+
+  it('only lets the owner archive a template', async () => {
+    const template = makeTemplate({});
+    setRepository(createInMemoryRepository({ medicines: catalog, templates: [template] }));
+
+    expect(await TemplateService.archiveTemplate(template, colleague.id)).toBe(false);
+    expect(await TemplateService.archiveTemplate(template, owner.id)).toBe(true);
+    expect(await TemplateService.getTemplates(owner.id)).toEqual([]);
+  });
+
+  it('applies the current version checked against the catalog', async () => {
+    const template = makeTemplate({
+      versions: [
+        ...makeTemplate({}).versions,
+        { ...content('Hypertension', [line('2', 'Lisinopril 10mg'), line('7', 'Prednisone 5mg')]), version: 2, savedAt: new Date(2025, 1, 1), savedBy: owner.name },
+      ],
+    });
+
+    const applied = await TemplateService.applyTemplate(template);
+    expect(applied.version.version).toBe(2);
+    expect(applied.lines.map(c => c.status)).toEqual(['ok', 'unavailable']);
+  });
+});
@@ -0,0 +1,150 @@
+import { toast } from 'sonner';
+import type { Medicine } from './PrescriptionService';
+import { PrescriptionTemplate, TemplateLine, TemplateVersion, getRepository } from './storage';
+
+// Prescribing content a doctor saves as a new template version
+export type TemplateContent = Omit<TemplateVersion, 'version' | 'savedAt' | 'savedBy'>;
+
+// How a template line matches the current medicine catalog
+export type TemplateLineStatus = 'ok' | 'low-stock' | 'unavailable' | 'missing';
+
+export interface CheckedTemplateLine {
+  line: TemplateLine;
+  // Current catalog entry, or null when the medicine is no longer listed
+  medicine: Medicine | null;
+  status: TemplateLineStatus;
+}
+
+// The doctor saving or changing a template
+interface TemplateAuthor {
+  id: string;
+  name: string;
+}
+
+// Lines with these statuses can't be prescribed and are left out when a template is applied
+const BLOCKING_STATUSES: TemplateLineStatus[] = ['unavailable', 'missing'];
+
+// Latest version of a template
+export function getCurrentVersion(template: PrescriptionTemplate): TemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+// Check each template line against the catalog's current availability and stock
+export function checkTemplateLines(lines: TemplateLine[], medicines: Medicine[]): CheckedTemplateLine[] {
+  return lines.map(line => {
+    const medicine = medicines.find(m => m.id === line.medicineId) ?? null;
+    let status: TemplateLineStatus = 'ok';
+    if (!medicine) status = 'missing';
+    else if (!medicine.available) status = 'unavailable';
+    else if (medicine.quantity < line.quantity) status = 'low-stock';
+    return { line, medicine, status };
+  });
+}
+
+export function isUsableLine(checked: CheckedTemplateLine): boolean {
+  return !BLOCKING_STATUSES.includes(checked.status);
+}
+
+// Why a checked line needs the doctor's attention, or null when it is fine
+export function describeTemplateLine({ line, medicine, status }: CheckedTemplateLine): string | null {
+  switch (status) {
+    case 'missing':
+      return `${line.medicineName} is no longer in the catalog`;
+    case 'unavailable':
+      return `${medicine?.name ?? line.medicineName} is currently unavailable`;
+    case 'low-stock':
+      return `${medicine?.name ?? line.medicineName}: only ${medicine?.quantity ?? 0} in stock for a quantity of ${line.quantity}`;
+    default:
+      return null;
+  }
+}
+
+// Text a template search matches: name, disease and medicine names of the current version
+const searchText = (template: PrescriptionTemplate) => {
+  const current = getCurrentVersion(template);
+  return [template.name, current.disease, ...current.lines.map(l => l.medicineName)].join(' ').toLowerCase();
+};
+
+// TemplateService for doctors' saved and shared prescription templates
+export const TemplateService = {
+  // Templates a doctor can use: their own and shared ones, optionally filtered by name, disease or medicine
+  getTemplates: async (doctorId: string, query: string = ''): Promise<PrescriptionTemplate[]> => {
+    const templates = await getRepository().getTemplates();
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+    return templates
+      .filter(t => !t.archived && (t.ownerId === doctorId || t.shared))
+      .filter(t => {
+        const text = searchText(t);
+        return terms.every(term => text.includes(term));
+      })
+      // The doctor's own templates first, then alphabetically
+      .sort((a, b) =>
+        Number(b.ownerId === doctorId) - Number(a.ownerId === doctorId) || a.name.localeCompare(b.name)
+      );
+  },
+
+  // Save content as a new template, or as the next version of one the doctor owns
+  saveTemplate: async (
+    details: { name: string; shared: boolean },
+    content: TemplateContent,
+    author: TemplateAuthor,
+    templateId?: string
+  ): Promise<PrescriptionTemplate | null> => {
+    const repository = getRepository();
+    const savedAt = new Date();
+    const existing = templateId
+      ? (await repository.getTemplates()).find(t => t.id === templateId) ?? null
+      : null;
+
+    if (templateId && !existing) {
+      toast.error('Template not found');
+      return null;
+    }
+    if (existing && existing.ownerId !== author.id) {
+      toast.error('Only the owner can change this template');
+      return null;
+    }
+
+    const version: TemplateVersion = {
+      ...content,
+      version: existing ? getCurrentVersion(existing).version + 1 : 1,
+      savedAt,
+      savedBy: author.name,
+    };
+    const template: PrescriptionTemplate = existing
+      ? { ...existing, ...details, versions: [...existing.versions, version] }
+      : {
+          id: `TPL-${author.id}-${savedAt.getTime()}`,
+          ...details,
+          ownerId: author.id,
+          ownerName: author.name,
+          archived: false,
+          versions: [version],
+        };
+
+    const saved = await repository.saveTemplate(template);
+    toast.success(existing ? `Saved version ${version.version} of "${saved.name}"` : `Template "${saved.name}" saved`);
+    return saved;
+  },
+
+  // Hide a template from the picker; its versions are kept
+  archiveTemplate: async (template: PrescriptionTemplate, doctorId: string): Promise<boolean> => {
+    if (template.ownerId !== doctorId) {
+      toast.error('Only the owner can remove this template');
+      return false;
+    }
+    await getRepository().saveTemplate({ ...template, archived: true });
+    toast.success(`Template "${template.name}" removed`);
+    return true;
+  },
+
+  // Current version of a template with each line checked against today's catalog
+  applyTemplate: async (
+    template: PrescriptionTemplate
+  ): Promise<{ version: TemplateVersion; lines: CheckedTemplateLine[] }> => {
+    const medicines = await getRepository().getMedicines();
+    const version = getCurrentVersion(template);
+    return { version, lines: checkTemplateLines(version.lines, medicines) };
+  },
+};
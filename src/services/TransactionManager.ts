@@ -0,0 +1,390 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { toast } from 'sonner';
+
+export type TransactionKind = 'create-prescription' | 'dispense' | 'marker';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced';
+
+// What a transaction is for, supplied when it is submitted
+export interface TransactionMeta {
+  kind: TransactionKind;
+  description: string;
+  // bytes32 contract token of the prescription the transaction belongs to
+  contractToken?: string;
+}
+
+// A submitted transaction followed until it is mined, replaced or dropped
+export interface TrackedTransaction extends TransactionMeta {
+  // Hash the transaction was first submitted with; stays stable across speed-ups
+  id: string;
+  // Current hash; differs from `id` once the wallet sped the transaction up
+  hash: string;
+  from: string;
+  nonce: number;
+  // Recipient and calldata, to tell a sped-up copy from an unrelated transaction with the same nonce.
+  // Missing on transactions tracked before they were recorded
+  to?: string | null;
+  data?: string;
+  chainId: string;
+  // Block to scan from when looking for a replacement
+  startBlock: number;
+  status: TransactionStatus;
+  confirmations: number;
+  submittedAt: Date;
+  updatedAt: Date;
+  // Hash of the unrelated transaction that took this one's nonce
+  replacedBy?: string;
+  error?: string;
+}
+
+interface TransactionState {
+  transactions: TrackedTransaction[];
+}
+
+// Confirmations after which a transaction is no longer watched
+export const CONFIRMATION_TARGET = 3;
+
+// localStorage key for tracked transactions, so a reload can pick them up again
+const STORAGE_KEY = 'medichain:transactions';
+
+// Oldest entries beyond this are dropped when saving
+const MAX_STORED_TRANSACTIONS = 50;
+
+// Restore dates on transactions read back from JSON
+const reviveTransaction = (tx: TrackedTransaction): TrackedTransaction => ({
+  ...tx,
+  submittedAt: new Date(tx.submittedAt),
+  updatedAt: new Date(tx.updatedAt),
+});
+
+// Transactions saved by a previous page load
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as TrackedTransaction[]).map(reviveTransaction) : [];
+  } catch (error) {
+    console.error('Failed to load tracked transactions:', error);
+    return [];
+  }
+};
+
+let transactionState: TransactionState = { transactions: loadTransactions() };
+
+const listeners: Array<(state: TransactionState) => void> = [];
+const settledListeners: Array<(tx: TrackedTransaction) => void | Promise<void>> = [];
+
+// Transactions with a watcher running in this page load, by id
+const watching = new Set<string>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(transactionState));
+};
+
+// Save the newest transactions and notify listeners
+const persist = () => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactionState.transactions.slice(0, MAX_STORED_TRANSACTIONS)));
+  notifyListeners();
+};
+
+// Apply a change to one transaction, persist and notify
+const updateTransaction = (id: string, change: Partial<TrackedTransaction>): TrackedTransaction | null => {
+  const existing = transactionState.transactions.find(tx => tx.id === id);
+  if (!existing) return null;
+
+  const updated = { ...existing, ...change, updatedAt: new Date() };
+  transactionState = {
+    transactions: transactionState.transactions.map(tx => (tx.id === id ? updated : tx)),
+  };
+  persist();
+  return updated;
+};
+
+// Short form of a hash for toasts
+const shortHash = (hash: string) => `${hash.slice(0, 6)}...${hash.slice(-4)}`;
+
+// Report a transaction that left the pending state and tell settled listeners
+const settle = (tx: TrackedTransaction) => {
+  switch (tx.status) {
+    case 'confirmed':
+      toast.success(`${tx.description} confirmed`, { description: `Transaction: ${shortHash(tx.hash)}` });
+      break;
+    case 'failed':
+      toast.error(`${tx.description} failed`, { description: tx.error });
+      break;
+    case 'replaced':
+      toast.warning(`${tx.description} was replaced`, {
+        description: tx.replacedBy
+          ? `Another transaction (${shortHash(tx.replacedBy)}) used the same nonce`
+          : 'Another transaction used the same nonce',
+      });
+      break;
+  }
+  // Listeners may be async; one failing must not stop the others or surface as an unhandled rejection
+  settledListeners.forEach(listener => {
+    try {
+      Promise.resolve(listener(tx)).catch(error => console.error('Error handling settled transaction:', error));
+    } catch (error) {
+      console.error('Error handling settled transaction:', error);
+    }
+  });
+};
+
+// Count confirmations on a mined transaction until the target is reached
+const followConfirmations = async (id: string, response: ethers.TransactionResponse, from: number) => {
+  for (let confirms = from + 1; confirms <= CONFIRMATION_TARGET; confirms++) {
+    const receipt = await response.wait(confirms);
+    if (!receipt) return;
+    updateTransaction(id, { confirmations: await receipt.confirmations() });
+  }
+};
+
+// Wait for a transaction to be mined, following speed-ups and detecting replacements and reverts.
+// Resolves once the transaction leaves the pending state; confirmations keep updating afterwards.
+const watch = async (id: string, response: ethers.TransactionResponse): Promise<TrackedTransaction> => {
+  watching.add(id);
+  let settled: TrackedTransaction | null = null;
+  let mined: ethers.TransactionResponse = response;
+
+  try {
+    const receipt = await response.wait(1);
+    settled = updateTransaction(id, {
+      status: receipt?.status === 1 ? 'confirmed' : 'failed',
+      confirmations: receipt ? await receipt.confirmations() : 0,
+    });
+  } catch (error) {
+    if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      if (error.reason === 'repriced') {
+        // The wallet sped the transaction up: same call, new hash
+        mined = error.replacement;
+        settled = updateTransaction(id, {
+          hash: error.replacement.hash,
+          status: error.receipt.status === 1 ? 'confirmed' : 'failed',
+          confirmations: await error.receipt.confirmations(),
+          error: error.receipt.status === 1 ? undefined : 'Transaction reverted',
+        });
+      } else {
+        settled = updateTransaction(id, { status: 'replaced', replacedBy: error.replacement.hash });
+      }
+    } else if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      settled = updateTransaction(id, {
+        status: 'failed',
+        confirmations: error.receipt ? await error.receipt.confirmations() : 0,
+        error: error.reason ?? 'Transaction reverted',
+      });
+    } else {
+      console.error('Error waiting for transaction:', error);
+      settled = updateTransaction(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (!settled) {
+    watching.delete(id);
+    throw new Error(`Transaction ${id} is no longer tracked`);
+  }
+  settle(settled);
+
+  if (settled.status === 'confirmed') {
+    followConfirmations(id, mined, settled.confirmations)
+      .catch(error => console.error('Error following confirmations:', error))
+      .finally(() => watching.delete(id));
+  } else {
+    watching.delete(id);
+  }
+  return settled;
+};
+
+// Mined transaction that used a tracked transaction's nonce. The sender's transaction count per block tells
+// which block took the nonce, so a binary search finds it in about log2(blocks) calls however long the page
+// was closed; only that one block is then fetched with its transactions
+const findNonceUser = async (
+  provider: ethers.Provider,
+  tx: TrackedTransaction
+): Promise<ethers.TransactionResponse | null> => {
+  let low = tx.startBlock;
+  let high = await provider.getBlockNumber();
+  if ((await provider.getTransactionCount(tx.from, high)) <= tx.nonce) return null;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getTransactionCount(tx.from, middle)) > tx.nonce) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+
+  const block = await provider.getBlock(low, true);
+  return block?.prefetchedTransactions.find(
+    candidate => candidate.from.toLowerCase() === tx.from.toLowerCase() && candidate.nonce === tx.nonce
+  ) ?? null;
+};
+
+// Whether a transaction with the same nonce is the tracked call sent again at a different fee,
+// compared the way ethers' replaceableTransaction does
+const isRepriced = (tx: TrackedTransaction, candidate: ethers.TransactionResponse) =>
+  tx.data !== undefined &&
+  candidate.data === tx.data &&
+  (candidate.to?.toLowerCase() ?? null) === (tx.to?.toLowerCase() ?? null);
+
+// Pick up a transaction saved by an earlier page load
+const resumeTransaction = async (provider: ethers.Provider, tx: TrackedTransaction) => {
+  const response = await provider.getTransaction(tx.hash);
+  if (response) {
+    await watch(tx.id, response.replaceableTransaction(tx.startBlock));
+    return;
+  }
+
+  // The node no longer knows the transaction: either its nonce was used by another one, or it was dropped
+  const minedNonce = await provider.getTransactionCount(tx.from, 'latest');
+  if (minedNonce <= tx.nonce) {
+    const dropped = updateTransaction(tx.id, { status: 'failed', error: 'The transaction was dropped before it was mined' });
+    if (dropped) settle(dropped);
+    return;
+  }
+
+  const nonceUser = await findNonceUser(provider, tx);
+  const receipt = nonceUser && isRepriced(tx, nonceUser) ? await provider.getTransactionReceipt(nonceUser.hash) : null;
+  if (!nonceUser || !receipt) {
+    const replaced = updateTransaction(tx.id, { status: 'replaced', replacedBy: nonceUser?.hash });
+    if (replaced) settle(replaced);
+    return;
+  }
+
+  // The wallet sped the transaction up while the page was closed: same call, new hash
+  const settled = updateTransaction(tx.id, {
+    hash: nonceUser.hash,
+    status: receipt.status === 1 ? 'confirmed' : 'failed',
+    confirmations: await receipt.confirmations(),
+    error: receipt.status === 1 ? undefined : 'Transaction reverted',
+  });
+  if (!settled) return;
+  settle(settled);
+  if (settled.status === 'confirmed') {
+    watching.add(tx.id);
+    followConfirmations(tx.id, nonceUser, settled.confirmations)
+      .catch(error => console.error('Error following confirmations:', error))
+      .finally(() => watching.delete(tx.id));
+  }
+};
+
+export const TransactionManager = {
+  // Subscribe to tracked transaction changes
+  subscribe: (listener: (state: TransactionState) => void) => {
+    listeners.push(listener);
+    listener(transactionState);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  },
+
+  // Get notified when a transaction is confirmed, fails or is replaced
+  onSettled: (listener: (tx: TrackedTransaction) => void | Promise<void>) => {
+    settledListeners.push(listener);
+    return () => {
+      const index = settledListeners.indexOf(listener);
+      if (index > -1) {
+        settledListeners.splice(index, 1);
+      }
+    };
+  },
+
+  // Get current snapshot
+  getState: (): TransactionState => {
+    return { ...transactionState };
+  },
+
+  // Tracked transaction by the hash it was first submitted with
+  getTransaction: (id: string): TrackedTransaction | null => {
+    return transactionState.transactions.find(tx => tx.id === id) ?? null;
+  },
+
+  // Pending transaction for a prescription, if any
+  getPending: (contractToken: string): TrackedTransaction | null => {
+    const token = contractToken.toLowerCase();
+    return transactionState.transactions.find(
+      tx => tx.status === 'pending' && tx.contractToken?.toLowerCase() === token
+    ) ?? null;
+  },
+
+  // Start tracking a submitted transaction. Resolves once it is mined, replaced or dropped
+  track: async (response: ethers.TransactionResponse, meta: TransactionMeta): Promise<TrackedTransaction> => {
+    const startBlock = response.provider ? await response.provider.getBlockNumber() : 0;
+    const now = new Date();
+    const tracked: TrackedTransaction = {
+      ...meta,
+      id: response.hash,
+      hash: response.hash,
+      from: response.from,
+      nonce: response.nonce,
+      to: response.to,
+      data: response.data,
+      chainId: response.chainId.toString(),
+      startBlock,
+      status: 'pending',
+      confirmations: 0,
+      submittedAt: now,
+      updatedAt: now,
+    };
+    transactionState = { transactions: [tracked, ...transactionState.transactions] };
+    persist();
+    toast.info(`${meta.description} submitted`, { description: `Transaction: ${shortHash(response.hash)}` });
+
+    return watch(tracked.id, response);
+  },
+
+  // Resume watching transactions from earlier page loads on the provider's chain
+  resume: async (provider: ethers.Provider, chainId: string) => {
+    const unfinished = transactionState.transactions.filter(tx =>
+      tx.chainId === chainId &&
+      !watching.has(tx.id) &&
+      (tx.status === 'pending' || (tx.status === 'confirmed' && tx.confirmations < CONFIRMATION_TARGET))
+    );
+
+    for (const tx of unfinished) {
+      if (tx.status === 'pending') {
+        resumeTransaction(provider, tx).catch(error => console.error('Error resuming transaction:', error));
+        continue;
+      }
+      try {
+        const response = await provider.getTransaction(tx.hash);
+        if (response) {
+          watching.add(tx.id);
+          followConfirmations(tx.id, response, tx.confirmations)
+            .catch(error => console.error('Error following confirmations:', error))
+            .finally(() => watching.delete(tx.id));
+        }
+      } catch (error) {
+        console.error('Error resuming transaction:', error);
+      }
+    }
+  },
+
+  // Forget transactions that are no longer pending
+  clearFinished: () => {
+    transactionState = {
+      transactions: transactionState.transactions.filter(tx => tx.status === 'pending'),
+    };
+    persist();
+  },
+};
+
+// Hook for React components to follow tracked transactions
+export function useTransactions() {
+  const [state, setState] = React.useState<TransactionState>(transactionState);
+
+  React.useEffect(() => {
+    return TransactionManager.subscribe(setState);
+  }, []);
+
+  return {
+    ...state,
+    pendingCount: state.transactions.filter(tx => tx.status === 'pending').length,
+    clearFinished: TransactionManager.clearFinished,
+  };
+}
@@ -0,0 +1,194 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { toast } from 'sonner';
+import type { NetworkConfig } from './networks';
+
+// Gas and fee estimate for a contract write, shown to the user before it is sent
+export interface FeePreview {
+  description: string;
+  networkName: string;
+  currencySymbol: string;
+  // Estimated gas with a safety margin; sent as the transaction's gas limit
+  gasLimit: bigint;
+  // EIP-1559 fees; null on chains that only support a legacy gas price
+  baseFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  maxFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+  // Cost at the current base fee plus tip, and the most the wallet may charge
+  estimatedCost: bigint;
+  maxCost: bigint;
+}
+
+interface PreflightState {
+  // Preview waiting for the user to confirm or cancel
+  pending: FeePreview | null;
+}
+
+// Extra gas on top of the estimate, in percent, so small state changes don't run the transaction out of gas
+const GAS_MARGIN_PERCENT = 20n;
+
+// Human-readable messages for common contract revert reasons, matched against the decoded reason
+const REVERT_MESSAGES: Array<[RegExp, string]> = [
+  [/not found|does not exist|doesn't exist|unknown token|invalid token/i, 'This prescription is not recorded on the blockchain.'],
+  [/exist|duplicate|already (created|used|registered)|token (taken|in use)/i, 'A prescription with this token is already on the blockchain.'],
+  [/interval|too (early|soon)|not (yet )?due/i, 'The next refill is not due yet according to the blockchain.'],
+  [/patient/i, 'The patient address does not match this prescription.'],
+  [/remaining|no (more )?refills|fully dispensed|quantity/i, 'All refills have already been dispensed on the blockchain.'],
+  [/doctor|unauthori[sz]ed|not allowed|only/i, 'This wallet is not allowed to make this change.'],
+];
+
+// Thrown when the user cancels a fee preview; the write is left for them to retry by hand
+export class TransactionCancelledError extends Error {
+  constructor(description: string) {
+    super(`${description} was cancelled`);
+    this.name = 'TransactionCancelledError';
+  }
+}
+
+let preflightState: PreflightState = { pending: null };
+let resolvePending: ((confirmed: boolean) => void) | null = null;
+
+const listeners: Array<(state: PreflightState) => void> = [];
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(preflightState));
+};
+
+// Revert reason from an ethers error, decoded against the contract ABI where the node returned raw data
+const decodeRevertReason = (contractInterface: ethers.Interface, error: unknown): string | null => {
+  if (!ethers.isError(error, 'CALL_EXCEPTION')) {
+    return null;
+  }
+  if (error.reason) {
+    return error.reason;
+  }
+  if (error.revert) {
+    return `${error.revert.name}(${error.revert.args.join(', ')})`;
+  }
+  if (error.data) {
+    try {
+      const parsed = contractInterface.parseError(error.data);
+      if (parsed) return `${parsed.name}(${parsed.args.join(', ')})`;
+    } catch {
+      // Not an error the ABI knows about
+    }
+  }
+  return null;
+};
+
+// Message for a failed pre-flight check
+export function describeRevert(contractInterface: ethers.Interface, error: unknown): string {
+  const reason = decodeRevertReason(contractInterface, error);
+  if (reason) {
+    const known = REVERT_MESSAGES.find(([pattern]) => pattern.test(reason));
+    return known ? known[1] : `The contract rejected the transaction: ${reason}`;
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return 'The contract rejected the transaction without giving a reason.';
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return 'The wallet does not have enough funds to pay for gas.';
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export const TransactionPreflight = {
+  // Subscribe to confirmation requests
+  subscribe: (listener: (state: PreflightState) => void) => {
+    listeners.push(listener);
+    listener(preflightState);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  },
+
+  // Simulate a contract write and estimate its fees. Returns null (with a toast) if it would revert
+  check: async (
+    contract: ethers.BaseContract,
+    method: string,
+    args: readonly unknown[],
+    description: string,
+    network: NetworkConfig
+  ): Promise<FeePreview | null> => {
+    const fn = contract.getFunction(method);
+    const provider = contract.runner?.provider;
+    if (!provider) {
+      toast.error('Wallet not connected');
+      return null;
+    }
+
+    try {
+      // A static call surfaces the revert reason; estimateGas alone often hides it
+      await fn.staticCall(...args);
+      const estimate = await fn.estimateGas(...args);
+      const [feeData, block] = await Promise.all([provider.getFeeData(), provider.getBlock('latest')]);
+
+      const gasLimit = estimate + (estimate * GAS_MARGIN_PERCENT) / 100n;
+      const baseFeePerGas = block?.baseFeePerGas ?? null;
+      const isEip1559 = feeData.maxFeePerGas !== null && baseFeePerGas !== null;
+      const maxPriorityFeePerGas = isEip1559 ? feeData.maxPriorityFeePerGas : null;
+      const maxFeePerGas = isEip1559 ? feeData.maxFeePerGas : null;
+      const gasPrice = isEip1559 ? null : feeData.gasPrice;
+      const expectedPerGas = isEip1559 ? baseFeePerGas! + (maxPriorityFeePerGas ?? 0n) : gasPrice ?? 0n;
+      const worstPerGas = isEip1559 ? maxFeePerGas! : gasPrice ?? 0n;
+
+      return {
+        description,
+        networkName: network.name,
+        currencySymbol: network.nativeCurrency.symbol,
+        gasLimit,
+        baseFeePerGas,
+        maxPriorityFeePerGas,
+        maxFeePerGas,
+        gasPrice,
+        estimatedCost: estimate * expectedPerGas,
+        maxCost: gasLimit * worstPerGas,
+      };
+    } catch (error) {
+      console.error(`Pre-flight check for ${method} failed:`, error);
+      toast.error(`${description} would fail`, {
+        description: describeRevert(contract.interface, error),
+      });
+      return null;
+    }
+  },
+
+  // Show the fee preview and wait for the user to confirm or cancel
+  confirm: (preview: FeePreview): Promise<boolean> => {
+    // Only one preview at a time; a newer request cancels the older one
+    resolvePending?.(false);
+    preflightState = { pending: preview };
+    notifyListeners();
+    return new Promise(resolve => {
+      resolvePending = resolve;
+    });
+  },
+
+  // Answer the preview currently shown
+  respond: (confirmed: boolean) => {
+    const resolve = resolvePending;
+    resolvePending = null;
+    preflightState = { pending: null };
+    notifyListeners();
+    resolve?.(confirmed);
+  },
+};
+
+// Hook for the dialog that shows fee previews
+export function useFeePreview() {
+  const [state, setState] = React.useState<PreflightState>(preflightState);
+
+  React.useEffect(() => {
+    return TransactionPreflight.subscribe(setState);
+  }, []);
+
+  return {
+    ...state,
+    confirm: () => TransactionPreflight.respond(true),
+    cancel: () => TransactionPreflight.respond(false),
+  };
+}
@@ -1,7 +1,19 @@
 import React from 'react';
 import { ethers } from 'ethers';
-import contractAbi from '../abi/contract-abi.json';
+import {
+  PrescriptionContract,
+  PrescriptionContractArgs,
+  connectPrescriptionContract,
+} from '../abi/contract-types';
 import { toast } from 'sonner';
+import {
+  DEFAULT_NETWORK,
+  NetworkConfig,
+  getNetworkByChainId,
+  isValidContractAddress,
+} from './networks';
+import { TransactionManager } from './TransactionManager';
+import { TransactionCancelledError, TransactionPreflight } from './TransactionPreflight';
 
 declare global {
   interface Window {
@@ -9,14 +21,37 @@ declare global {
   }
 }
 
-const CONTRACT_ADDRESS = '0x30d1444a32a7fd98a8af1de9da49142ce508f4aab46c8e6774c03d17144ada5f';
+// Prescription record as stored by the smart contract
+export interface OnChainPrescription {
+  doctor: string;
+  patient: string;
+  disease: string;
+  drug: string;
+  quantity: number;
+  interval: number;
+  lastDispensed: Date;
+  remaining: number;
+}
+
+// Summary of a mined transaction's receipt
+export interface TransactionReceiptSummary {
+  hash: string;
+  blockNumber: number;
+  from: string;
+  to: string | null;
+  status: 'success' | 'reverted';
+  gasUsed: string;
+  confirmations: number;
+}
 
 interface Web3State {
   provider: ethers.BrowserProvider | null;
   signer: ethers.JsonRpcSigner | null;
-  contract: ethers.Contract | null;
+  contract: PrescriptionContract | null;
   address: string | null;
   chainId: string | null;
+  network: NetworkConfig | null;
+  isWrongNetwork: boolean;
   isConnected: boolean;
 }
 
@@ -27,6 +62,8 @@ const initialWeb3State: Web3State = {
   contract: null,
   address: null,
   chainId: null,
+  network: null,
+  isWrongNetwork: false,
   isConnected: false,
 };
 
@@ -41,6 +78,78 @@ const notifyListeners = () => {
   listeners.forEach(listener => listener(web3State));
 };
 
+// Registered network for a chain id, if the contract is deployed there with a valid address
+const resolveSupportedNetwork = (chainId: string): NetworkConfig | null => {
+  const network = getNetworkByChainId(chainId);
+  if (!network) return null;
+  if (!isValidContractAddress(network.contractAddress)) {
+    toast.error(`No valid contract address configured for ${network.name}`);
+    return null;
+  }
+  return network;
+};
+
+// Provider, signer, contract and network for the wallet's current chain
+const buildConnection = async () => {
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  const chainId = (await provider.getNetwork()).chainId.toString();
+  const network = resolveSupportedNetwork(chainId);
+  // Never bind the contract on an unsupported chain, so calls can't reach the wrong address
+  const contract = network ? connectPrescriptionContract(network.contractAddress, signer) : null;
+
+  return { provider, signer, contract, chainId, network, isWrongNetwork: !network };
+};
+
+// Warn about an unsupported chain and offer to switch
+const warnWrongNetwork = () => {
+  toast.warning('Unsupported network', {
+    description: `Switch your wallet to ${DEFAULT_NETWORK.name} to record prescriptions on the blockchain`,
+    action: {
+      label: 'Switch',
+      onClick: () => Web3Service.switchNetwork(),
+    },
+  });
+};
+
+// Contract for write/read calls, or null (with a toast) if the wallet can't use it
+const requireContract = (): PrescriptionContract | null => {
+  if (!web3State.isConnected) {
+    toast.error('Wallet not connected');
+    return null;
+  }
+  if (web3State.isWrongNetwork || !web3State.contract) {
+    warnWrongNetwork();
+    return null;
+  }
+  return web3State.contract;
+};
+
+// Simulate a contract write, show its fee preview and wait for the user's go-ahead.
+// Resolves with the gas limit to send, or null if the call would revert; throws TransactionCancelledError if the user cancelled
+const preflight = async <M extends keyof PrescriptionContractArgs>(
+  contract: PrescriptionContract,
+  method: M,
+  args: PrescriptionContractArgs[M],
+  description: string
+): Promise<bigint | null> => {
+  const preview = await TransactionPreflight.check(
+    contract,
+    method,
+    args,
+    description,
+    web3State.network ?? DEFAULT_NETWORK
+  );
+  if (!preview) {
+    return null;
+  }
+  if (!(await TransactionPreflight.confirm(preview))) {
+    toast.info(`${description} cancelled`);
+    throw new TransactionCancelledError(description);
+  }
+  return preview.gasLimit;
+};
+
 export const Web3Service = {
   // Subscribe to state changes
   subscribe: (listener: (state: Web3State) => void) => {
@@ -59,6 +168,13 @@ export const Web3Service = {
     return { ...web3State };
   },
   
+  // Address of the prescription contract on the wallet's network (or the default network)
+  getContractAddress: (): string | null => {
+    if (web3State.isConnected && web3State.isWrongNetwork) return null;
+    const network = web3State.network ?? DEFAULT_NETWORK;
+    return isValidContractAddress(network.contractAddress) ? network.contractAddress : null;
+  },
+
   // Check if MetaMask is installed
   isMetaMaskInstalled: (): boolean => {
     return typeof window !== 'undefined' && !!window.ethereum;
@@ -81,22 +197,13 @@ export const Web3Service = {
       // Request account access
       const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
       
-      // Setup provider and signer
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, contractAbi, signer);
-      
-      // Get network info
-      const network = await provider.getNetwork();
-      const chainId = network.chainId.toString();
+      // Setup provider, signer and contract for the current network
+      const connection = await buildConnection();
       
       // Update state
       web3State = {
-        provider,
-        signer,
-        contract,
+        ...connection,
         address: accounts[0],
-        chainId,
         isConnected: true,
       };
       
@@ -106,9 +213,15 @@ export const Web3Service = {
       
       // Notify listeners
       notifyListeners();
+      // Pick up transactions that were still pending when the page was last closed
+      TransactionManager.resume(connection.provider, connection.chainId)
+        .catch(error => console.error('Error resuming transactions:', error));
       toast.success('Wallet connected!', {
         description: `Connected to ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`,
       });
+      if (connection.isWrongNetwork) {
+        warnWrongNetwork();
+      }
       
       return accounts[0];
     } catch (error) {
@@ -140,9 +253,12 @@ export const Web3Service = {
       // User disconnected their wallet
       Web3Service.disconnectWallet();
     } else if (web3State.address !== accounts[0]) {
-      // Account changed, update state
+      // Account changed, rebind signer and contract to the new account
+      const signer = web3State.provider ? await web3State.provider.getSigner(accounts[0]) : null;
       web3State = {
         ...web3State,
+        signer,
+        contract: web3State.contract && signer ? web3State.contract.connect(signer) as PrescriptionContract : null,
         address: accounts[0],
       };
       notifyListeners();
@@ -152,10 +268,103 @@ export const Web3Service = {
     }
   },
 
-  // Handle chain/network changes
-  handleChainChanged: async (chainId: string) => {
-    // Force a page refresh on chain change to prevent inconsistent state
-    window.location.reload();
+  // Handle chain/network changes by rebinding to the new chain
+  handleChainChanged: async (_chainId: string) => {
+    if (!web3State.isConnected) return;
+
+    try {
+      const connection = await buildConnection();
+      web3State = { ...web3State, ...connection };
+      notifyListeners();
+      TransactionManager.resume(connection.provider, connection.chainId)
+        .catch(error => console.error('Error resuming transactions:', error));
+
+      if (connection.isWrongNetwork) {
+        warnWrongNetwork();
+      } else {
+        toast.info(`Switched to ${connection.network!.name}`);
+      }
+    } catch (error) {
+      console.error('Error handling network change:', error);
+      Web3Service.disconnectWallet();
+    }
+  },
+
+  // Ask the wallet to switch to a registered network, adding it first if the wallet doesn't know it
+  switchNetwork: async (network: NetworkConfig = DEFAULT_NETWORK): Promise<boolean> => {
+    if (!Web3Service.isMetaMaskInstalled()) return false;
+
+    const chainIdHex = ethers.toQuantity(network.chainId);
+    try {
+      await window.ethereum.request({
+        method: 'wallet_switchEthereumChain',
+        params: [{ chainId: chainIdHex }],
+      });
+      return true;
+    } catch (error) {
+      // 4902: the wallet has no record of this chain
+      if ((error as { code?: number })?.code !== 4902) {
+        console.error('Error switching network:', error);
+        toast.error(`Failed to switch to ${network.name}`);
+        return false;
+      }
+    }
+
+    try {
+      await window.ethereum.request({
+        method: 'wallet_addEthereumChain',
+        params: [{
+          chainId: chainIdHex,
+          chainName: network.name,
+          rpcUrls: [network.rpcUrl],
+          nativeCurrency: network.nativeCurrency,
+          blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+        }],
+      });
+      return true;
+    } catch (error) {
+      console.error('Error adding network:', error);
+      toast.error(`Failed to add ${network.name} to your wallet`);
+      return false;
+    }
+  },
+
+  // Sign a plain-text message (EIP-191 personal_sign) with the connected account
+  signMessage: async (message: string): Promise<string | null> => {
+    try {
+      if (!web3State.signer || !web3State.isConnected) {
+        toast.error('Wallet not connected');
+        return null;
+      }
+      return await web3State.signer.signMessage(message);
+    } catch (error) {
+      console.error('Error signing message:', error);
+      toast.error('Signature request was rejected', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  },
+
+  // Sign EIP-712 typed data (eth_signTypedData_v4) with the connected account
+  signTypedData: async (
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string | null> => {
+    try {
+      if (!web3State.signer || !web3State.isConnected) {
+        toast.error('Wallet not connected');
+        return null;
+      }
+      return await web3State.signer.signTypedData(domain, types, value);
+    } catch (error) {
+      console.error('Error signing typed data:', error);
+      toast.error('Signature request was rejected', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
   },
 
   // Generate a random token for prescriptions (bytes32 format for the smart contract)
@@ -163,7 +372,9 @@ export const Web3Service = {
     return ethers.hexlify(ethers.randomBytes(32));
   },
 
-  // Call smart contract to create prescription
+  // Call smart contract to create prescription. Returns the hash once the transaction is submitted;
+  // confirmation is followed by the TransactionManager so it survives a page reload.
+  // Throws TransactionCancelledError when the user cancels the fee preview.
   createPrescription: async (
     token: string,
     patientAddress: string,
@@ -173,29 +384,39 @@ export const Web3Service = {
     intervalSec: number
   ): Promise<string | null> => {
     try {
-      if (!web3State.contract || !web3State.isConnected) {
-        toast.error('Wallet not connected');
+      const contract = requireContract();
+      if (!contract) {
         return null;
       }
 
-      // Call the smart contract function
-      const tx = await web3State.contract.create_prescription(
+      const args: PrescriptionContractArgs['create_prescription'] = [
         token,
         patientAddress,
         disease,
         drug,
         ethers.toBigInt(quantity),
-        ethers.toBigInt(intervalSec)
-      );
+        ethers.toBigInt(intervalSec),
+      ];
+      const gasLimit = await preflight(contract, 'create_prescription', args, 'Record prescription');
+      if (gasLimit === null) {
+        return null;
+      }
 
-      // Wait for transaction to be mined
-      const receipt = await tx.wait();
-      toast.success('Prescription created on blockchain', {
-        description: `Transaction: ${receipt.hash.slice(0, 6)}...${receipt.hash.slice(-4)}`,
-      });
-      
-      return receipt.hash;
+      // Call the smart contract function
+      const tx = await contract.create_prescription(...args, { gasLimit });
+
+      // Track confirmation in the background
+      TransactionManager.track(tx, {
+        kind: 'create-prescription',
+        description: 'Prescription on blockchain',
+        contractToken: token,
+      }).catch(error => console.error('Error tracking transaction:', error));
+
+      return tx.hash;
     } catch (error) {
+      if (error instanceof TransactionCancelledError) {
+        throw error;
+      }
       console.error('Error creating prescription on blockchain:', error);
       toast.error('Failed to create prescription on blockchain', {
         description: error instanceof Error ? error.message : 'Unknown error',
@@ -204,59 +425,119 @@ export const Web3Service = {
     }
   },
 
-  // Call smart contract to dispense prescription
-  dispensePrescription: async (token: string): Promise<boolean> => {
+  // Call smart contract to dispense prescription, returning the transaction hash on success.
+  // Throws TransactionCancelledError when the user cancels the fee preview.
+  dispensePrescription: async (token: string): Promise<string | null> => {
     try {
-      if (!web3State.contract || !web3State.isConnected) {
-        toast.error('Wallet not connected');
-        return false;
+      const contract = requireContract();
+      if (!contract) {
+        return null;
       }
 
-      // Call the smart contract function
-      const tx = await web3State.contract.dispense(token);
-      
-      // Wait for transaction to be mined
-      const receipt = await tx.wait();
-      
-      const success = receipt.status === 1;
-      if (success) {
-        toast.success('Prescription dispensed on blockchain', {
-          description: `Transaction: ${receipt.hash.slice(0, 6)}...${receipt.hash.slice(-4)}`,
-        });
-      } else {
-        toast.error('Failed to dispense prescription');
+      const gasLimit = await preflight(contract, 'dispense', [token], 'Dispense');
+      if (gasLimit === null) {
+        return null;
       }
+
+      // Call the smart contract function
+      const tx = await contract.dispense(token, { gasLimit });
       
-      return success;
+      // Wait for the transaction to be mined, following speed-ups
+      const outcome = await TransactionManager.track(tx, {
+        kind: 'dispense',
+        description: 'Dispense on blockchain',
+        contractToken: token,
+      });
+
+      return outcome.status === 'confirmed' ? outcome.hash : null;
     } catch (error) {
+      if (error instanceof TransactionCancelledError) {
+        throw error;
+      }
       console.error('Error dispensing prescription on blockchain:', error);
       toast.error('Failed to dispense prescription', {
         description: error instanceof Error ? error.message : 'Unknown error',
       });
-      return false;
+      return null;
+    }
+  },
+
+  // Record a text marker on chain as a zero-value transaction to the sender's own address.
+  // The contract has no revoke/amend functions, so markers make those actions visible on chain.
+  recordMarker: async (marker: string, contractToken?: string): Promise<string | null> => {
+    try {
+      if (!requireContract() || !web3State.signer || !web3State.address) {
+        return null;
+      }
+
+      const tx = await web3State.signer.sendTransaction({
+        to: web3State.address,
+        value: 0,
+        data: ethers.hexlify(ethers.toUtf8Bytes(marker)),
+      });
+      const outcome = await TransactionManager.track(tx, {
+        kind: 'marker',
+        description: 'Change record on blockchain',
+        contractToken,
+      });
+      return outcome.status === 'confirmed' ? outcome.hash : null;
+    } catch (error) {
+      console.error('Error recording marker on blockchain:', error);
+      toast.error('Failed to record marker on blockchain', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  },
+
+  // Get a mined transaction's receipt with its current confirmation count
+  getTransactionReceipt: async (txHash: string): Promise<TransactionReceiptSummary | null> => {
+    try {
+      if (!web3State.provider) {
+        return null;
+      }
+
+      const receipt = await web3State.provider.getTransactionReceipt(txHash);
+      if (!receipt) {
+        return null;
+      }
+
+      return {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        from: receipt.from,
+        to: receipt.to,
+        status: receipt.status === 1 ? 'success' : 'reverted',
+        gasUsed: receipt.gasUsed.toString(),
+        confirmations: await receipt.confirmations(),
+      };
+    } catch (error) {
+      console.error('Error getting transaction receipt:', error);
+      return null;
     }
   },
 
   // Get prescription details from the contract
-  getPrescription: async (token: string): Promise<any> => {
+  getPrescription: async (token: string): Promise<OnChainPrescription | null> => {
     try {
-      if (!web3State.contract || !web3State.isConnected) {
-        toast.error('Wallet not connected');
+      const contract = requireContract();
+      if (!contract) {
         return null;
       }
 
-      const data = await web3State.contract.get_prescription(token);
+      const [doctor, patient, disease, drug, quantity, interval, lastDispensed, remaining] =
+        await contract.get_prescription(token);
       
       // Format the returned data into a more usable object
       return {
-        doctor: data[0],
-        patient: data[1],
-        disease: data[2],
-        drug: data[3],
-        quantity: Number(data[4]),
-        interval: Number(data[5]),
-        lastDispensed: new Date(Number(data[6]) * 1000),
-        remaining: Number(data[7]),
+        doctor,
+        patient,
+        disease,
+        drug,
+        quantity: Number(quantity),
+        interval: Number(interval),
+        lastDispensed: new Date(Number(lastDispensed) * 1000),
+        remaining: Number(remaining),
       };
     } catch (error) {
       console.error('Error getting prescription from blockchain:', error);
@@ -280,6 +561,7 @@ export function useWeb3() {
     ...state,
     connectWallet: Web3Service.connectWallet,
     disconnectWallet: Web3Service.disconnectWallet,
+    switchNetwork: Web3Service.switchNetwork,
     isMetaMaskInstalled: Web3Service.isMetaMaskInstalled,
   };
 }
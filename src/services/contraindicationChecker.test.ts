@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkContraindications,
+  describeContraindication,
+  hasAbsoluteContraindication,
+} from './contraindicationChecker';
+import type { PatientProfile } from './storage';
+
+const amoxicillin = { id: '1', name: 'Amoxicillin 500mg' };
+const lisinopril = { id: '2', name: 'Lisinopril 10mg' };
+const atorvastatin = { id: '4', name: 'Atorvastatin 20mg' };
+const ibuprofen = { id: '10', name: 'Ibuprofen 400mg' };
+
+// A profile with nothing recorded
+const makeProfile = (overrides: Partial<PatientProfile> = {}): PatientProfile => ({
+  patientId: '2',
+  allergies: [],
+  conditions: [],
+  pregnancy: 'unknown',
+  weightKg: null,
+  updatedAt: new Date(2025, 0, 1),
+  updatedBy: 'Dr. John Smith',
+  ...overrides,
+});
+
+describe('checkContraindications', () => {
+  it('flags nothing without a profile or with an empty one', () => {
+    expect(checkContraindications([amoxicillin, ibuprofen], null)).toEqual([]);
+    expect(checkContraindications([amoxicillin, ibuprofen], makeProfile())).toEqual([]);
+  });
+
+  it('flags an allergy to the medicine class as absolute', () => {
+    const flags = checkContraindications([amoxicillin], makeProfile({ allergies: ['penicillin'] }));
+    expect(flags).toEqual([{
+      id: '1:allergy:penicillin',
+      kind: 'allergy',
+      severity: 'absolute',
+      medicineId: '1',
+      medicineName: 'Amoxicillin 500mg',
+      match: 'Penicillins allergy',
+      reason: 'Amoxicillin 500mg belongs to a class the patient is allergic to.',
+    }]);
+  });
+
+  it('flags recorded conditions with their severity, absolute first', () => {
+    const flags = checkContraindications([ibuprofen], makeProfile({ conditions: ['asthma', 'heart-failure'] }));
+    expect(flags.map(flag => [flag.match, flag.severity])).toEqual([
+      ['Heart failure', 'absolute'],
+      ['Asthma', 'caution'],
+    ]);
+  });
+
+  it('flags pregnancy and breastfeeding from the pregnancy status', () => {
+    const pregnant = checkContraindications([lisinopril], makeProfile({ pregnancy: 'pregnant' }));
+    expect(pregnant).toMatchObject([{ kind: 'pregnancy', match: 'Pregnancy', severity: 'absolute' }]);
+    const breastfeeding = checkContraindications([atorvastatin], makeProfile({ pregnancy: 'breastfeeding' }));
+    expect(breastfeeding).toMatchObject([{ kind: 'pregnancy', match: 'Breastfeeding' }]);
+  });
+
+  it('checks a medicine listed twice once', () => {
+    expect(checkContraindications([amoxicillin, amoxicillin], makeProfile({ allergies: ['penicillin'] }))).toHaveLength(1);
+  });
+});
+
+describe('hasAbsoluteContraindication', () => {
+  it('ignores caution-only flags', () => {
+    const profile = makeProfile({ conditions: ['renal-impairment'] });
+    expect(hasAbsoluteContraindication(checkContraindications([lisinopril], profile))).toBe(false);
+    expect(hasAbsoluteContraindication(checkContraindications([{ id: '3', name: 'Metformin 850mg' }], profile))).toBe(true);
+  });
+});
+
+describe('describeContraindication', () => {
+  it('summarises the medicine, the match and the severity', () => {
+    const [flag] = checkContraindications([ibuprofen], makeProfile({ conditions: ['peptic-ulcer'] }));
+    expect(describeContraindication(flag)).toBe('Ibuprofen 400mg: Peptic ulcer / GI bleeding (absolute)');
+  });
+});
@@ -0,0 +1,82 @@
+import type { Medicine } from './PrescriptionService';
+import type { PatientProfile } from './storage';
+import {
+  ALLERGY_CLASSES,
+  CLINICAL_CONDITIONS,
+  CONTRAINDICATIONS,
+  ContraindicationSeverity,
+  MEDICINE_ALLERGY_CLASSES,
+} from '../data/contraindications';
+
+// A prescribed medicine that clashes with the patient's clinical profile
+export interface ContraindicationFlag {
+  // Stable key for the medicine and the matched allergy or condition
+  id: string;
+  kind: 'allergy' | 'condition' | 'pregnancy';
+  severity: ContraindicationSeverity;
+  medicineId: string;
+  medicineName: string;
+  // What in the profile matched, e.g. "Penicillins allergy"
+  match: string;
+  reason: string;
+}
+
+const labelOf = (options: Array<{ id: string; label: string }>, id: string) =>
+  options.find(option => option.id === id)?.label ?? id;
+
+// Flags for one medicine against the profile. Allergies are always absolute
+const checkMedicine = (medicine: Pick<Medicine, 'id' | 'name'>, profile: PatientProfile): ContraindicationFlag[] => {
+  const base = { medicineId: medicine.id, medicineName: medicine.name };
+
+  const allergies = (MEDICINE_ALLERGY_CLASSES[medicine.id] ?? [])
+    .filter(allergyClass => profile.allergies.includes(allergyClass))
+    .map((allergyClass): ContraindicationFlag => ({
+      ...base,
+      id: `${medicine.id}:allergy:${allergyClass}`,
+      kind: 'allergy',
+      severity: 'absolute',
+      match: `${labelOf(ALLERGY_CLASSES, allergyClass)} allergy`,
+      reason: `${medicine.name} belongs to a class the patient is allergic to.`,
+    }));
+
+  const contraindications = CONTRAINDICATIONS
+    .filter(c => c.medicineId === medicine.id)
+    .filter(c => profile.conditions.includes(c.condition) || profile.pregnancy === c.condition)
+    .map((c): ContraindicationFlag => {
+      const isPregnancy = c.condition === 'pregnant' || c.condition === 'breastfeeding';
+      return {
+        ...base,
+        id: `${medicine.id}:condition:${c.condition}`,
+        kind: isPregnancy ? 'pregnancy' : 'condition',
+        severity: c.severity,
+        match: isPregnancy
+          ? c.condition === 'pregnant' ? 'Pregnancy' : 'Breastfeeding'
+          : labelOf(CLINICAL_CONDITIONS, c.condition),
+        reason: c.reason,
+      };
+    });
+
+  return [...allergies, ...contraindications];
+};
+
+// Check each distinct medicine against the patient's profile. Absolute flags first
+export function checkContraindications(
+  medicines: Pick<Medicine, 'id' | 'name'>[],
+  profile: PatientProfile | null
+): ContraindicationFlag[] {
+  if (!profile) return [];
+  const distinct = medicines.filter((medicine, index) => medicines.findIndex(m => m.id === medicine.id) === index);
+  return distinct
+    .flatMap(medicine => checkMedicine(medicine, profile))
+    .sort((a, b) => Number(a.severity === 'caution') - Number(b.severity === 'caution'));
+}
+
+// Whether any flag needs a documented override before the prescription can be issued
+export function hasAbsoluteContraindication(flags: ContraindicationFlag[]): boolean {
+  return flags.some(flag => flag.severity === 'absolute');
+}
+
+// One-line summary of a flag, as recorded with an override
+export function describeContraindication(flag: ContraindicationFlag): string {
+  return `${flag.medicineName}: ${flag.match} (${flag.severity})`;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SIG,
+  DosageSig,
+  computeSigQuantity,
+  describeQuantityMismatch,
+  formatSig,
+  getDailyUnits,
+  validateSig,
+} from './dosageSig';
+
+const makeSig = (overrides: Partial<DosageSig> = {}): DosageSig => ({ ...DEFAULT_SIG, ...overrides });
+
+// Up to 2 tablets every 4 hours for pain, never more than 8 in a day
+const painRelief = makeSig({
+  doseAmount: 2,
+  frequency: 'every-4-hours',
+  asNeeded: true,
+  asNeededFor: 'pain',
+  durationDays: 5,
+  maxDailyDose: 8,
+});
+
+describe('formatSig', () => {
+  it('reads route, frequency, timing and duration as one instruction', () => {
+    expect(formatSig(makeSig({ frequency: 'twice-daily', timing: 'with-food' })))
+      .toBe('Take 1 tablet by mouth twice daily with food for 7 days');
+  });
+
+  it('adds the reason and the daily cap of an as-needed sig', () => {
+    expect(formatSig(painRelief))
+      .toBe('Take 2 tablets by mouth every 4 hours as needed for pain for 5 days (max 8 tablets per day)');
+  });
+});
+
+describe('computeSigQuantity', () => {
+  it('multiplies doses per day by the duration', () => {
+    expect(computeSigQuantity(makeSig({ frequency: 'three-times-daily', durationDays: 10 }))).toBe(30);
+  });
+
+  it('caps an as-needed sig at its max daily dose rather than the schedule', () => {
+    expect(getDailyUnits(painRelief)).toBe(8);
+    expect(computeSigQuantity(painRelief)).toBe(40);
+  });
+
+  it('counts one dose per started week on a weekly schedule', () => {
+    expect(computeSigQuantity(makeSig({ frequency: 'once-weekly', durationDays: 28 }))).toBe(4);
+    expect(computeSigQuantity(makeSig({ frequency: 'once-weekly', durationDays: 30 }))).toBe(5);
+  });
+});
+
+describe('validateSig', () => {
+  it('accepts the default sig', () => {
+    expect(validateSig(DEFAULT_SIG)).toEqual([]);
+  });
+
+  it('requires a max daily dose for as-needed sigs', () => {
+    expect(validateSig({ ...painRelief, maxDailyDose: null })).toContain('As-needed doses need a maximum daily dose');
+  });
+
+  it('rejects a fixed schedule above its max daily dose', () => {
+    expect(validateSig(makeSig({ doseAmount: 2, frequency: 'four-times-daily', maxDailyDose: 6 })))
+      .toEqual(['The schedule exceeds the maximum daily dose']);
+  });
+
+  it('rejects fractional durations and empty doses', () => {
+    expect(validateSig(makeSig({ doseAmount: 0, durationDays: 2.5 }))).toEqual([
+      'Dose must be greater than zero',
+      'Duration must be at least one whole day',
+    ]);
+  });
+});
+
+describe('describeQuantityMismatch', () => {
+  it('is null when the quantity matches the sig', () => {
+    expect(describeQuantityMismatch(DEFAULT_SIG, 7)).toBeNull();
+  });
+
+  it('flags quantities below and above what the sig needs', () => {
+    expect(describeQuantityMismatch(DEFAULT_SIG, 5)).toBe('Quantity 5 covers less than the 7 tablets needed for 7 days');
+    expect(describeQuantityMismatch(DEFAULT_SIG, 10)).toBe('Quantity 10 is more than the 7 tablets needed for 7 days');
+  });
+});
@@ -0,0 +1,147 @@
+// Structured dosage instructions ("sig") for a medicine line, rendered to the text printed on the prescription
+
+export type DoseUnit = 'tablet' | 'capsule' | 'ml' | 'puff' | 'drop' | 'application';
+
+export type DoseRoute = 'oral' | 'inhaled' | 'topical' | 'sublingual' | 'ophthalmic' | 'otic' | 'nasal';
+
+export type SigFrequency =
+  | 'once-daily'
+  | 'twice-daily'
+  | 'three-times-daily'
+  | 'four-times-daily'
+  | 'every-4-hours'
+  | 'every-6-hours'
+  | 'every-8-hours'
+  | 'every-12-hours'
+  | 'once-weekly';
+
+export type SigTiming = 'any' | 'morning' | 'evening' | 'bedtime' | 'with-food' | 'before-food' | 'after-food';
+
+export interface DosageSig {
+  doseAmount: number;
+  doseUnit: DoseUnit;
+  route: DoseRoute;
+  frequency: SigFrequency;
+  // PRN: taken only when needed, up to the frequency and the max daily dose
+  asNeeded: boolean;
+  asNeededFor?: string;
+  timing: SigTiming;
+  durationDays: number;
+  // Most units the patient may take in 24 hours; required for as-needed sigs
+  maxDailyDose: number | null;
+}
+
+// Singular and plural label of each unit
+export const DOSE_UNITS: Record<DoseUnit, [string, string]> = {
+  tablet: ['tablet', 'tablets'],
+  capsule: ['capsule', 'capsules'],
+  ml: ['mL', 'mL'],
+  puff: ['puff', 'puffs'],
+  drop: ['drop', 'drops'],
+  application: ['application', 'applications'],
+};
+
+// Label, and the verb and phrase each route reads with in the instructions
+export const DOSE_ROUTES: Record<DoseRoute, { label: string; verb: string; phrase: string }> = {
+  oral: { label: 'Oral', verb: 'Take', phrase: 'by mouth' },
+  inhaled: { label: 'Inhaled', verb: 'Inhale', phrase: '' },
+  topical: { label: 'Topical', verb: 'Apply', phrase: 'to the skin' },
+  sublingual: { label: 'Sublingual', verb: 'Dissolve', phrase: 'under the tongue' },
+  ophthalmic: { label: 'Eye', verb: 'Instil', phrase: 'in the eye' },
+  otic: { label: 'Ear', verb: 'Instil', phrase: 'in the ear' },
+  nasal: { label: 'Nasal', verb: 'Instil', phrase: 'in the nose' },
+};
+
+// Label and number of doses per day of each frequency
+export const SIG_FREQUENCIES: Record<SigFrequency, { label: string; perDay: number }> = {
+  'once-daily': { label: 'once daily', perDay: 1 },
+  'twice-daily': { label: 'twice daily', perDay: 2 },
+  'three-times-daily': { label: 'three times daily', perDay: 3 },
+  'four-times-daily': { label: 'four times daily', perDay: 4 },
+  'every-4-hours': { label: 'every 4 hours', perDay: 6 },
+  'every-6-hours': { label: 'every 6 hours', perDay: 4 },
+  'every-8-hours': { label: 'every 8 hours', perDay: 3 },
+  'every-12-hours': { label: 'every 12 hours', perDay: 2 },
+  'once-weekly': { label: 'once weekly', perDay: 1 / 7 },
+};
+
+// How each timing reads in the instructions; `any` adds nothing
+export const SIG_TIMINGS: Record<SigTiming, string> = {
+  any: '',
+  morning: 'in the morning',
+  evening: 'in the evening',
+  bedtime: 'at bedtime',
+  'with-food': 'with food',
+  'before-food': 'before food',
+  'after-food': 'after food',
+};
+
+export const DEFAULT_SIG: DosageSig = {
+  doseAmount: 1,
+  doseUnit: 'tablet',
+  route: 'oral',
+  frequency: 'once-daily',
+  asNeeded: false,
+  timing: 'any',
+  durationDays: 7,
+  maxDailyDose: null,
+};
+
+const unitLabel = (unit: DoseUnit, amount: number) => DOSE_UNITS[unit][amount === 1 ? 0 : 1];
+
+// Human-readable instructions, e.g. "Take 1 tablet by mouth twice daily with food for 7 days"
+export function formatSig(sig: DosageSig): string {
+  const route = DOSE_ROUTES[sig.route];
+  const parts = [
+    route.verb,
+    `${sig.doseAmount} ${unitLabel(sig.doseUnit, sig.doseAmount)}`,
+    route.phrase,
+    SIG_FREQUENCIES[sig.frequency].label,
+    sig.asNeeded ? `as needed${sig.asNeededFor?.trim() ? ` for ${sig.asNeededFor.trim()}` : ''}` : '',
+    SIG_TIMINGS[sig.timing],
+    `for ${sig.durationDays} day${sig.durationDays === 1 ? '' : 's'}`,
+  ];
+  const text = parts.filter(Boolean).join(' ');
+  return sig.maxDailyDose
+    ? `${text} (max ${sig.maxDailyDose} ${unitLabel(sig.doseUnit, sig.maxDailyDose)} per day)`
+    : text;
+}
+
+// Most units taken in a day: the scheduled amount, capped by the max daily dose
+export function getDailyUnits(sig: DosageSig): number {
+  const scheduled = sig.doseAmount * SIG_FREQUENCIES[sig.frequency].perDay;
+  return sig.maxDailyDose ? Math.min(scheduled, sig.maxDailyDose) : scheduled;
+}
+
+// Units needed to cover the whole duration, in the sig's dose unit
+export function computeSigQuantity(sig: DosageSig): number {
+  return Math.ceil(getDailyUnits(sig) * sig.durationDays - 1e-9);
+}
+
+// Problems that make the sig unusable; empty when it is valid
+export function validateSig(sig: DosageSig): string[] {
+  const errors: string[] = [];
+  if (!(sig.doseAmount > 0)) errors.push('Dose must be greater than zero');
+  if (!Number.isInteger(sig.durationDays) || sig.durationDays < 1) errors.push('Duration must be at least one whole day');
+  if (sig.asNeeded && !sig.maxDailyDose) errors.push('As-needed doses need a maximum daily dose');
+  if (sig.maxDailyDose !== null && sig.maxDailyDose < sig.doseAmount) {
+    errors.push('Maximum daily dose is lower than a single dose');
+  }
+  if (!sig.asNeeded && sig.maxDailyDose !== null && sig.doseAmount * SIG_FREQUENCIES[sig.frequency].perDay > sig.maxDailyDose) {
+    errors.push('The schedule exceeds the maximum daily dose');
+  }
+  return errors;
+}
+
+// Warning when a line's quantity doesn't cover, or overshoots, what the sig needs
+export function describeQuantityMismatch(sig: DosageSig, quantity: number): string | null {
+  const required = computeSigQuantity(sig);
+  const unit = unitLabel(sig.doseUnit, required);
+  if (quantity < required) {
+    return `Quantity ${quantity} covers less than the ${required} ${unit} needed for ${sig.durationDays} days`;
+  }
+  if (quantity > required) {
+    return `Quantity ${quantity} is more than the ${required} ${unit} needed for ${sig.durationDays} days`;
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIG, DosageSig } from './dosageSig';
+import { assessDose, formatMg } from './doseCalculator';
+
+// Catalog ids with bundled dosing rules (see data/dosingRules.ts)
+const AMOXICILLIN = '1';
+const LISINOPRIL = '2';
+const IBUPROFEN = '10';
+
+const makeSig = (overrides: Partial<DosageSig> = {}): DosageSig => ({ ...DEFAULT_SIG, ...overrides });
+const adult = { ageYears: 40, weightKg: 70 };
+
+describe('assessDose', () => {
+  it('does not check medicines without a dosing rule', () => {
+    expect(assessDose('unknown', DEFAULT_SIG, adult)).toBeNull();
+  });
+
+  it('accepts an adult dose within the band', () => {
+    const assessment = assessDose(IBUPROFEN, makeSig({ frequency: 'three-times-daily' }), adult)!;
+    expect(assessment.band?.label).toBe('Adult');
+    expect(assessment.singleRangeMg).toEqual([200, 800]);
+    expect(assessment.issues).toEqual([]);
+  });
+
+  it('applies the lower geriatric limits from 65', () => {
+    const assessment = assessDose(IBUPROFEN, makeSig({ doseAmount: 2 }), { ageYears: 70, weightKg: 70 })!;
+    expect(assessment.band?.label).toBe('Geriatric');
+    expect(assessment.issues).toEqual(['Single dose 800 mg exceeds the geriatric maximum of 400 mg']);
+    expect(assessment.notes).toContain('Use the lowest effective dose');
+  });
+
+  it('reports a band that is not recommended for the age', () => {
+    expect(assessDose(LISINOPRIL, DEFAULT_SIG, { ageYears: 4, weightKg: 16 })!.issues)
+      .toEqual(['Not recommended under 6 years']);
+  });
+
+  it("asks for the patient's age before checking", () => {
+    expect(assessDose(LISINOPRIL, DEFAULT_SIG, { ageYears: null, weightKg: null })!.issues)
+      .toEqual(["Enter the patient's age to check the dose"]);
+  });
+
+  it('asks for the dose in the unit the medicine comes in', () => {
+    expect(assessDose(AMOXICILLIN, makeSig({ doseUnit: 'tablet' }), adult)!.issues).toEqual(['Dose this medicine in capsules']);
+  });
+});
+
+describe('assessDose for weight-based bands', () => {
+  const child = { ageYears: 8, weightKg: 20 };
+
+  it('scales the single-dose range and the daily cap by weight', () => {
+    const assessment = assessDose(AMOXICILLIN, makeSig({ doseUnit: 'capsule', frequency: 'three-times-daily' }), child)!;
+    expect(assessment.singleRangeMg).toEqual([160, 600]);
+    expect(assessment.maxDailyMg).toBe(1800);
+    expect(assessment.suggestedUnits).toBe(1);
+    expect(assessment.issues).toEqual([]);
+  });
+
+  it('flags a daily dose above the mg/kg limit', () => {
+    const assessment = assessDose(AMOXICILLIN, makeSig({ doseUnit: 'capsule', frequency: 'four-times-daily' }), child)!;
+    expect(assessment.issues).toEqual(['Daily dose 2000 mg exceeds the pediatric maximum of 1800 mg']);
+  });
+
+  it("needs the patient's weight", () => {
+    const assessment = assessDose(AMOXICILLIN, makeSig({ doseUnit: 'capsule' }), { ageYears: 8, weightKg: null })!;
+    expect(assessment.singleRangeMg).toBeNull();
+    expect(assessment.issues).toEqual(["Record the patient's weight to check a weight-based dose"]);
+  });
+
+  it('suggests nothing when even the smallest step of the strength is too much', () => {
+    const assessment = assessDose(IBUPROFEN, makeSig({ doseAmount: 0.5 }), { ageYears: 3, weightKg: 10 })!;
+    expect(assessment.suggestedUnits).toBeNull();
+    expect(assessment.notes).toContain('This strength is too high for the patient; consider another formulation');
+    expect(assessment.issues).toEqual(['Single dose 200 mg exceeds the pediatric maximum of 100 mg']);
+  });
+});
+
+describe('formatMg', () => {
+  it('switches to mcg below 1 mg', () => {
+    expect(formatMg(0.1)).toBe('100 mcg');
+    expect(formatMg(2.5)).toBe('2.5 mg');
+  });
+});
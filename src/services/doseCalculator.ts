@@ -0,0 +1,127 @@
+import { DOSE_UNITS, DosageSig, getDailyUnits } from './dosageSig';
+import { DOSING_RULES, DoseBand, DosingRule } from '../data/dosingRules';
+
+// Patient details the calculator doses by; either may be unknown
+export interface DosingPatient {
+  ageYears: number | null;
+  weightKg: number | null;
+}
+
+// Dose range for the patient and whether a sig falls within it
+export interface DoseAssessment {
+  rule: DosingRule;
+  band: DoseBand | null;
+  // Allowed single dose in mg for this patient, when it can be worked out
+  singleRangeMg: [number, number] | null;
+  maxDailyMg: number | null;
+  // Suggested units per dose, or null when no whole step of this strength fits the range
+  suggestedUnits: number | null;
+  // Reasons the sig is out of range or can't be checked; empty when it is within range
+  issues: string[];
+  notes: string[];
+}
+
+// Format mg amounts, switching to mcg below 1 mg
+export function formatMg(mg: number): string {
+  if (mg < 1) return `${Math.round(mg * 1000 * 10) / 10} mcg`;
+  return `${Math.round(mg * 100) / 100} mg`;
+}
+
+export function getDosingRule(medicineId: string): DosingRule | null {
+  return DOSING_RULES.find(rule => rule.medicineId === medicineId) ?? null;
+}
+
+const findBand = (rule: DosingRule, ageYears: number) =>
+  rule.bands.find(band => band.minAge <= ageYears && ageYears < band.maxAge) ?? null;
+
+// Single-dose range in mg for the band, using weight for mg/kg bands
+const getSingleRange = (band: DoseBand, weightKg: number | null): [number, number] | null => {
+  if (band.mgPerKgPerDose) {
+    if (!weightKg) return null;
+    const [min, max] = band.mgPerKgPerDose;
+    return [min * weightKg, Math.min(max * weightKg, band.maxSingleMg)];
+  }
+  return [band.minSingleMg ?? 0, band.maxSingleMg];
+};
+
+// Daily maximum in mg for the band, using weight where the band caps it per kg
+const getMaxDaily = (band: DoseBand, weightKg: number | null): number => {
+  return band.maxDailyMgPerKg && weightKg
+    ? Math.min(band.maxDailyMgPerKg * weightKg, band.maxDailyMg)
+    : band.maxDailyMg;
+};
+
+// Lowest whole step of the unit inside the range, so suggestions start low
+const suggestUnits = (rule: DosingRule, [min, max]: [number, number]): number | null => {
+  const units = Math.max(rule.unitStep, Math.ceil(min / rule.mgPerUnit / rule.unitStep - 1e-9) * rule.unitStep);
+  return units * rule.mgPerUnit <= max + 1e-9 ? units : null;
+};
+
+// Work out the patient's dose range for a medicine and check the sig against it.
+// Returns null for medicines without a dosing rule
+export function assessDose(medicineId: string, sig: DosageSig, patient: DosingPatient): DoseAssessment | null {
+  const rule = getDosingRule(medicineId);
+  if (!rule) return null;
+
+  const unitName = DOSE_UNITS[rule.unit][1];
+  const assessment: DoseAssessment = {
+    rule,
+    band: null,
+    singleRangeMg: null,
+    maxDailyMg: null,
+    suggestedUnits: null,
+    issues: [],
+    notes: [`${formatMg(rule.mgPerUnit)} per ${DOSE_UNITS[rule.unit][0]}`],
+  };
+
+  if (patient.ageYears === null) {
+    assessment.issues.push("Enter the patient's age to check the dose");
+    return assessment;
+  }
+  const band = findBand(rule, patient.ageYears);
+  assessment.band = band;
+  if (!band) {
+    assessment.issues.push('No dosing guidance for this age');
+    return assessment;
+  }
+  if (band.notRecommended) {
+    assessment.issues.push(band.notRecommended);
+    return assessment;
+  }
+  if (band.note) {
+    assessment.notes.push(band.note);
+  }
+
+  const singleRange = getSingleRange(band, patient.weightKg);
+  const maxDaily = getMaxDaily(band, patient.weightKg);
+  assessment.singleRangeMg = singleRange;
+  assessment.maxDailyMg = maxDaily;
+  if (!singleRange) {
+    assessment.issues.push("Record the patient's weight to check a weight-based dose");
+    return assessment;
+  }
+
+  assessment.suggestedUnits = suggestUnits(rule, singleRange);
+  if (assessment.suggestedUnits === null) {
+    assessment.notes.push('This strength is too high for the patient; consider another formulation');
+  }
+
+  if (sig.doseUnit !== rule.unit) {
+    assessment.issues.push(`Dose this medicine in ${unitName}`);
+    return assessment;
+  }
+
+  const singleMg = sig.doseAmount * rule.mgPerUnit;
+  const dailyMg = getDailyUnits(sig) * rule.mgPerUnit;
+  const [min, max] = singleRange;
+  if (singleMg < min - 1e-9) {
+    assessment.issues.push(`Single dose ${formatMg(singleMg)} is below the ${band.label.toLowerCase()} minimum of ${formatMg(min)}`);
+  }
+  if (singleMg > max + 1e-9) {
+    assessment.issues.push(`Single dose ${formatMg(singleMg)} exceeds the ${band.label.toLowerCase()} maximum of ${formatMg(max)}`);
+  }
+  if (dailyMg > maxDaily + 1e-9) {
+    assessment.issues.push(`Daily dose ${formatMg(dailyMg)} exceeds the ${band.label.toLowerCase()} maximum of ${formatMg(maxDaily)}`);
+  }
+  return assessment;
+}
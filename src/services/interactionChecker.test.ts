@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { checkInteractions, describeInteraction, hasMajorInteraction } from './interactionChecker';
+import type { Medicine, Prescription } from './PrescriptionService';
+
+const medicine = (id: string, name: string): Medicine => ({ id, name, available: true, quantity: 100 });
+
+const amoxicillin = medicine('1', 'Amoxicillin 500mg');
+const lisinopril = medicine('2', 'Lisinopril 10mg');
+const atorvastatin = medicine('4', 'Atorvastatin 20mg');
+const albuterol = medicine('5', 'Albuterol Inhaler');
+const prednisone = medicine('7', 'Prednisone 5mg');
+const clarithromycin = medicine('9', 'Clarithromycin 500mg');
+const spironolactone = medicine('11', 'Spironolactone 25mg');
+
+// A patient's other prescription holding the given medicines
+const makePrescription = (medicines: Medicine[], overrides: Partial<Prescription> = {}): Prescription => ({
+  id: '1',
+  tokenId: 'RX-OTHER001',
+  patientId: '2',
+  patientName: 'Jane Doe',
+  patientAge: 35,
+  doctorId: '1',
+  doctorName: 'Dr. John Smith',
+  disease: 'Heart failure',
+  medicines: medicines.map(m => ({ medicine: m, quantity: 30, dosage: '1 tablet daily', remainingQuantity: 30 })),
+  doseInterval: 'monthly',
+  doseValidity: new Date(2025, 5, 1),
+  refills: 3,
+  refillsRemaining: 2,
+  created: new Date(2025, 0, 1),
+  locks: [],
+  status: 'active',
+  nextValidDose: new Date(2025, 1, 1),
+  dispensedDates: [new Date(2025, 0, 1)],
+  ...overrides,
+});
+
+describe('checkInteractions', () => {
+  it('finds nothing between unrelated medicines', () => {
+    expect(checkInteractions([amoxicillin, atorvastatin], [])).toEqual([]);
+  });
+
+  it('finds a listed interaction whichever order the medicines are in', () => {
+    const [warning] = checkInteractions([atorvastatin, clarithromycin], []);
+    expect(warning).toMatchObject({
+      kind: 'interaction',
+      severity: 'major',
+      medicineIds: ['4', '9'],
+      medicineNames: ['Atorvastatin 20mg', 'Clarithromycin 500mg'],
+    });
+    expect(warning.otherTokenId).toBeUndefined();
+  });
+
+  it('puts the most severe warning first', () => {
+    const warnings = checkInteractions([prednisone, albuterol, clarithromycin, atorvastatin], []);
+    expect(warnings.map(w => w.severity)).toEqual(['major', 'minor']);
+  });
+
+  it('reports a medicine added twice once, as duplicate therapy', () => {
+    const warnings = checkInteractions([lisinopril, lisinopril], []);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ kind: 'duplicate-therapy', effect: 'Lisinopril 10mg is prescribed twice.' });
+  });
+
+  it("checks against the medicines of the patient's active prescriptions", () => {
+    const [warning] = checkInteractions([lisinopril], [makePrescription([spironolactone])]);
+    expect(warning).toMatchObject({ kind: 'interaction', severity: 'major', otherTokenId: 'RX-OTHER001' });
+  });
+
+  it('flags a medicine the patient already has on another prescription', () => {
+    const [warning] = checkInteractions([atorvastatin], [makePrescription([atorvastatin])]);
+    expect(warning).toMatchObject({ kind: 'duplicate-therapy', otherTokenId: 'RX-OTHER001' });
+  });
+
+  it('ignores prescriptions the patient is no longer taking', () => {
+    const finished = [
+      makePrescription([spironolactone], { status: 'dispensed' }),
+      makePrescription([spironolactone], { status: 'revoked' }),
+    ];
+    expect(checkInteractions([lisinopril], finished)).toEqual([]);
+  });
+});
+
+describe('hasMajorInteraction', () => {
+  it('is only true when a warning is major', () => {
+    expect(hasMajorInteraction(checkInteractions([clarithromycin, atorvastatin], []))).toBe(true);
+    expect(hasMajorInteraction(checkInteractions([prednisone, albuterol], []))).toBe(false);
+  });
+});
+
+describe('describeInteraction', () => {
+  it('names both medicines, where the other one is and the kind of clash', () => {
+    const [warning] = checkInteractions([lisinopril], [makePrescription([spironolactone])]);
+    expect(describeInteraction(warning)).toBe('Lisinopril 10mg + Spironolactone 25mg (on RX-OTHER001): major interaction');
+  });
+});
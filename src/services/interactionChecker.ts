@@ -0,0 +1,97 @@
+import type { Medicine, Prescription, PrescriptionStatus } from './PrescriptionService';
+import { DRUG_INTERACTIONS, InteractionSeverity, THERAPEUTIC_CLASSES } from '../data/drugInteractions';
+
+// A clash between a medicine on the new prescription and another medicine the patient would be taking
+export interface InteractionWarning {
+  // Stable key for the pair and where the other medicine comes from
+  id: string;
+  kind: 'interaction' | 'duplicate-therapy';
+  severity: InteractionSeverity;
+  // Catalog ids and names, new line first
+  medicineIds: [string, string];
+  medicineNames: [string, string];
+  // Token of the patient's other prescription, when the clash is not within the new one
+  otherTokenId?: string;
+  effect: string;
+  advice: string;
+}
+
+// Statuses under which a prescription's medicines are still being taken
+const ACTIVE_STATUSES: PrescriptionStatus[] = ['active', 'partially-dispensed', 'locked'];
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+const findInteraction = (a: string, b: string) =>
+  DRUG_INTERACTIONS.find(({ medicineIds: [x, y] }) => (x === a && y === b) || (x === b && y === a));
+
+// Interaction or duplicate therapy between two medicines, if any
+const compare = (
+  medicine: Pick<Medicine, 'id' | 'name'>,
+  other: Pick<Medicine, 'id' | 'name'>,
+  otherTokenId?: string
+): InteractionWarning | null => {
+  const pair = {
+    id: `${medicine.id}:${other.id}:${otherTokenId ?? 'new'}`,
+    medicineIds: [medicine.id, other.id] as [string, string],
+    medicineNames: [medicine.name, other.name] as [string, string],
+    otherTokenId,
+  };
+
+  const interaction = findInteraction(medicine.id, other.id);
+  if (interaction) {
+    return { ...pair, kind: 'interaction', severity: interaction.severity, effect: interaction.effect, advice: interaction.advice };
+  }
+
+  const therapeuticClass = THERAPEUTIC_CLASSES[medicine.id];
+  if (medicine.id === other.id || (therapeuticClass && therapeuticClass === THERAPEUTIC_CLASSES[other.id])) {
+    return {
+      ...pair,
+      kind: 'duplicate-therapy',
+      severity: 'moderate',
+      effect: medicine.id === other.id
+        ? `${medicine.name} is prescribed twice.`
+        : `Both medicines are in the same class (${therapeuticClass}).`,
+      advice: 'Confirm both are intended, or remove one.',
+    };
+  }
+  return null;
+};
+
+// Check the new prescription's medicines against each other and against the patient's active prescriptions.
+// Most severe first
+export function checkInteractions(
+  medicines: Pick<Medicine, 'id' | 'name'>[],
+  patientPrescriptions: Prescription[]
+): InteractionWarning[] {
+  const active = patientPrescriptions.filter(p => ACTIVE_STATUSES.includes(p.status));
+  const warnings: InteractionWarning[] = [];
+
+  medicines.forEach((medicine, index) => {
+    medicines.slice(index + 1).forEach(other => {
+      const warning = compare(medicine, other);
+      if (warning) warnings.push(warning);
+    });
+    active.forEach(prescription => {
+      prescription.medicines.forEach(line => {
+        const warning = compare(medicine, line.medicine, prescription.tokenId);
+        if (warning) warnings.push(warning);
+      });
+    });
+  });
+
+  // The same medicine added twice compares equal to each copy; keep one warning per pair
+  const unique = warnings.filter((warning, index) => warnings.findIndex(w => w.id === warning.id) === index);
+  return unique.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+// Whether any warning needs a documented override before the prescription can be issued
+export function hasMajorInteraction(warnings: InteractionWarning[]): boolean {
+  return warnings.some(warning => warning.severity === 'major');
+}
+
+// One-line summary of a warning, as recorded with an override
+export function describeInteraction(warning: InteractionWarning): string {
+  const where = warning.otherTokenId ? ` (on ${warning.otherTokenId})` : '';
+  const label = warning.kind === 'interaction' ? `${warning.severity} interaction` : 'duplicate therapy';
+  return `${warning.medicineNames[0]} + ${warning.medicineNames[1]}${where}: ${label}`;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkMedicinesCommitment,
+  encodeMedicinesCommitment,
+  hashMedicines,
+  serializeMedicines,
+} from './medicineCommitment';
+
+const lisinopril = { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 };
+const atorvastatin = { id: '4', name: 'Atorvastatin 20mg', available: true, quantity: 80 };
+
+const lines = [
+  { medicine: lisinopril, quantity: 30, dosage: '1 tablet daily' },
+  { medicine: atorvastatin, quantity: 30, dosage: '1 tablet at bedtime' },
+];
+
+describe('serializeMedicines', () => {
+  it('keeps name, quantity and trimmed dosage of each line in order', () => {
+    expect(serializeMedicines([{ ...lines[0], dosage: ' 1 tablet daily ' }]))
+      .toBe('[["Lisinopril 10mg",30,"1 tablet daily"]]');
+  });
+
+  it('ignores catalog fields such as stock', () => {
+    const restocked = lines.map(line => ({ ...line, medicine: { ...line.medicine, quantity: 0 } }));
+    expect(hashMedicines(restocked)).toBe(hashMedicines(lines));
+  });
+});
+
+describe('checkMedicinesCommitment', () => {
+  it('matches the commitment written for the same lines', () => {
+    expect(checkMedicinesCommitment(encodeMedicinesCommitment(lines), lines)).toBe('match');
+  });
+
+  it('is a mismatch when any line changed', () => {
+    const committed = encodeMedicinesCommitment(lines);
+    expect(checkMedicinesCommitment(committed, [lines[0], { ...lines[1], quantity: 60 }])).toBe('mismatch');
+    expect(checkMedicinesCommitment(committed, [lines[0], { ...lines[1], dosage: '2 tablets at bedtime' }])).toBe('mismatch');
+    expect(checkMedicinesCommitment(committed, [lines[1], lines[0]])).toBe('mismatch');
+    expect(checkMedicinesCommitment(committed, [lines[0]])).toBe('mismatch');
+  });
+
+  it("partly matches a legacy record holding the first medicine's name", () => {
+    expect(checkMedicinesCommitment('Lisinopril 10mg', lines)).toBe('legacy-match');
+  });
+
+  it('is a mismatch when a legacy record names another medicine', () => {
+    expect(checkMedicinesCommitment('Atorvastatin 20mg', lines)).toBe('mismatch');
+    expect(checkMedicinesCommitment('Lisinopril 10mg', [])).toBe('mismatch');
+  });
+});
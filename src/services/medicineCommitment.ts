@@ -0,0 +1,37 @@
+import { ethers } from 'ethers';
+import type { PrescriptionLine } from './PrescriptionService';
+
+// Prefix marking a contract `drug` field that holds a hash of every medicine line
+const COMMITMENT_PREFIX = 'medicines:keccak256:';
+
+type MedicineLines = Pick<PrescriptionLine, 'medicine' | 'quantity' | 'dosage'>[];
+
+// Canonical serialization: one [name, quantity, dosage] tuple per line, in prescribed order
+export function serializeMedicines(medicines: MedicineLines): string {
+  return JSON.stringify(
+    medicines.map(line => [line.medicine.name.trim(), line.quantity, line.dosage.trim()])
+  );
+}
+
+// keccak256 of the canonical serialization
+export function hashMedicines(medicines: MedicineLines): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(serializeMedicines(medicines)));
+}
+
+// Value written to the contract's `drug` field
+export function encodeMedicinesCommitment(medicines: MedicineLines): string {
+  return `${COMMITMENT_PREFIX}${hashMedicines(medicines)}`;
+}
+
+export type CommitmentCheck = 'match' | 'mismatch' | 'legacy-match';
+
+// Check a contract `drug` field against the medicine lines.
+// Records created before commitments only carried the first medicine's name.
+export function checkMedicinesCommitment(drug: string, medicines: MedicineLines): CommitmentCheck {
+  if (drug.startsWith(COMMITMENT_PREFIX)) {
+    return drug.slice(COMMITMENT_PREFIX.length).toLowerCase() === hashMedicines(medicines).toLowerCase()
+      ? 'match'
+      : 'mismatch';
+  }
+  return drug === medicines[0]?.medicine.name ? 'legacy-match' : 'mismatch';
+}
@@ -0,0 +1,83 @@
+import { ethers } from 'ethers';
+
+export type NetworkKey = 'local' | 'testnet' | 'production';
+
+// Chain the prescription contract is deployed to
+export interface NetworkConfig {
+  key: NetworkKey;
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  contractAddress: string;
+  // Block the contract was deployed in, where the chain indexer starts reading; null until configured.
+  // The indexer reads every block from here to the head (one block request each, plus a receipt per
+  // contract call), batched and at most a few thousand blocks per poll, so the first sync of a long-lived
+  // deployment takes a while. Set it to the real deployment block: each block earlier is wasted requests
+  deploymentBlock: number | null;
+  explorerUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+}
+
+// Deployment block from an env var, or null when it is not set
+const parseBlock = (value: string | undefined): number | null =>
+  value && /^\d+$/.test(value) ? Number(value) : null;
+
+// Network registry. Contract addresses and deployment blocks can be overridden per deployment via env vars.
+export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
+  local: {
+    key: 'local',
+    name: 'Local Dev Chain',
+    chainId: 31337,
+    rpcUrl: import.meta.env.VITE_RPC_URL || 'http://127.0.0.1:8545',
+    // First contract deployed by the default anvil/hardhat account
+    contractAddress: import.meta.env.VITE_LOCAL_CONTRACT_ADDRESS || '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    // A fresh dev chain is short, so it is read from the genesis block
+    deploymentBlock: parseBlock(import.meta.env.VITE_LOCAL_DEPLOYMENT_BLOCK) ?? 0,
+    explorerUrl: '',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  },
+  testnet: {
+    key: 'testnet',
+    name: 'Sepolia',
+    chainId: 11155111,
+    rpcUrl: 'https://rpc.sepolia.org',
+    contractAddress: import.meta.env.VITE_TESTNET_CONTRACT_ADDRESS || '',
+    deploymentBlock: parseBlock(import.meta.env.VITE_TESTNET_DEPLOYMENT_BLOCK),
+    explorerUrl: 'https://sepolia.etherscan.io',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+  },
+  production: {
+    key: 'production',
+    name: 'Polygon',
+    chainId: 137,
+    rpcUrl: 'https://polygon-rpc.com',
+    contractAddress: import.meta.env.VITE_PRODUCTION_CONTRACT_ADDRESS || '',
+    deploymentBlock: parseBlock(import.meta.env.VITE_PRODUCTION_DEPLOYMENT_BLOCK),
+    explorerUrl: 'https://polygonscan.com',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+  },
+};
+
+// Network the app expects wallets to be on
+export const DEFAULT_NETWORK: NetworkConfig =
+  NETWORKS[(import.meta.env.VITE_NETWORK as NetworkKey) || 'local'] ?? NETWORKS.local;
+
+// Check that a contract address is a 20-byte hex address
+export function isValidContractAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address) && ethers.isAddress(address);
+}
+
+// Find the registered network for a chain id
+export function getNetworkByChainId(chainId: number | string | bigint): NetworkConfig | null {
+  const id = Number(chainId);
+  return Object.values(NETWORKS).find(n => n.chainId === id) || null;
+}
+
+// Link to a transaction on the network's block explorer, if it has one
+export function getExplorerTxUrl(network: NetworkConfig, txHash: string): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : null;
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { deriveStatus, describeLock, getDispenseBlock } from './prescriptionLifecycle';
+import type { LockRule, Prescription } from './PrescriptionService';
+
+// Wednesday, January 15 2025 at noon local time
+const NOW = new Date(2025, 0, 15, 12);
+
+const daysFromNow = (days: number) => new Date(NOW.getTime() + days * 24 * 60 * 60 * 1000);
+
+// An active two-line prescription with one of three fills used and nothing of the current fill handed over
+const makePrescription = (overrides: Partial<Prescription> = {}): Prescription => ({
+  id: '1',
+  tokenId: 'RX-TEST0001',
+  patientId: '2',
+  patientName: 'Jane Doe',
+  patientAge: 35,
+  doctorId: '1',
+  doctorName: 'Dr. John Smith',
+  disease: 'Hypertension',
+  medicines: [
+    { medicine: { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 }, quantity: 30, dosage: '1 tablet daily', remainingQuantity: 30 },
+    { medicine: { id: '4', name: 'Atorvastatin 20mg', available: true, quantity: 80 }, quantity: 30, dosage: '1 tablet at bedtime', remainingQuantity: 30 },
+  ],
+  doseInterval: 'monthly',
+  doseValidity: daysFromNow(60),
+  refills: 3,
+  refillsRemaining: 2,
+  created: daysFromNow(-30),
+  locks: [],
+  status: 'active',
+  nextValidDose: daysFromNow(-1),
+  dispensedDates: [daysFromNow(-30)],
+  ...overrides,
+});
+
+const partlyDispensed = (prescription: Prescription): Prescription => ({
+  ...prescription,
+  medicines: prescription.medicines.map((line, index) => (index === 0 ? { ...line, remainingQuantity: 10 } : line)),
+});
+
+const lockedToday: LockRule = { kind: 'range', start: NOW, end: NOW, reason: 'Patient in hospital' };
+
+describe('deriveStatus', () => {
+  it('is active when a fill is due and nothing of it has been handed over', () => {
+    expect(deriveStatus(makePrescription(), NOW)).toBe('active');
+  });
+
+  it('is partially-dispensed when part of the current fill has been handed over', () => {
+    expect(deriveStatus(partlyDispensed(makePrescription()), NOW)).toBe('partially-dispensed');
+  });
+
+  it('puts locked before partially-dispensed', () => {
+    expect(deriveStatus(partlyDispensed(makePrescription({ locks: [lockedToday] })), NOW)).toBe('locked');
+  });
+
+  it('puts expired before locked', () => {
+    const prescription = makePrescription({ locks: [lockedToday], doseValidity: daysFromNow(-1) });
+    expect(deriveStatus(prescription, NOW)).toBe('expired');
+  });
+
+  it('is expired when the next fill only becomes due after the validity date', () => {
+    const prescription = makePrescription({ nextValidDose: daysFromNow(10), doseValidity: daysFromNow(5) });
+    expect(deriveStatus(prescription, NOW)).toBe('expired');
+  });
+
+  it('puts dispensed before expired', () => {
+    const prescription = makePrescription({ refillsRemaining: 0, doseValidity: daysFromNow(-1) });
+    expect(deriveStatus(prescription, NOW)).toBe('dispensed');
+  });
+
+  it('puts superseded before dispensed', () => {
+    const prescription = makePrescription({ refillsRemaining: 0, supersededBy: 'RX-TEST0002' });
+    expect(deriveStatus(prescription, NOW)).toBe('superseded');
+  });
+
+  it('puts revoked before superseded', () => {
+    const prescription = makePrescription({ supersededBy: 'RX-TEST0002', revokedAt: daysFromNow(-1) });
+    expect(deriveStatus(prescription, NOW)).toBe('revoked');
+  });
+
+  it('locks on the listed weekdays only', () => {
+    const prescription = makePrescription({ locks: [{ kind: 'weekdays', days: [3], reason: '' }] });
+    expect(deriveStatus(prescription, NOW)).toBe('locked');
+    expect(deriveStatus(prescription, daysFromNow(1))).toBe('active');
+  });
+
+  it('locks for the given days after the last dispense', () => {
+    const prescription = makePrescription({
+      locks: [{ kind: 'after-dispense', days: 3, reason: '' }],
+      dispensedDates: [daysFromNow(-2)],
+    });
+    expect(deriveStatus(prescription, NOW)).toBe('locked');
+    expect(deriveStatus(prescription, daysFromNow(2))).toBe('active');
+  });
+});
+
+describe('getDispenseBlock', () => {
+  it('allows an active or partially dispensed prescription', () => {
+    expect(getDispenseBlock(makePrescription(), NOW)).toBeNull();
+    expect(getDispenseBlock(partlyDispensed(makePrescription()), NOW)).toBeNull();
+  });
+
+  it('gives the revocation reason when there is one', () => {
+    expect(getDispenseBlock(makePrescription({ revokedAt: NOW, revocationReason: 'Wrong patient' }), NOW))
+      .toBe('This prescription was revoked: Wrong patient');
+    expect(getDispenseBlock(makePrescription({ revokedAt: NOW }), NOW)).toBe('This prescription was revoked');
+  });
+
+  it('names the replacement of a superseded prescription', () => {
+    expect(getDispenseBlock(makePrescription({ supersededBy: 'RX-TEST0002' }), NOW))
+      .toBe('This prescription was replaced by RX-TEST0002');
+  });
+
+  it('blocks dispensed and expired prescriptions', () => {
+    expect(getDispenseBlock(makePrescription({ refillsRemaining: 0 }), NOW))
+      .toBe('All refills for this prescription have been dispensed');
+    expect(getDispenseBlock(makePrescription({ doseValidity: daysFromNow(-1) }), NOW)).toBe('This prescription has expired');
+  });
+
+  it("gives the lock's reason, or describes the lock when it has none", () => {
+    expect(getDispenseBlock(makePrescription({ locks: [lockedToday] }), NOW))
+      .toBe('This prescription is locked: Patient in hospital');
+    expect(getDispenseBlock(makePrescription({ locks: [{ kind: 'weekdays', days: [3], reason: '' }] }), NOW))
+      .toBe('This prescription is locked: Every Wed');
+  });
+
+  it('blocks a fill requested before the dose interval has passed', () => {
+    const block = getDispenseBlock(makePrescription({ nextValidDose: daysFromNow(2) }), NOW);
+    expect(block).toMatch(/^Next refill available on /);
+  });
+});
+
+describe('describeLock', () => {
+  it('shows a single day range as one date', () => {
+    expect(describeLock({ kind: 'range', start: NOW, end: daysFromNow(0.25), reason: '' })).toBe('Jan 15, 2025');
+  });
+
+  it('shows both ends of a longer range', () => {
+    expect(describeLock({ kind: 'range', start: NOW, end: daysFromNow(5), reason: '' }))
+      .toBe('Jan 15, 2025 – Jan 20, 2025');
+  });
+
+  it('lists weekdays in week order', () => {
+    expect(describeLock({ kind: 'weekdays', days: [5, 0, 3], reason: '' })).toBe('Every Sun, Wed, Fri');
+  });
+
+  it('describes a cool-down after each dispense', () => {
+    expect(describeLock({ kind: 'after-dispense', days: 3, reason: '' })).toBe('Within 3 day(s) of the last dispense');
+  });
+});
@@ -0,0 +1,144 @@
+import { format } from 'date-fns';
+import type { LockRule, Prescription, PrescriptionStatus } from './PrescriptionService';
+
+// Fields the lifecycle reads to derive a prescription's status
+type LifecycleFields = Pick<
+  Prescription,
+  | 'doseValidity'
+  | 'locks'
+  | 'dispensedDates'
+  | 'refillsRemaining'
+  | 'nextValidDose'
+  | 'medicines'
+  | 'revokedAt'
+  | 'revocationReason'
+  | 'supersededBy'
+>;
+
+// Midnight at the start of the given day
+const startOfDay = (date: Date): number => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Whether a single lock rule applies at `now`. Ranges and weekdays block whole calendar days
+function lockApplies(lock: LockRule, lastDispensed: Date | null, now: Date): boolean {
+  switch (lock.kind) {
+    case 'range': {
+      const today = startOfDay(now);
+      return startOfDay(lock.start) <= today && today <= startOfDay(lock.end);
+    }
+    case 'weekdays':
+      return lock.days.includes(now.getDay());
+    case 'after-dispense':
+      return !!lastDispensed && now.getTime() - lastDispensed.getTime() < lock.days * DAY_MS;
+  }
+}
+
+// The first lock rule blocking dispensing at `now`, if any
+export function getActiveLock(
+  prescription: Pick<Prescription, 'locks' | 'dispensedDates'>,
+  now: Date = new Date()
+): LockRule | null {
+  const lastDispensed = prescription.dispensedDates.length > 0
+    ? new Date(Math.max(...prescription.dispensedDates.map(date => date.getTime())))
+    : null;
+  return prescription.locks.find(lock => lockApplies(lock, lastDispensed, now)) ?? null;
+}
+
+// Whether any lock rule blocks dispensing at `now`
+export function isLockedOn(
+  prescription: Pick<Prescription, 'locks' | 'dispensedDates'>,
+  now: Date = new Date()
+): boolean {
+  return getActiveLock(prescription, now) !== null;
+}
+
+// Human-readable summary of when a lock rule applies
+export function describeLock(lock: LockRule): string {
+  switch (lock.kind) {
+    case 'range':
+      return startOfDay(lock.start) === startOfDay(lock.end)
+        ? format(lock.start, 'MMM d, yyyy')
+        : `${format(lock.start, 'MMM d, yyyy')} – ${format(lock.end, 'MMM d, yyyy')}`;
+    case 'weekdays':
+      return `Every ${[...lock.days].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+    case 'after-dispense':
+      return `Within ${lock.days} day(s) of the last dispense`;
+  }
+}
+
+// Derive the status at `now`. Precedence:
+// revoked > superseded > dispensed > expired > locked > partially-dispensed > active
+export function deriveStatus(prescription: LifecycleFields, now: Date = new Date()): PrescriptionStatus {
+  // Doctor actions end the prescription regardless of its dispense history
+  if (prescription.revokedAt) {
+    return 'revoked';
+  }
+  if (prescription.supersededBy) {
+    return 'superseded';
+  }
+
+  // Every fill has been handed over
+  if (prescription.refillsRemaining <= 0) {
+    return 'dispensed';
+  }
+
+  // Past the validity date, or the next fill would only become due after it
+  const validUntil = prescription.doseValidity.getTime();
+  if (now.getTime() > validUntil || (prescription.nextValidDose && prescription.nextValidDose.getTime() > validUntil)) {
+    return 'expired';
+  }
+
+  if (isLockedOn(prescription, now)) {
+    return 'locked';
+  }
+
+  // Some of the current fill has been handed over but not all of it
+  if (prescription.medicines.some(line => line.remainingQuantity < line.quantity)) {
+    return 'partially-dispensed';
+  }
+
+  return 'active';
+}
+
+// Return a copy of the prescription with its status derived at `now`
+export function withDerivedStatus<T extends LifecycleFields & { status: PrescriptionStatus }>(
+  prescription: T,
+  now: Date = new Date()
+): T {
+  const status = deriveStatus(prescription, now);
+  return status === prescription.status ? prescription : { ...prescription, status };
+}
+
+// Reason the prescription cannot be dispensed at `now`, or null if it can
+export function getDispenseBlock(prescription: LifecycleFields, now: Date = new Date()): string | null {
+  switch (deriveStatus(prescription, now)) {
+    case 'revoked':
+      return prescription.revocationReason
+        ? `This prescription was revoked: ${prescription.revocationReason}`
+        : 'This prescription was revoked';
+    case 'superseded':
+      return `This prescription was replaced by ${prescription.supersededBy}`;
+    case 'dispensed':
+      return 'All refills for this prescription have been dispensed';
+    case 'expired':
+      return 'This prescription has expired';
+    case 'locked': {
+      const lock = getActiveLock(prescription, now);
+      return lock ? `This prescription is locked: ${lock.reason || describeLock(lock)}` : 'This prescription is locked';
+    }
+    case 'active':
+      if (prescription.nextValidDose && now.getTime() < prescription.nextValidDose.getTime()) {
+        return `Next refill available on ${prescription.nextValidDose.toLocaleString()}`;
+      }
+      return null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import type { Prescription } from './PrescriptionService';
+import { getRepository } from './storage';
+
+// Separator between the fields of a QR payload
+const QR_PAYLOAD_SEPARATOR = '|';
+
+// localStorage key for the last known doctor registry, used when the repository can't be reached
+const DOCTOR_REGISTRY_CACHE_KEY = 'medichain:doctor-registry';
+
+// Fields a doctor signs when issuing a prescription QR code
+export interface QrClaims {
+  tokenId: string;
+  // keccak256 of the bytes32 contract token, so the QR doesn't expose the token itself
+  contractTokenHash: string;
+  doctor: string;
+  // Unix seconds after which the QR is no longer accepted
+  expiresAt: number;
+}
+
+// A decoded QR payload; `signature` is null for legacy unsigned codes
+export interface QrPayload extends Partial<Omit<QrClaims, 'tokenId'>> {
+  tokenId: string;
+  signature: string | null;
+}
+
+// A doctor whose wallet address was verified (via Sign-In With Ethereum) and stored on their account
+export interface RegisteredDoctor {
+  id: string;
+  name: string;
+  address: string;
+}
+
+// Outcome of checking a scanned QR code locally
+export interface QrVerification {
+  status: 'valid' | 'unsigned' | 'bad-signature' | 'unknown-doctor' | 'expired';
+  tokenId: string;
+  contractTokenHash?: string;
+  // Registered doctor whose wallet signed the QR; checked against the prescription's doctor after lookup
+  doctorId?: string;
+  doctorName?: string;
+  expiresAt?: Date;
+}
+
+// Hash of a contract token as carried in the QR
+export function hashContractToken(contractToken: string): string {
+  return ethers.keccak256(contractToken);
+}
+
+// Claims for a prescription signed by `doctor`; the QR expires with the prescription
+export function getQrClaims(
+  prescription: Pick<Prescription, 'tokenId' | 'contractToken' | 'doseValidity'>,
+  doctor: string
+): QrClaims | null {
+  if (!prescription.contractToken) {
+    return null;
+  }
+  return {
+    tokenId: prescription.tokenId,
+    contractTokenHash: hashContractToken(prescription.contractToken),
+    doctor: ethers.getAddress(doctor),
+    expiresAt: Math.floor(prescription.doseValidity.getTime() / 1000),
+  };
+}
+
+// EIP-191 message the doctor's wallet signs for the QR code
+export function buildQrSigningMessage(claims: QrClaims): string {
+  return [
+    'MediChain prescription',
+    `Token: ${claims.tokenId}`,
+    `Contract token hash: ${claims.contractTokenHash}`,
+    `Doctor: ${claims.doctor}`,
+    `Expires: ${claims.expiresAt}`,
+  ].join('\n');
+}
+
+// Build the QR payload: "RX-…|hash|doctor|expiresAt|signature", or just the token when unsigned
+export function encodeQrPayload(
+  prescription: Pick<Prescription, 'tokenId' | 'contractToken' | 'doseValidity' | 'qrSigner' | 'qrSignature'>
+): string {
+  const claims = prescription.qrSigner ? getQrClaims(prescription, prescription.qrSigner) : null;
+  if (!claims || !prescription.qrSignature) {
+    return prescription.tokenId;
+  }
+  return [
+    claims.tokenId,
+    claims.contractTokenHash,
+    claims.doctor,
+    claims.expiresAt,
+    prescription.qrSignature,
+  ].join(QR_PAYLOAD_SEPARATOR);
+}
+
+// Parse a scanned QR payload. Older unsigned codes ("RX-…" or "RX-…|0x<bytes32>") decode with a null signature
+export function decodeQrPayload(payload: string): QrPayload | null {
+  const parts = payload.trim().split(QR_PAYLOAD_SEPARATOR);
+  const [tokenId] = parts;
+  if (!tokenId || !tokenId.startsWith('RX-')) {
+    return null;
+  }
+  if (parts.length <= 2) {
+    return { tokenId, signature: null };
+  }
+
+  const [, contractTokenHash, doctor, expiresAt, signature] = parts;
+  if (
+    parts.length !== 5 ||
+    !/^0x[0-9a-fA-F]{64}$/.test(contractTokenHash) ||
+    !ethers.isAddress(doctor) ||
+    !/^\d+$/.test(expiresAt) ||
+    !/^0x[0-9a-fA-F]{130}$/.test(signature)
+  ) {
+    return null;
+  }
+  return { tokenId, contractTokenHash, doctor, expiresAt: Number(expiresAt), signature };
+}
+
+// Check a decoded payload's signature, signer registration and expiry without any network access
+export function verifyQrPayload(
+  payload: QrPayload,
+  doctors: RegisteredDoctor[],
+  now: Date = new Date()
+): QrVerification {
+  const base = { tokenId: payload.tokenId, contractTokenHash: payload.contractTokenHash };
+  if (!payload.signature || !payload.contractTokenHash || !payload.doctor || payload.expiresAt === undefined) {
+    return { ...base, status: 'unsigned' };
+  }
+
+  const claims: QrClaims = {
+    tokenId: payload.tokenId,
+    contractTokenHash: payload.contractTokenHash,
+    doctor: ethers.getAddress(payload.doctor),
+    expiresAt: payload.expiresAt,
+  };
+  const expiresAt = new Date(claims.expiresAt * 1000);
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(buildQrSigningMessage(claims), payload.signature);
+  } catch {
+    return { ...base, status: 'bad-signature', expiresAt };
+  }
+  if (signer !== claims.doctor) {
+    return { ...base, status: 'bad-signature', expiresAt };
+  }
+
+  const doctor = doctors.find(d => d.address.toLowerCase() === signer.toLowerCase());
+  if (!doctor) {
+    return { ...base, status: 'unknown-doctor', expiresAt };
+  }
+  if (now.getTime() > expiresAt.getTime()) {
+    return { ...base, status: 'expired', doctorId: doctor.id, doctorName: doctor.name, expiresAt };
+  }
+  return { ...base, status: 'valid', doctorId: doctor.id, doctorName: doctor.name, expiresAt };
+}
+
+// Doctors with a verified wallet address. Falls back to the last cached copy when storage is unreachable
+export async function loadDoctorRegistry(): Promise<RegisteredDoctor[]> {
+  try {
+    const users = await getRepository().getUsers();
+    const doctors = users
+      .filter(user => user.role === 'doctor' && user.ethereumAddress)
+      .map(user => ({ id: user.id, name: user.name, address: user.ethereumAddress! }));
+    localStorage.setItem(DOCTOR_REGISTRY_CACHE_KEY, JSON.stringify(doctors));
+    return doctors;
+  } catch (error) {
+    console.error('Failed to load doctor registry, using cached copy:', error);
+    const cached = localStorage.getItem(DOCTOR_REGISTRY_CACHE_KEY);
+    return cached ? JSON.parse(cached) : [];
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  PRESCRIPTION_TYPES,
+  SignedPrescriptionFields,
+  buildPrescriptionTypedData,
+  getPrescriptionDomain,
+  verifyPrescriptionSignature,
+} from './prescriptionSignature';
+
+const CHAIN_ID = 31337;
+
+// Fixed keys so signatures are reproducible
+const doctorWallet = new ethers.Wallet(`0x${'11'.repeat(32)}`);
+const otherWallet = new ethers.Wallet(`0x${'22'.repeat(32)}`);
+
+const doctors = [{ id: '1', name: 'Dr. John Smith', address: doctorWallet.address }];
+
+const prescription: SignedPrescriptionFields = {
+  tokenId: 'RX-TEST0001',
+  contractToken: ethers.id('RX-TEST0001'),
+  patientId: '2',
+  patientName: 'Jane Doe',
+  patientAge: 35,
+  doctorId: '1',
+  doctorName: 'Dr. John Smith',
+  disease: 'Hypertension',
+  medicines: [
+    { medicine: { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 }, quantity: 30, dosage: '1 tablet daily' },
+  ],
+  doseInterval: 'monthly',
+  doseValidity: new Date(2025, 5, 1),
+  refills: 3,
+  created: new Date(2025, 0, 1),
+  locks: [{ kind: 'weekdays', days: [0], reason: 'Pharmacy closed' }],
+};
+
+const sign = async (wallet: ethers.Wallet, fields: SignedPrescriptionFields = prescription) => ({
+  signer: wallet.address,
+  signature: await wallet.signTypedData(getPrescriptionDomain(CHAIN_ID), PRESCRIPTION_TYPES, buildPrescriptionTypedData(fields)),
+  chainId: CHAIN_ID,
+});
+
+describe('verifyPrescriptionSignature', () => {
+  it("accepts a prescription signed by the issuing doctor's wallet", async () => {
+    const result = verifyPrescriptionSignature({ ...prescription, doctorSignature: await sign(doctorWallet) }, doctors);
+    expect(result).toEqual({ status: 'valid', signer: doctorWallet.address, detail: `Signed by Dr. John Smith (${doctorWallet.address})` });
+  });
+
+  it('reports an unsigned prescription', () => {
+    expect(verifyPrescriptionSignature(prescription, doctors).status).toBe('unsigned');
+  });
+
+  it('detects a change to any signed field', async () => {
+    const doctorSignature = await sign(doctorWallet);
+    const changed: SignedPrescriptionFields[] = [
+      { ...prescription, patientName: 'John Doe' },
+      { ...prescription, refills: 5 },
+      { ...prescription, medicines: [{ ...prescription.medicines[0], quantity: 90 }] },
+      { ...prescription, locks: [] },
+      { ...prescription, doseValidity: new Date(2026, 5, 1) },
+    ];
+    changed.forEach(fields => {
+      expect(verifyPrescriptionSignature({ ...fields, doctorSignature }, doctors).status).toBe('tampered');
+    });
+  });
+
+  it('detects a signature moved to another chain', async () => {
+    const doctorSignature = { ...(await sign(doctorWallet)), chainId: 1 };
+    expect(verifyPrescriptionSignature({ ...prescription, doctorSignature }, doctors).status).toBe('tampered');
+  });
+
+  it('reports a malformed signature as tampered', () => {
+    const doctorSignature = { signer: doctorWallet.address, signature: '0x1234', chainId: CHAIN_ID };
+    expect(verifyPrescriptionSignature({ ...prescription, doctorSignature }, doctors)).toEqual({
+      status: 'tampered',
+      detail: 'The stored signature is malformed',
+    });
+  });
+
+  it("rejects a valid signature from a wallet that isn't the doctor's", async () => {
+    const result = verifyPrescriptionSignature({ ...prescription, doctorSignature: await sign(otherWallet) }, doctors);
+    expect(result.status).toBe('wrong-doctor');
+    expect(result.signer).toBe(otherWallet.address);
+  });
+
+  it('leaves dispensing progress out of the signed fields', async () => {
+    const doctorSignature = await sign(doctorWallet);
+    const dispensed = { ...prescription, refillsRemaining: 0, status: 'dispensed', doctorSignature };
+    expect(verifyPrescriptionSignature(dispensed, doctors).status).toBe('valid');
+  });
+});
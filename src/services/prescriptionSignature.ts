@@ -0,0 +1,153 @@
+import { ethers } from 'ethers';
+import type { LockRule, Prescription, PrescriptionLine } from './PrescriptionService';
+import type { RegisteredDoctor } from './prescriptionQr';
+
+// EIP-712 signature of a prescription by the issuing doctor's wallet
+export interface PrescriptionSignature {
+  signer: string;
+  signature: string;
+  // Chain the wallet was on when signing; part of the EIP-712 domain
+  chainId: number;
+}
+
+// Outcome of checking a prescription's doctor signature
+export interface SignatureVerification {
+  status: 'valid' | 'unsigned' | 'tampered' | 'wrong-doctor';
+  signer?: string;
+  detail: string;
+}
+
+// Fields covered by the signature. Dispensing progress and status are left out so they can change
+export type SignedPrescriptionFields = Pick<
+  Prescription,
+  | 'tokenId'
+  | 'contractToken'
+  | 'patientId'
+  | 'patientName'
+  | 'patientAge'
+  | 'doctorId'
+  | 'doctorName'
+  | 'disease'
+  | 'doseInterval'
+  | 'doseValidity'
+  | 'refills'
+  | 'created'
+  | 'locks'
+  | 'supersedes'
+> & {
+  medicines: Pick<PrescriptionLine, 'medicine' | 'quantity' | 'dosage'>[];
+};
+
+// EIP-712 struct definitions for a prescription
+export const PRESCRIPTION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Prescription: [
+    { name: 'tokenId', type: 'string' },
+    { name: 'contractToken', type: 'bytes32' },
+    { name: 'patientId', type: 'string' },
+    { name: 'patientName', type: 'string' },
+    { name: 'patientAge', type: 'uint256' },
+    { name: 'doctorId', type: 'string' },
+    { name: 'doctorName', type: 'string' },
+    { name: 'disease', type: 'string' },
+    { name: 'medicines', type: 'MedicineLine[]' },
+    { name: 'doseInterval', type: 'string' },
+    { name: 'validUntil', type: 'uint256' },
+    { name: 'refills', type: 'uint256' },
+    { name: 'created', type: 'uint256' },
+    { name: 'locks', type: 'LockRule[]' },
+    { name: 'supersedes', type: 'string' },
+  ],
+  MedicineLine: [
+    { name: 'medicineId', type: 'string' },
+    { name: 'name', type: 'string' },
+    { name: 'quantity', type: 'uint256' },
+    { name: 'dosage', type: 'string' },
+  ],
+  // One shape for every lock kind; fields a kind doesn't use are zero or empty
+  LockRule: [
+    { name: 'kind', type: 'string' },
+    { name: 'start', type: 'uint256' },
+    { name: 'end', type: 'uint256' },
+    { name: 'days', type: 'uint256[]' },
+    { name: 'reason', type: 'string' },
+  ],
+};
+
+// Unix seconds for a date field
+const toSeconds = (date: Date | string) => Math.floor(new Date(date).getTime() / 1000);
+
+// Flatten a lock rule into the shared LockRule struct
+const toTypedLock = (lock: LockRule) => {
+  switch (lock.kind) {
+    case 'range':
+      return { kind: lock.kind, start: toSeconds(lock.start), end: toSeconds(lock.end), days: [], reason: lock.reason };
+    case 'weekdays':
+      return { kind: lock.kind, start: 0, end: 0, days: lock.days, reason: lock.reason };
+    case 'after-dispense':
+      return { kind: lock.kind, start: 0, end: 0, days: [lock.days], reason: lock.reason };
+  }
+};
+
+// EIP-712 domain for prescriptions signed on `chainId`
+export function getPrescriptionDomain(chainId: number): ethers.TypedDataDomain {
+  return { name: 'MediChain Prescription', version: '1', chainId };
+}
+
+// Typed-data value for a prescription
+export function buildPrescriptionTypedData(prescription: SignedPrescriptionFields): Record<string, unknown> {
+  return {
+    tokenId: prescription.tokenId,
+    contractToken: prescription.contractToken ?? ethers.ZeroHash,
+    patientId: prescription.patientId,
+    patientName: prescription.patientName,
+    patientAge: prescription.patientAge,
+    doctorId: prescription.doctorId,
+    doctorName: prescription.doctorName,
+    disease: prescription.disease,
+    medicines: prescription.medicines.map(line => ({
+      medicineId: line.medicine.id,
+      name: line.medicine.name,
+      quantity: line.quantity,
+      dosage: line.dosage,
+    })),
+    doseInterval: prescription.doseInterval,
+    validUntil: toSeconds(prescription.doseValidity),
+    refills: prescription.refills,
+    created: toSeconds(prescription.created),
+    locks: prescription.locks.map(toTypedLock),
+    supersedes: prescription.supersedes ?? '',
+  };
+}
+
+// Recover the signer of a prescription and check it is the issuing doctor's registered wallet.
+// Works offline: only the stored record and the doctor registry are needed.
+export function verifyPrescriptionSignature(
+  prescription: SignedPrescriptionFields & { doctorSignature?: PrescriptionSignature },
+  doctors: RegisteredDoctor[]
+): SignatureVerification {
+  const { doctorSignature } = prescription;
+  if (!doctorSignature) {
+    return { status: 'unsigned', detail: 'The prescription was not signed by the doctor\'s wallet' };
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(
+      getPrescriptionDomain(doctorSignature.chainId),
+      PRESCRIPTION_TYPES,
+      buildPrescriptionTypedData(prescription),
+      doctorSignature.signature
+    );
+  } catch {
+    return { status: 'tampered', detail: 'The stored signature is malformed' };
+  }
+  if (signer.toLowerCase() !== doctorSignature.signer.toLowerCase()) {
+    return { status: 'tampered', signer, detail: 'The prescription was changed after the doctor signed it' };
+  }
+
+  const doctor = doctors.find(d => d.id === prescription.doctorId);
+  if (!doctor || doctor.address.toLowerCase() !== signer.toLowerCase()) {
+    return { status: 'wrong-doctor', signer, detail: `Signed by ${signer}, which is not ${prescription.doctorName}'s registered wallet` };
+  }
+  return { status: 'valid', signer, detail: `Signed by ${doctor.name} (${signer})` };
+}
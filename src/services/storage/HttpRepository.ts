@@ -0,0 +1,167 @@
+import axios from 'axios';
+import type { Medicine, Prescription } from '../PrescriptionService';
+import type { User } from '@/contexts/AuthContext';
+import {
+  AuditEntry,
+  DispenseEvent,
+  PatientProfile,
+  PatientWallet,
+  PrescriptionRepository,
+  PrescriptionTemplate,
+  SiweNonce,
+  reviveAuditEntry,
+  reviveDispenseEvent,
+  revivePatientProfile,
+  revivePatientWallet,
+  revivePrescription,
+  reviveTemplate,
+} from './PrescriptionRepository';
+
+// Repository that talks to the REST backend described in server/README.md
+export function createHttpRepository(baseURL: string): PrescriptionRepository {
+  const client = axios.create({
+    baseURL,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  return {
+    getPrescriptions: async () => {
+      const { data } = await client.get<Prescription[]>('/prescriptions');
+      return data.map(revivePrescription);
+    },
+
+    getPrescription: async (id) => {
+      try {
+        const { data } = await client.get<Prescription>(`/prescriptions/${encodeURIComponent(id)}`);
+        return revivePrescription(data);
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    savePrescription: async (prescription) => {
+      const { data } = await client.post<Prescription>('/prescriptions', prescription);
+      return revivePrescription(data);
+    },
+
+    getMedicines: async () => {
+      const { data } = await client.get<Medicine[]>('/medicines');
+      return data;
+    },
+
+    saveMedicine: async (medicine) => {
+      const { data } = await client.put<Medicine>(`/medicines/${encodeURIComponent(medicine.id)}`, medicine);
+      return data;
+    },
+
+    getUsers: async () => {
+      const { data } = await client.get<User[]>('/users');
+      return data;
+    },
+
+    saveUser: async (user) => {
+      const { data } = await client.post<User>('/users', user);
+      return data;
+    },
+
+    getDispenseEvents: async () => {
+      const { data } = await client.get<DispenseEvent[]>('/dispense-events');
+      return data.map(reviveDispenseEvent);
+    },
+
+    addDispenseEvent: async (event) => {
+      const { data } = await client.post<DispenseEvent>('/dispense-events', event);
+      return reviveDispenseEvent(data);
+    },
+
+    updateDispenseEvent: async (event) => {
+      const { data } = await client.put<DispenseEvent>(`/dispense-events/${encodeURIComponent(event.id)}`, event);
+      return reviveDispenseEvent(data);
+    },
+
+    getPatientWallets: async () => {
+      const { data } = await client.get<PatientWallet[]>('/patient-wallets');
+      return data.map(revivePatientWallet);
+    },
+
+    savePatientWallet: async (wallet) => {
+      const { data } = await client.put<PatientWallet>(
+        `/patient-wallets/${encodeURIComponent(wallet.patientId)}`,
+        wallet
+      );
+      return revivePatientWallet(data);
+    },
+
+    getPatientProfiles: async () => {
+      const { data } = await client.get<PatientProfile[]>('/patient-profiles');
+      return data.map(revivePatientProfile);
+    },
+
+    savePatientProfile: async (profile) => {
+      const { data } = await client.put<PatientProfile>(
+        `/patient-profiles/${encodeURIComponent(profile.patientId)}`,
+        profile
+      );
+      return revivePatientProfile(data);
+    },
+
+    getTemplates: async () => {
+      const { data } = await client.get<PrescriptionTemplate[]>('/templates');
+      return data.map(reviveTemplate);
+    },
+
+    saveTemplate: async (template) => {
+      const { data } = await client.put<PrescriptionTemplate>(
+        `/templates/${encodeURIComponent(template.id)}`,
+        template
+      );
+      return reviveTemplate(data);
+    },
+
+    recordDispense: async (prescription, event) => {
+      try {
+        const { data } = await client.post<Prescription>(
+          `/prescriptions/${encodeURIComponent(prescription.tokenId)}/dispense`,
+          { prescription, event }
+        );
+        return revivePrescription(data);
+      } catch (error) {
+        // The server refuses stale or over-stock dispenses; pass its reason on to the pharmacist
+        if (axios.isAxiosError(error) && error.response?.status === 409) {
+          throw new Error(error.response.data?.error ?? 'The prescription was changed elsewhere');
+        }
+        throw error;
+      }
+    },
+
+    getAuditEntries: async () => {
+      const { data } = await client.get<AuditEntry[]>('/audit-entries');
+      return data.map(reviveAuditEntry);
+    },
+
+    recordAudit: async (prescriptions, entry) => {
+      const { data } = await client.post<AuditEntry>('/audit-entries', { prescriptions, entry });
+      return reviveAuditEntry(data);
+    },
+
+    issueSiweNonce: async (address) => {
+      const { data } = await client.post<SiweNonce>('/siwe-nonces', { address });
+      return { ...data, expiresAt: new Date(data.expiresAt) };
+    },
+
+    consumeSiweNonce: async (nonce, address) => {
+      try {
+        await client.post(`/siwe-nonces/${encodeURIComponent(nonce)}/consume`, { address });
+        return true;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 409) {
+          return false;
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { createInMemoryRepository } from './InMemoryRepository';
+import type { DispenseEvent } from './PrescriptionRepository';
+import type { Medicine, Prescription } from '../PrescriptionService';
+
+const lisinopril: Medicine = { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 40 };
+const atorvastatin: Medicine = { id: '4', name: 'Atorvastatin 20mg', available: true, quantity: 30 };
+
+const prescription: Prescription = {
+  id: 'p-1',
+  tokenId: 'RX-TEST0001',
+  patientId: '2',
+  patientName: 'Jane Doe',
+  patientAge: 35,
+  doctorId: '1',
+  doctorName: 'Dr. John Smith',
+  disease: 'Hypertension',
+  medicines: [
+    { medicine: lisinopril, quantity: 10, dosage: '1 tablet daily', remainingQuantity: 10 },
+    { medicine: lisinopril, quantity: 5, dosage: '2 tablets daily', remainingQuantity: 5 },
+    { medicine: atorvastatin, quantity: 30, dosage: '1 tablet at bedtime', remainingQuantity: 30 },
+  ],
+  doseInterval: 'monthly',
+  doseValidity: new Date(2025, 5, 1),
+  refills: 2,
+  refillsRemaining: 2,
+  created: new Date(2025, 0, 1),
+  locks: [],
+  status: 'active',
+  nextValidDose: new Date(2025, 0, 1),
+  dispensedDates: [],
+};
+
+const event: DispenseEvent = {
+  id: 'RX-TEST0001-1',
+  prescriptionId: 'p-1',
+  tokenId: 'RX-TEST0001',
+  dispensedAt: new Date(2025, 0, 2),
+  pharmacistId: '3',
+  pharmacistName: 'Sam Wilson',
+  medicines: [
+    { medicineId: '2', medicineName: 'Lisinopril 10mg', lineIndex: 0, quantity: 10 },
+    { medicineId: '2', medicineName: 'Lisinopril 10mg', lineIndex: 1, quantity: 5 },
+    { medicineId: '4', medicineName: 'Atorvastatin 20mg', lineIndex: 2, quantity: 30 },
+  ],
+  chainStatus: 'not-recorded',
+};
+
+const makeRepository = () => createInMemoryRepository({ prescriptions: [prescription], medicines: [lisinopril, atorvastatin] });
+
+describe('createInMemoryRepository', () => {
+  it('records a dispense as the updated prescription, the stock taken and the event together', async () => {
+    const repository = makeRepository();
+    const dispensed: Prescription = {
+      ...prescription,
+      refillsRemaining: 1,
+      dispensedDates: [event.dispensedAt],
+    };
+
+    await repository.recordDispense(dispensed, event);
+
+    expect(await repository.getPrescription('p-1')).toEqual(dispensed);
+    expect(await repository.getMedicines()).toEqual([
+      { ...lisinopril, quantity: 25 },
+      { ...atorvastatin, quantity: 0, available: false },
+    ]);
+    expect(await repository.getDispenseEvents()).toEqual([event]);
+  });
+
+  it('hands out copies, so callers cannot change stored records', async () => {
+    const repository = makeRepository();
+    const [stored] = await repository.getPrescriptions();
+    stored.medicines[0].remainingQuantity = 0;
+
+    expect((await repository.getPrescription('p-1'))?.medicines[0].remainingQuantity).toBe(10);
+  });
+
+  it('stores the superseded and replacement prescriptions with their audit entry', async () => {
+    const repository = makeRepository();
+    const replacement = { ...prescription, id: 'p-2', tokenId: 'RX-TEST0002', supersedes: 'RX-TEST0001' };
+
+    await repository.recordAudit([{ ...prescription, status: 'superseded', supersededBy: 'RX-TEST0002' }, replacement], {
+      id: 'RX-TEST0001-amended-1',
+      prescriptionId: 'p-1',
+      tokenId: 'RX-TEST0001',
+      action: 'amended',
+      actorId: '1',
+      actorName: 'Dr. John Smith',
+      reason: 'Dose change',
+      at: new Date(2025, 0, 3),
+      replacementTokenId: 'RX-TEST0002',
+    });
+
+    expect((await repository.getPrescriptions()).map(p => [p.tokenId, p.status])).toEqual([
+      ['RX-TEST0001', 'superseded'],
+      ['RX-TEST0002', 'active'],
+    ]);
+    expect((await repository.getAuditEntries()).map(e => e.replacementTokenId)).toEqual(['RX-TEST0002']);
+  });
+});
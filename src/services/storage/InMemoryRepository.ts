@@ -0,0 +1,134 @@
+import type { Medicine, Prescription } from '../PrescriptionService';
+import type { User } from '@/contexts/AuthContext';
+import {
+  AuditEntry,
+  DispenseEvent,
+  PatientProfile,
+  PatientWallet,
+  PrescriptionRepository,
+  PrescriptionTemplate,
+  createLocalNonceStore,
+  deductInventory,
+} from './PrescriptionRepository';
+import { createSeedPrescriptions, seedMedicines, seedPatientProfiles, seedTemplates, seedUsers } from './seed';
+
+interface InMemorySeed {
+  prescriptions?: Prescription[];
+  medicines?: Medicine[];
+  users?: User[];
+  dispenseEvents?: DispenseEvent[];
+  patientWallets?: PatientWallet[];
+  patientProfiles?: PatientProfile[];
+  auditEntries?: AuditEntry[];
+  templates?: PrescriptionTemplate[];
+}
+
+// Replace the record with the same id, or append it
+const upsert = <T extends { id: string }>(records: T[], record: T): T[] => {
+  const index = records.findIndex(r => r.id === record.id);
+  if (index === -1) {
+    return [...records, record];
+  }
+  return [...records.slice(0, index), record, ...records.slice(index + 1)];
+};
+
+// Non-persistent repository, used for tests and when IndexedDB is unavailable
+export function createInMemoryRepository(seed: InMemorySeed = {}): PrescriptionRepository {
+  // Clone on the way in and out so callers can't mutate stored records
+  let prescriptions = structuredClone(seed.prescriptions ?? createSeedPrescriptions());
+  let medicines = structuredClone(seed.medicines ?? seedMedicines);
+  let users = structuredClone(seed.users ?? seedUsers);
+  let dispenseEvents = structuredClone(seed.dispenseEvents ?? []);
+  let patientWallets = structuredClone(seed.patientWallets ?? []);
+  let patientProfiles = structuredClone(seed.patientProfiles ?? seedPatientProfiles);
+  let auditEntries = structuredClone(seed.auditEntries ?? []);
+  let templates = structuredClone(seed.templates ?? seedTemplates);
+
+  return {
+    getPrescriptions: async () => structuredClone(prescriptions),
+
+    getPrescription: async (id) => {
+      const prescription = prescriptions.find(p => p.id === id);
+      return prescription ? structuredClone(prescription) : null;
+    },
+
+    savePrescription: async (prescription) => {
+      prescriptions = upsert(prescriptions, structuredClone(prescription));
+      return prescription;
+    },
+
+    getMedicines: async () => structuredClone(medicines),
+
+    saveMedicine: async (medicine) => {
+      medicines = upsert(medicines, structuredClone(medicine));
+      return medicine;
+    },
+
+    getUsers: async () => structuredClone(users),
+
+    saveUser: async (user) => {
+      users = upsert(users, structuredClone(user));
+      return user;
+    },
+
+    getDispenseEvents: async () => structuredClone(dispenseEvents),
+
+    addDispenseEvent: async (event) => {
+      dispenseEvents = [...dispenseEvents, structuredClone(event)];
+      return event;
+    },
+
+    updateDispenseEvent: async (event) => {
+      dispenseEvents = upsert(dispenseEvents, structuredClone(event));
+      return event;
+    },
+
+    getPatientWallets: async () => structuredClone(patientWallets),
+
+    savePatientWallet: async (wallet) => {
+      patientWallets = [
+        ...patientWallets.filter(w => w.patientId !== wallet.patientId),
+        structuredClone(wallet),
+      ];
+      return wallet;
+    },
+
+    getPatientProfiles: async () => structuredClone(patientProfiles),
+
+    savePatientProfile: async (profile) => {
+      patientProfiles = [
+        ...patientProfiles.filter(p => p.patientId !== profile.patientId),
+        structuredClone(profile),
+      ];
+      return profile;
+    },
+
+    getTemplates: async () => structuredClone(templates),
+
+    saveTemplate: async (template) => {
+      templates = upsert(templates, structuredClone(template));
+      return template;
+    },
+
+    recordDispense: async (prescription, event) => {
+      prescriptions = upsert(prescriptions, structuredClone(prescription));
+      deductInventory(medicines, event).forEach(medicine => {
+        medicines = upsert(medicines, medicine);
+      });
+      dispenseEvents = [...dispenseEvents, structuredClone(event)];
+      return prescription;
+    },
+
+    getAuditEntries: async () => structuredClone(auditEntries),
+
+    recordAudit: async (changed, entry) => {
+      changed.forEach(prescription => {
+        prescriptions = upsert(prescriptions, structuredClone(prescription));
+      });
+      auditEntries = [...auditEntries, structuredClone(entry)];
+      return entry;
+    },
+
+    ...createLocalNonceStore(),
+  };
+}
@@ -0,0 +1,228 @@
+import type { Medicine, Prescription } from '../PrescriptionService';
+import {
+  AuditEntry,
+  DispenseEvent,
+  PatientProfile,
+  PatientWallet,
+  PrescriptionRepository,
+  PrescriptionTemplate,
+  createLocalNonceStore,
+  deductInventory,
+  reviveAuditEntry,
+  reviveDispenseEvent,
+  revivePatientProfile,
+  revivePatientWallet,
+  revivePrescription,
+  reviveTemplate,
+} from './PrescriptionRepository';
+import { createSeedPrescriptions, seedMedicines, seedPatientProfiles, seedTemplates, seedUsers } from './seed';
+
+const DB_NAME = 'medichain';
+
+// Bump this and add an entry to `migrations` whenever the stored shape changes
+export const DB_SCHEMA_VERSION = 7;
+
+const STORES = {
+  prescriptions: 'prescriptions',
+  medicines: 'medicines',
+  users: 'users',
+  dispenseEvents: 'dispenseEvents',
+  patientWallets: 'patientWallets',
+  auditEntries: 'auditEntries',
+  patientProfiles: 'patientProfiles',
+  templates: 'templates',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Rewrite every record in a store during an upgrade transaction
+const rewriteStore = <T>(tx: IDBTransaction, storeName: StoreName, transform: (record: T) => T) => {
+  const cursorRequest = tx.objectStore(storeName).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.update(transform(cursor.value as T));
+      cursor.continue();
+    }
+  };
+};
+
+// Schema migrations, keyed by the version they upgrade to
+const migrations: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  // v1: initial stores, seeded with the demo data
+  1: (db) => {
+    const prescriptions = db.createObjectStore(STORES.prescriptions, { keyPath: 'id' });
+    prescriptions.createIndex('tokenId', 'tokenId', { unique: true });
+    const medicines = db.createObjectStore(STORES.medicines, { keyPath: 'id' });
+    const users = db.createObjectStore(STORES.users, { keyPath: 'id' });
+    const dispenseEvents = db.createObjectStore(STORES.dispenseEvents, { keyPath: 'id' });
+    dispenseEvents.createIndex('tokenId', 'tokenId', { unique: false });
+
+    createSeedPrescriptions().forEach(p => prescriptions.add(p));
+    seedMedicines.forEach(m => medicines.add(m));
+    seedUsers.forEach(u => users.add(u));
+  },
+  // v3: verified patient wallet links, one per patient
+  3: (db) => {
+    db.createObjectStore(STORES.patientWallets, { keyPath: 'patientId' });
+  },
+  // v4: audit log of revocations and amendments
+  4: (db) => {
+    const auditEntries = db.createObjectStore(STORES.auditEntries, { keyPath: 'id' });
+    auditEntries.createIndex('tokenId', 'tokenId', { unique: false });
+  },
+  // v5: patient clinical profiles (allergies, conditions, pregnancy, weight), one per patient
+  5: (db) => {
+    const patientProfiles = db.createObjectStore(STORES.patientProfiles, { keyPath: 'patientId' });
+    seedPatientProfiles.forEach(p => patientProfiles.add(p));
+  },
+  // v6: prescription templates, each holding its version history
+  6: (db) => {
+    const templates = db.createObjectStore(STORES.templates, { keyPath: 'id' });
+    templates.createIndex('ownerId', 'ownerId', { unique: false });
+    seedTemplates.forEach(t => templates.add(t));
+  },
+  // v7: fill in refills and refills remaining, each line's remaining quantity and lock rules
+  // (from single lock dates) on prescriptions stored before those fields existed
+  7: (_db, tx) => {
+    rewriteStore<Prescription>(tx, STORES.prescriptions, revivePrescription);
+  },
+};
+
+// Open the database, running every migration between the stored and current version
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_SCHEMA_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_SCHEMA_VERSION; version++) {
+        migrations[version]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+  });
+
+// Persistent repository backed by the browser's IndexedDB
+export function createIndexedDbRepository(): PrescriptionRepository {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+    }
+    return dbPromise;
+  };
+
+  const getAll = async <T>(storeName: StoreName): Promise<T[]> => {
+    const db = await getDb();
+    return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).getAll()) as Promise<T[]>;
+  };
+
+  const get = async <T>(storeName: StoreName, key: string): Promise<T | null> => {
+    const db = await getDb();
+    const record = await promisify(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+    return (record as T) ?? null;
+  };
+
+  const put = async <T>(storeName: StoreName, record: T): Promise<T> => {
+    const db = await getDb();
+    await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(record));
+    return record;
+  };
+
+  return {
+    getPrescriptions: async () =>
+      (await getAll<Prescription>(STORES.prescriptions)).map(revivePrescription),
+
+    getPrescription: async (id) => {
+      const prescription = await get<Prescription>(STORES.prescriptions, id);
+      return prescription ? revivePrescription(prescription) : null;
+    },
+
+    savePrescription: (prescription) => put(STORES.prescriptions, prescription),
+
+    getMedicines: () => getAll(STORES.medicines),
+
+    saveMedicine: (medicine) => put(STORES.medicines, medicine),
+
+    getUsers: () => getAll(STORES.users),
+
+    saveUser: (user) => put(STORES.users, user),
+
+    getDispenseEvents: async () =>
+      (await getAll<DispenseEvent>(STORES.dispenseEvents)).map(reviveDispenseEvent),
+
+    addDispenseEvent: (event) => put(STORES.dispenseEvents, event),
+
+    updateDispenseEvent: (event) => put(STORES.dispenseEvents, event),
+
+    getPatientWallets: async () =>
+      (await getAll<PatientWallet>(STORES.patientWallets)).map(revivePatientWallet),
+
+    savePatientWallet: (wallet) => put(STORES.patientWallets, wallet),
+
+    getPatientProfiles: async () =>
+      (await getAll<PatientProfile>(STORES.patientProfiles)).map(revivePatientProfile),
+
+    savePatientProfile: (profile) => put(STORES.patientProfiles, profile),
+
+    getTemplates: async () =>
+      (await getAll<PrescriptionTemplate>(STORES.templates)).map(reviveTemplate),
+
+    saveTemplate: (template) => put(STORES.templates, template),
+
+    recordDispense: async (prescription, event) => {
+      const db = await getDb();
+      const tx = db.transaction(
+        [STORES.prescriptions, STORES.medicines, STORES.dispenseEvents],
+        'readwrite'
+      );
+      const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+
+      const medicineStore = tx.objectStore(STORES.medicines);
+      const medicines = await promisify(medicineStore.getAll()) as Medicine[];
+      deductInventory(medicines, event).forEach(medicine => medicineStore.put(medicine));
+      tx.objectStore(STORES.prescriptions).put(prescription);
+      tx.objectStore(STORES.dispenseEvents).put(event);
+
+      await done;
+      return prescription;
+    },
+
+    getAuditEntries: async () =>
+      (await getAll<AuditEntry>(STORES.auditEntries)).map(reviveAuditEntry),
+
+    recordAudit: async (prescriptions, entry) => {
+      const db = await getDb();
+      const tx = db.transaction([STORES.prescriptions, STORES.auditEntries], 'readwrite');
+      const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+
+      const prescriptionStore = tx.objectStore(STORES.prescriptions);
+      prescriptions.forEach(prescription => prescriptionStore.put(prescription));
+      tx.objectStore(STORES.auditEntries).put(entry);
+
+      await done;
+      return entry;
+    },
+
+    ...createLocalNonceStore(),
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { reviveDispenseEvent, revivePrescription } from './PrescriptionRepository';
+import type { DispenseEvent } from './PrescriptionRepository';
+import type { Prescription } from '../PrescriptionService';
+
+// A prescription as stored before refills, per-line remaining quantities and lock rules existed,
+// after a trip through JSON
+const legacyRecord = (overrides: Record<string, unknown> = {}) => JSON.parse(JSON.stringify({
+  id: '1',
+  tokenId: 'RX-OLD00001',
+  patientId: '2',
+  patientName: 'Jane Doe',
+  patientAge: 35,
+  doctorId: '1',
+  doctorName: 'Dr. John Smith',
+  disease: 'Hypertension',
+  medicines: [
+    { medicine: { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 }, quantity: 30, dosage: '1 tablet daily' },
+  ],
+  doseInterval: 'monthly',
+  doseValidity: new Date(2025, 5, 1),
+  created: new Date(2025, 0, 1),
+  lockDates: [new Date(2025, 0, 10)],
+  status: 'active',
+  nextValidDose: new Date(2025, 0, 1),
+  dispensedDates: [],
+  ...overrides,
+})) as Prescription;
+
+describe('revivePrescription', () => {
+  it('restores dates and treats a prescription without refills as a single fill', () => {
+    const revived = revivePrescription(legacyRecord());
+
+    expect(revived.created).toEqual(new Date(2025, 0, 1));
+    expect(revived.doseValidity).toEqual(new Date(2025, 5, 1));
+    expect(revived.nextValidDose).toEqual(new Date(2025, 0, 1));
+    expect(revived.refills).toBe(1);
+    expect(revived.refillsRemaining).toBe(1);
+    expect(revived.medicines[0].remainingQuantity).toBe(30);
+  });
+
+  it('turns single lock dates into one-day ranges', () => {
+    expect(revivePrescription(legacyRecord()).locks).toEqual([
+      { kind: 'range', start: new Date(2025, 0, 10), end: new Date(2025, 0, 10), reason: '' },
+    ]);
+  });
+
+  it('counts fills already dispensed and owes nothing on a finished prescription', () => {
+    const revived = revivePrescription(legacyRecord({
+      status: 'dispensed',
+      nextValidDose: null,
+      dispensedDates: [new Date(2025, 0, 2)],
+    }));
+
+    expect(revived.refillsRemaining).toBe(0);
+    expect(revived.nextValidDose).toBeNull();
+    expect(revived.dispensedDates).toEqual([new Date(2025, 0, 2)]);
+    expect(revived.medicines[0].remainingQuantity).toBe(0);
+  });
+
+  it('keeps fields a current record already has', () => {
+    const current = revivePrescription(legacyRecord({
+      refills: 3,
+      refillsRemaining: 2,
+      medicines: [
+        { medicine: { id: '2', name: 'Lisinopril 10mg', available: true, quantity: 200 }, quantity: 30, dosage: '1 tablet daily', remainingQuantity: 12 },
+      ],
+      locks: [{ kind: 'weekdays', days: [0], reason: 'Closed on Sundays' }],
+    }));
+
+    expect(current.refillsRemaining).toBe(2);
+    expect(current.medicines[0].remainingQuantity).toBe(12);
+    expect(current.locks).toEqual([{ kind: 'weekdays', days: [0], reason: 'Closed on Sundays' }]);
+  });
+});
+
+describe('reviveDispenseEvent', () => {
+  it('fills in the pharmacist, medicine names and chain status older events lack', () => {
+    const stored = JSON.parse(JSON.stringify({
+      id: 'e-1',
+      prescriptionId: '1',
+      tokenId: 'RX-OLD00001',
+      dispensedAt: new Date(2025, 0, 2),
+      medicines: [{ medicineId: '2', quantity: 30 }],
+      blockchainTxHash: '0xabc',
+    })) as DispenseEvent;
+
+    expect(reviveDispenseEvent(stored)).toEqual({
+      ...stored,
+      dispensedAt: new Date(2025, 0, 2),
+      pharmacistId: '',
+      pharmacistName: 'Unknown',
+      medicines: [{ medicineId: '2', medicineName: '2', quantity: 30 }],
+      chainStatus: 'confirmed',
+    });
+  });
+});
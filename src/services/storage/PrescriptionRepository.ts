@@ -0,0 +1,269 @@
+import type { DoseInterval, LockRule, Medicine, Prescription } from '../PrescriptionService';
+import type { DosageSig } from '../dosageSig';
+import type { User } from '@/contexts/AuthContext';
+
+// Whether a dispense event's blockchain transaction was confirmed, or is waiting in the outbox
+export type DispenseChainStatus = 'confirmed' | 'queued' | 'not-recorded';
+
+// A single handover of medicines recorded when a prescription is dispensed
+export interface DispenseEvent {
+  id: string;
+  prescriptionId: string;
+  tokenId: string;
+  dispensedAt: Date;
+  pharmacistId: string;
+  pharmacistName: string;
+  pharmacistWallet?: string;
+  medicines: {
+    medicineId: string;
+    medicineName: string;
+    // Position of the line in the prescription; missing on events recorded before lines were addressed by position
+    lineIndex?: number;
+    quantity: number;
+  }[];
+  blockchainTxHash?: string;
+  chainStatus: DispenseChainStatus;
+}
+
+// A patient's wallet, linked after the patient proved control of it by signing
+export interface PatientWallet {
+  patientId: string;
+  address: string;
+  signature: string;
+  verifiedAt: Date;
+  // Signed-in user who made the link; only the patient themselves may link a wallet to their record
+  linkedBy: string;
+}
+
+// Pregnancy status recorded in a patient's clinical profile
+export type PregnancyStatus = 'unknown' | 'not-pregnant' | 'pregnant' | 'breastfeeding';
+
+// A patient's clinical profile, checked against prescribed medicines
+export interface PatientProfile {
+  patientId: string;
+  // Allergy class ids from the contraindication knowledge base, e.g. 'penicillin'
+  allergies: string[];
+  // Condition ids from the contraindication knowledge base, e.g. 'renal-impairment'
+  conditions: string[];
+  pregnancy: PregnancyStatus;
+  weightKg: number | null;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+// A medicine line saved in a prescription template, referenced by catalog id
+export interface TemplateLine {
+  medicineId: string;
+  // Catalog name when the line was saved, shown if the medicine has since left the catalog
+  medicineName: string;
+  quantity: number;
+  dosage: string;
+  sig: DosageSig;
+}
+
+// One saved version of a prescription template
+export interface TemplateVersion {
+  version: number;
+  disease: string;
+  lines: TemplateLine[];
+  doseInterval: DoseInterval;
+  refills: number;
+  // Days from the issue date to the validity end date
+  validityDays: number;
+  savedAt: Date;
+  savedBy: string;
+}
+
+// A doctor's named, reusable prescription. Saving a change appends a version rather than replacing it
+export interface PrescriptionTemplate {
+  id: string;
+  name: string;
+  ownerId: string;
+  ownerName: string;
+  // Shared templates are offered to every doctor; only the owner can change them
+  shared: boolean;
+  archived: boolean;
+  // Every saved version, oldest first; the last one is current
+  versions: TemplateVersion[];
+}
+
+// Doctor actions recorded in the prescription audit log
+export type AuditAction = 'revoked' | 'amended';
+
+// An audit log entry for a change the issuing doctor made to a prescription
+export interface AuditEntry {
+  id: string;
+  prescriptionId: string;
+  tokenId: string;
+  action: AuditAction;
+  actorId: string;
+  actorName: string;
+  reason: string;
+  at: Date;
+  // Token of the new version, for amendments
+  replacementTokenId?: string;
+  // Marker transaction recording the action on chain, when one could be sent
+  blockchainTxHash?: string;
+}
+
+// A single-use Sign-In With Ethereum nonce, issued to one address
+export interface SiweNonce {
+  nonce: string;
+  address: string;
+  expiresAt: Date;
+}
+
+// How long a sign-in nonce can be used after it is issued
+export const SIWE_NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Storage contract behind PrescriptionService
+export interface PrescriptionRepository {
+  getPrescriptions: () => Promise<Prescription[]>;
+  getPrescription: (id: string) => Promise<Prescription | null>;
+  savePrescription: (prescription: Prescription) => Promise<Prescription>;
+  getMedicines: () => Promise<Medicine[]>;
+  saveMedicine: (medicine: Medicine) => Promise<Medicine>;
+  getUsers: () => Promise<User[]>;
+  saveUser: (user: User) => Promise<User>;
+  getDispenseEvents: () => Promise<DispenseEvent[]>;
+  addDispenseEvent: (event: DispenseEvent) => Promise<DispenseEvent>;
+  // Replace a logged event, e.g. once its queued chain write is confirmed
+  updateDispenseEvent: (event: DispenseEvent) => Promise<DispenseEvent>;
+  getPatientWallets: () => Promise<PatientWallet[]>;
+  savePatientWallet: (wallet: PatientWallet) => Promise<PatientWallet>;
+  getPatientProfiles: () => Promise<PatientProfile[]>;
+  savePatientProfile: (profile: PatientProfile) => Promise<PatientProfile>;
+  getTemplates: () => Promise<PrescriptionTemplate[]>;
+  saveTemplate: (template: PrescriptionTemplate) => Promise<PrescriptionTemplate>;
+  // Atomically store the dispensed prescription, deduct stock and log the event
+  recordDispense: (prescription: Prescription, event: DispenseEvent) => Promise<Prescription>;
+  getAuditEntries: () => Promise<AuditEntry[]>;
+  // Atomically store the changed prescriptions and log the audit entry
+  recordAudit: (prescriptions: Prescription[], entry: AuditEntry) => Promise<AuditEntry>;
+  // Issue a sign-in nonce for an address
+  issueSiweNonce: (address: string) => Promise<SiweNonce>;
+  // Use up a nonce; false when it is unknown, expired, already used or was issued to another address
+  consumeSiweNonce: (nonce: string, address: string) => Promise<boolean>;
+}
+
+// Sign-in nonces for backends without a server, kept for the lifetime of the page
+export function createLocalNonceStore(): Pick<PrescriptionRepository, 'issueSiweNonce' | 'consumeSiweNonce'> {
+  const nonces = new Map<string, SiweNonce>();
+  return {
+    issueSiweNonce: async (address) => {
+      const issued = {
+        nonce: crypto.randomUUID().replace(/-/g, ''),
+        address,
+        expiresAt: new Date(Date.now() + SIWE_NONCE_TTL_MS),
+      };
+      nonces.set(issued.nonce, issued);
+      return issued;
+    },
+
+    consumeSiweNonce: async (nonce, address) => {
+      const issued = nonces.get(nonce);
+      nonces.delete(nonce);
+      return !!issued &&
+        issued.expiresAt.getTime() >= Date.now() &&
+        issued.address.toLowerCase() === address.toLowerCase();
+    },
+  };
+}
+
+// Deduct dispensed quantities from a medicine catalog, returning the changed entries
+export function deductInventory(medicines: Medicine[], event: DispenseEvent): Medicine[] {
+  // Sum per medicine first: a medicine listed on two lines is deducted once, by both quantities
+  const totals = new Map<string, number>();
+  event.medicines.forEach(line => totals.set(line.medicineId, (totals.get(line.medicineId) ?? 0) + line.quantity));
+  return [...totals].flatMap(([medicineId, dispensed]) => {
+    const medicine = medicines.find(m => m.id === medicineId);
+    if (!medicine) return [];
+    const quantity = medicine.quantity - dispensed;
+    return [{ ...medicine, quantity, available: quantity > 0 && medicine.available }];
+  });
+}
+
+const toDate = (value: Date | string | number): Date =>
+  value instanceof Date ? value : new Date(value);
+
+const toOptionalDate = (value: Date | string | number | null | undefined): Date | null =>
+  value === null || value === undefined ? null : toDate(value);
+
+// Restore lock rules, turning the single lock days older prescriptions stored into one-day ranges
+function reviveLocks(prescription: Prescription & { lockDates?: (Date | string)[] }): LockRule[] {
+  if (!prescription.locks) {
+    return (prescription.lockDates || []).map(date => ({
+      kind: 'range',
+      start: toDate(date),
+      end: toDate(date),
+      reason: '',
+    }));
+  }
+  return prescription.locks.map(lock =>
+    lock.kind === 'range' ? { ...lock, start: toDate(lock.start), end: toDate(lock.end) } : lock
+  );
+}
+
+// Restore Date fields on a prescription that went through JSON or an older schema, defaulting fields it lacks
+export function revivePrescription(prescription: Prescription): Prescription {
+  // Prescriptions stored before refills existed were single-fill
+  const refills = prescription.refills ?? 1;
+  return {
+    ...prescription,
+    refills,
+    refillsRemaining: prescription.refillsRemaining ?? Math.max(0, refills - (prescription.dispensedDates || []).length),
+    medicines: prescription.medicines.map(line => ({
+      ...line,
+      remainingQuantity: line.remainingQuantity ?? (prescription.status === 'active' ? line.quantity : 0),
+    })),
+    doseValidity: toDate(prescription.doseValidity),
+    created: toDate(prescription.created),
+    locks: reviveLocks(prescription),
+    nextValidDose: toOptionalDate(prescription.nextValidDose),
+    revokedAt: prescription.revokedAt ? toDate(prescription.revokedAt) : undefined,
+    dispensedDates: (prescription.dispensedDates || []).map(toDate),
+  };
+}
+
+// Restore Date fields on a dispense event, defaulting fields older events lack
+export function reviveDispenseEvent(event: DispenseEvent): DispenseEvent {
+  return {
+    ...event,
+    dispensedAt: toDate(event.dispensedAt),
+    pharmacistId: event.pharmacistId ?? '',
+    pharmacistName: event.pharmacistName ?? 'Unknown',
+    medicines: event.medicines.map(line => ({ ...line, medicineName: line.medicineName ?? line.medicineId })),
+    chainStatus: event.chainStatus ?? (event.blockchainTxHash ? 'confirmed' : 'not-recorded'),
+  };
+}
+
+// Restore Date fields on an audit entry
+export function reviveAuditEntry(entry: AuditEntry): AuditEntry {
+  return { ...entry, at: toDate(entry.at) };
+}
+
+// Restore Date fields on a patient clinical profile
+export function revivePatientProfile(profile: PatientProfile): PatientProfile {
+  return {
+    ...profile,
+    updatedAt: toDate(profile.updatedAt),
+  };
+}
+
+// Restore Date fields on every version of a prescription template
+export function reviveTemplate(template: PrescriptionTemplate): PrescriptionTemplate {
+  return {
+    ...template,
+    archived: template.archived ?? false,
+    versions: template.versions.map(version => ({ ...version, savedAt: toDate(version.savedAt) })),
+  };
+}
+
+// Restore Date fields on a patient wallet link
+export function revivePatientWallet(wallet: PatientWallet): PatientWallet {
+  return {
+    ...wallet,
+    verifiedAt: toDate(wallet.verifiedAt),
+    linkedBy: wallet.linkedBy ?? wallet.patientId,
+  };
+}
@@ -0,0 +1,60 @@
+import { createHttpRepository } from './HttpRepository';
+import { createInMemoryRepository } from './InMemoryRepository';
+import { createIndexedDbRepository } from './IndexedDbRepository';
+import type { PrescriptionRepository } from './PrescriptionRepository';
+
+export type {
+  AuditAction,
+  AuditEntry,
+  DispenseChainStatus,
+  DispenseEvent,
+  PatientProfile,
+  PatientWallet,
+  PregnancyStatus,
+  PrescriptionRepository,
+  PrescriptionTemplate,
+  SiweNonce,
+  TemplateLine,
+  TemplateVersion,
+} from './PrescriptionRepository';
+export { createHttpRepository } from './HttpRepository';
+export { createInMemoryRepository } from './InMemoryRepository';
+export { createIndexedDbRepository } from './IndexedDbRepository';
+
+// Storage backends selectable through VITE_STORAGE_BACKEND
+export type StorageBackend = 'indexeddb' | 'memory' | 'http';
+
+const DEFAULT_API_URL = 'http://localhost:4000/api';
+
+// Build the repository for the configured backend
+const createConfiguredRepository = (): PrescriptionRepository => {
+  const backend = import.meta.env.VITE_STORAGE_BACKEND as StorageBackend | undefined;
+
+  switch (backend) {
+    case 'http':
+      return createHttpRepository(import.meta.env.VITE_API_URL || DEFAULT_API_URL);
+    case 'memory':
+      return createInMemoryRepository();
+    case 'indexeddb':
+    default:
+      return typeof indexedDB !== 'undefined'
+        ? createIndexedDbRepository()
+        : createInMemoryRepository();
+  }
+};
+
+// Active repository, created lazily so tests can swap it before first use
+let repository: PrescriptionRepository | null = null;
+
+// Get the active repository for the configured backend
+export function getRepository(): PrescriptionRepository {
+  if (!repository) {
+    repository = createConfiguredRepository();
+  }
+  return repository;
+}
+
+// Replace the active repository (e.g. with an in-memory one in tests)
+export function setRepository(next: PrescriptionRepository) {
+  repository = next;
+}
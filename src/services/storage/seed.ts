@@ -0,0 +1,54 @@
+import type { Medicine, Prescription, PrescriptionLine } from '../PrescriptionService';
+import type { User } from '@/contexts/AuthContext';
+import {
+  PatientProfile,
+  PrescriptionTemplate,
+  revivePatientProfile,
+  reviveTemplate,
+} from './PrescriptionRepository';
+// Demo data shared with the stand-in server (server/seed.js), so both backends start from the same records
+import seedData from './seed.json';
+
+// Seed prescription as written in seed.json: medicines by id, and dates as days from the moment of seeding
+type SeedPrescription = Omit<Prescription, 'medicines' | 'doseValidity' | 'created' | 'nextValidDose' | 'dispensedDates'> & {
+  medicines: (Omit<PrescriptionLine, 'medicine'> & { medicineId: string })[];
+  doseValidity: number;
+  created: number;
+  nextValidDose: number | null;
+  dispensedDates: number[];
+};
+
+// Mock medicines data
+export const seedMedicines: Medicine[] = seedData.medicines;
+
+// Mock users for demo
+export const seedUsers: User[] = seedData.users as User[];
+
+// Clinical profile for the demo patient
+export const seedPatientProfiles: PatientProfile[] =
+  (seedData.patientProfiles as unknown as PatientProfile[]).map(revivePatientProfile);
+
+// Shared templates from the demo doctor; the diabetes one uses a medicine that is out of stock
+export const seedTemplates: PrescriptionTemplate[] =
+  (seedData.templates as unknown as PrescriptionTemplate[]).map(reviveTemplate);
+
+const daysFromNow = (days: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+// Create mock prescriptions relative to the moment the store is seeded
+export function createSeedPrescriptions(): Prescription[] {
+  return (seedData.prescriptions as unknown as SeedPrescription[]).map(prescription => ({
+    ...prescription,
+    medicines: prescription.medicines.map(({ medicineId, ...line }) => ({
+      ...line,
+      medicine: seedMedicines.find(m => m.id === medicineId)!,
+    })),
+    doseValidity: daysFromNow(prescription.doseValidity),
+    created: daysFromNow(prescription.created),
+    nextValidDose: prescription.nextValidDose === null ? null : daysFromNow(prescription.nextValidDose),
+    dispensedDates: prescription.dispensedDates.map(daysFromNow),
+  }));
+}
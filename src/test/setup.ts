@@ -0,0 +1,31 @@
+// Tests run in Node, which has no Web Storage. Services persist their state to localStorage,
+// so each test file gets a fresh in-memory one
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+}
+
+globalThis.localStorage = new MemoryStorage();
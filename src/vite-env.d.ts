@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_BACKEND?: 'indexeddb' | 'memory' | 'http';
+  readonly VITE_API_URL?: string;
+  readonly VITE_RPC_URL?: string;
+  readonly VITE_NETWORK?: 'local' | 'testnet' | 'production';
+  readonly VITE_LOCAL_CONTRACT_ADDRESS?: string;
+  readonly VITE_TESTNET_CONTRACT_ADDRESS?: string;
+  readonly VITE_PRODUCTION_CONTRACT_ADDRESS?: string;
+  readonly VITE_LOCAL_DEPLOYMENT_BLOCK?: string;
+  readonly VITE_TESTNET_DEPLOYMENT_BLOCK?: string;
+  readonly VITE_PRODUCTION_DEPLOYMENT_BLOCK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}